@@ -3,8 +3,11 @@ import path from 'node:path';
 
 import TemplateClient from '@technomoron/mail-magic-client';
 
+import { lintTemplate, templateLintFailed } from './shared-template-lint';
 import { compileTemplate } from './shared-template-preprocess';
 
+import type { TemplateLintReport } from './shared-template-lint';
+
 export interface PushTemplateOptions {
 	api: string;
 	token: string;
@@ -27,6 +30,8 @@ export interface TemplateUploader {
 		locale?: string;
 		sender?: string;
 		subject?: string;
+		category?: string;
+		track?: boolean;
 	}) => Promise<unknown>;
 }
 
@@ -93,6 +98,8 @@ type InitTemplate = {
 	locale?: string;
 	sender?: string;
 	subject?: string;
+	category?: string;
+	track?: boolean | null;
 	filename?: string;
 };
 
@@ -578,37 +585,71 @@ export type CompileConfigTreeSummary = {
 	actions: CompileAction[];
 };
 
-export async function compileConfigTree(options: CompileConfigTreeOptions): Promise<CompileConfigTreeSummary> {
-	const inputRoot = path.resolve(options.input ?? './data');
-	const outputRoot = path.resolve(options.output ?? './compiled');
-	const initData = loadInitData(inputRoot);
+export interface LintConfigTreeOptions {
+	input?: string;
+	domain?: string;
+	includeTx?: boolean;
+	includeForms?: boolean;
+}
+
+export type LintResult = {
+	kind: 'tx-template' | 'form-template';
+	domain: string;
+	template: string;
+	locale?: string;
+	sourcePath: string;
+	report: TemplateLintReport;
+	/** Parse errors, missing assets or unresolved includes; `|safe` alone does not fail a template. */
+	failed: boolean;
+};
+
+export type LintConfigTreeSummary = {
+	results: LintResult[];
+	failed: number;
+};
+
+/** The requested domain, or the only one in init-data.json, with its config directory. */
+function selectConfigDomains(
+	inputRoot: string,
+	initData: InitData,
+	requestedDomain?: string
+): Array<{ record: InitDomain; dir: string }> {
 	const domains = initData.domain ?? [];
 	if (!domains.length) {
 		throw new Error('No domains found in init-data.json');
 	}
 
-	const requestedDomain = options.domain;
 	const domainNames = requestedDomain ? [requestedDomain] : domains.length === 1 ? [domains[0].name] : [];
 
 	if (!domainNames.length) {
 		throw new Error('Domain is required when init-data.json contains multiple domains');
 	}
 
-	const includeTx = options.includeTx ?? true;
-	const includeForms = options.includeForms ?? true;
-	const actions: CompileAction[] = [];
-
-	for (const domainName of domainNames) {
-		const domainRecord = domains.find((domain) => domain.name === domainName);
-		if (!domainRecord) {
+	return domainNames.map((domainName) => {
+		const record = domains.find((domain) => domain.name === domainName);
+		if (!record) {
 			throw new Error(`Domain "${domainName}" not found in init-data.json`);
 		}
 
-		const domainDir = path.join(inputRoot, domainName);
-		if (!fs.existsSync(domainDir)) {
-			throw new Error(`Domain directory not found: ${domainDir}`);
+		const dir = path.join(inputRoot, domainName);
+		if (!fs.existsSync(dir)) {
+			throw new Error(`Domain directory not found: ${dir}`);
 		}
+		return { record, dir };
+	});
+}
+
+export async function compileConfigTree(options: CompileConfigTreeOptions): Promise<CompileConfigTreeSummary> {
+	const inputRoot = path.resolve(options.input ?? './data');
+	const outputRoot = path.resolve(options.output ?? './compiled');
+	const initData = loadInitData(inputRoot);
 
+	const includeTx = options.includeTx ?? true;
+	const includeForms = options.includeForms ?? true;
+	const actions: CompileAction[] = [];
+
+	for (const { record: domainRecord, dir: domainDir } of selectConfigDomains(inputRoot, initData, options.domain)) {
+		const domainName = domainRecord.name;
 		const domainLocale = domainRecord.locale || '';
 
 		const txTemplates = (initData.template ?? []).filter((template) => recordMatchesDomain(template, domainRecord));
@@ -694,6 +735,105 @@ export async function compileConfigTree(options: CompileConfigTreeOptions): Prom
 	return { templates, forms, actions };
 }
 
+/**
+ * Lint every tx and form template listed in init-data.json, plus its `.txt.njk` companion when there
+ * is one. Includes resolve like the compile step and asset paths are checked against the domain's
+ * `assets/` directory.
+ */
+export function lintConfigTree(options: LintConfigTreeOptions): LintConfigTreeSummary {
+	const inputRoot = path.resolve(options.input ?? './data');
+	const initData = loadInitData(inputRoot);
+	const includeTx = options.includeTx ?? true;
+	const includeForms = options.includeForms ?? true;
+	const results: LintResult[] = [];
+
+	for (const { record: domainRecord, dir: domainDir } of selectConfigDomains(inputRoot, initData, options.domain)) {
+		const domainName = domainRecord.name;
+		const domainLocale = domainRecord.locale || '';
+		const assetsRoot = path.join(domainDir, 'assets');
+		const targets: Array<{ kind: LintResult['kind']; name: string; locale: string; filename?: string }> = [];
+		if (includeTx) {
+			for (const template of (initData.template ?? []).filter((t) => recordMatchesDomain(t, domainRecord))) {
+				targets.push({
+					kind: 'tx-template',
+					name: template.name,
+					locale: template.locale || domainLocale || '',
+					filename: template.filename
+				});
+			}
+		}
+		if (includeForms) {
+			for (const form of (initData.form ?? []).filter((f) => recordMatchesDomain(f, domainRecord))) {
+				targets.push({
+					kind: 'form-template',
+					name: form.idname,
+					locale: form.locale || domainLocale || '',
+					filename: form.filename
+				});
+			}
+		}
+
+		for (const target of targets) {
+			const typeRoot = path.join(domainDir, target.kind);
+			const resolved = resolveTemplateFile(
+				typeRoot,
+				domainName,
+				target.kind,
+				normalizeSlug(target.name),
+				normalizeSlug(target.locale),
+				target.filename
+			);
+			if (!fs.existsSync(resolved.filePath)) {
+				throw new Error(`Template file not found: ${resolved.filePath}`);
+			}
+			const companion = resolved.filePath.replace(/\.njk$/, '.txt.njk');
+			const files = fs.existsSync(companion) ? [resolved.filePath, companion] : [resolved.filePath];
+			for (const sourcePath of files) {
+				const report = lintTemplate(fs.readFileSync(sourcePath, 'utf8'), {
+					templateRoot: resolved.compileSrcDir,
+					baseDir: path.dirname(sourcePath),
+					assetsRoot,
+					file: path.relative(resolved.compileSrcDir, sourcePath).replace(/\\/g, '/')
+				});
+				results.push({
+					kind: target.kind,
+					domain: domainName,
+					template: target.name,
+					locale: target.locale,
+					sourcePath,
+					report,
+					failed: templateLintFailed(report)
+				});
+			}
+		}
+	}
+
+	return { results, failed: results.filter((result) => result.failed).length };
+}
+
+/** Human-readable lines for one lint result, as printed by `mm-cli lint`. */
+export function formatLintResult(result: LintResult): string[] {
+	const { report } = result;
+	const where = (loc: { file: string; line: number }) => `${loc.file || '(source)'}:${loc.line}`;
+	const lines = [
+		`${result.failed ? 'FAIL' : 'ok'} ${result.kind}: ${result.domain} ${result.locale || ''} ${result.template} (${result.sourcePath})`,
+		`  variables: ${report.variables.join(', ') || '(none)'}`
+	];
+	for (const error of report.errors) {
+		lines.push(`  error: ${error.file || '(source)'}: ${error.message}`);
+	}
+	for (const include of report.unresolvedIncludes) {
+		lines.push(`  unresolved include: ${include.name} at ${where(include)}`);
+	}
+	for (const asset of report.missingAssets) {
+		lines.push(`  missing asset: ${asset.path} at ${where(asset)}`);
+	}
+	for (const safe of report.safe) {
+		lines.push(`  uses |safe at ${where(safe)}`);
+	}
+	return lines;
+}
+
 export async function pushTemplateDir(
 	options: PushTemplateDirOptions,
 	client?: TemplateDirUploader
@@ -797,7 +937,9 @@ export async function pushTemplateDir(
 						name: template.name,
 						locale: localeValue,
 						sender: template.sender,
-						subject: template.subject
+						subject: template.subject,
+						...(template.category ? { category: template.category } : {}),
+						...(typeof template.track === 'boolean' ? { track: template.track } : {})
 					});
 				}
 			}
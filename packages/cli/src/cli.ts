@@ -7,7 +7,7 @@ import TemplateClient from '@technomoron/mail-magic-client';
 import { Command } from 'commander';
 
 import { loadCliEnv, resolveToken } from './cli-env';
-import { compileConfigTree, pushTemplate, pushTemplateDir } from './cli-helpers';
+import { compileConfigTree, formatLintResult, lintConfigTree, pushTemplate, pushTemplateDir } from './cli-helpers';
 import { resolvePackageVersion } from './cli-version';
 
 type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
@@ -21,6 +21,8 @@ program
 	.option('-f, --file <file>', 'Path to the file containing the template data (Nunjucks with MJML)')
 	.option('-s, --sender <sender>', 'Sender email address')
 	.option('-r, --rcpt <rcpt>', 'Recipient email addresses (comma-separated)')
+	.option('--cc <cc>', 'CC email addresses for send (comma-separated)')
+	.option('--bcc <bcc>', 'BCC email addresses for send (comma-separated)')
 	.option('-n, --name <name>', 'Template name')
 	.option('-b, --subject <subject>', 'Email subject')
 	.option('-l, --locale <locale>', 'Locale')
@@ -125,6 +127,8 @@ program
 			const templateData = {
 				name: program.opts().name,
 				rcpt: program.opts().rcpt,
+				cc: program.opts().cc,
+				bcc: program.opts().bcc,
 				domain: program.opts().domain,
 				locale: program.opts().locale,
 				vars
@@ -183,6 +187,43 @@ program
 		}
 	});
 
+program
+	.command('lint')
+	.description('Check config-tree templates for missing assets, unresolved includes and |safe usage')
+	.option('-i, --input <input>', 'Config directory (contains init-data.json)', './data')
+	.option('-d, --domain <domain>', 'Domain to lint (required if multiple domains are present)')
+	.option('--tx', 'Lint transactional templates only')
+	.option('--form', 'Lint form templates only')
+	.option('--json', 'Print the reports as JSON')
+	.action(async (cmdOptions) => {
+		try {
+			const summary = lintConfigTree({
+				input: cmdOptions.input,
+				domain: cmdOptions.domain || program.opts().domain,
+				includeTx: cmdOptions.tx || !cmdOptions.form,
+				includeForms: cmdOptions.form || !cmdOptions.tx
+			});
+			if (cmdOptions.json) {
+				console.log(JSON.stringify(summary, null, 2));
+			} else {
+				for (const result of summary.results) {
+					console.log(formatLintResult(result).join('\n'));
+				}
+				console.log(`Linted ${summary.results.length} template file(s), ${summary.failed} with problems`);
+			}
+			if (summary.failed) {
+				process.exit(1);
+			}
+		} catch (error) {
+			if (error instanceof Error) {
+				console.error('Error:', error.message);
+			} else {
+				console.error('An unknown error occurred.');
+			}
+			process.exit(1);
+		}
+	});
+
 program
 	.command('push')
 	.description('Compile a template with partials and store it on the server')
@@ -354,6 +395,38 @@ program
 		}
 	});
 
+program
+	.command('bounce')
+	.description('Post a bounce (DSN) or complaint (ARF) report read from stdin, e.g. from an MTA pipe transport')
+	.option('-d, --domain <domain>', 'Domain the report belongs to')
+	.option('--recipient <address>', 'Envelope recipient the report was delivered to (for VERP matching)')
+	.option('--no-suppress', 'Do not add the bounced or complaining recipients to the suppression list')
+	.action(async (cmdOptions) => {
+		const client = new TemplateClient(program.opts().api, program.opts().token);
+		try {
+			const message = await readStdin();
+			if (!message) {
+				throw new Error('No message on stdin');
+			}
+			const result = await client.ingestBounce({
+				domain: cmdOptions.domain ?? program.opts().domain,
+				message,
+				recipient: cmdOptions.recipient,
+				suppress: cmdOptions.suppress
+			});
+			const matched = result.data?.message?.message_id;
+			console.log(matched ? `Report recorded for message ${matched}` : 'Report did not match a sent message');
+		} catch (error) {
+			if (error instanceof Error) {
+				console.error('Error:', error.message);
+			} else {
+				console.error('An unknown error occurred.');
+			}
+			// EX_TEMPFAIL, so an MTA pipe transport keeps the report and retries instead of dropping it.
+			process.exit(75);
+		}
+	});
+
 // Apply .mmcli-env defaults just before parse so the file is not read at module-import time.
 const cliEnv = loadCliEnv();
 const cliToken = resolveToken(cliEnv);
@@ -5,7 +5,7 @@ import { fileURLToPath } from 'url';
 
 import { expect, it, vi } from 'vitest';
 
-import { compileConfigTree, pushTemplate, pushTemplateDir } from '../src/cli-helpers';
+import { compileConfigTree, formatLintResult, lintConfigTree, pushTemplate, pushTemplateDir } from '../src/cli-helpers';
 
 function setupTemplateFixture(): { root: string; templates: string; cssPath: string } {
 	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mmcli-'));
@@ -120,7 +120,9 @@ it('pushes a config-style directory with templates and assets', async () => {
 				name: 'welcome',
 				locale: 'en',
 				sender: 'Alpha <noreply@alpha.example.test>',
-				subject: 'Welcome'
+				subject: 'Welcome',
+				category: 'onboarding',
+				track: true
 			}
 		],
 		form: [
@@ -164,6 +166,8 @@ it('pushes a config-style directory with templates and assets', async () => {
 	expect(txPayload.name).toBe('welcome');
 	expect(txPayload.domain).toBe(domain);
 	expect(txPayload.locale).toBe('en');
+	expect(txPayload.category).toBe('onboarding');
+	expect(txPayload.track).toBe(true);
 
 	const formPayload = storeFormTemplate.mock.calls[0][0];
 	expect(formPayload.idname).toBe('contact');
@@ -367,6 +371,57 @@ it('compiles the examples data directory', async () => {
 	fs.rmSync(out, { recursive: true, force: true });
 });
 
+it('lints config-tree templates and their text companions', () => {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mmcli-lint-'));
+	const domain = 'alpha.example.test';
+	const domainDir = path.join(root, domain);
+	const txRoot = path.join(domainDir, 'tx-template', 'en');
+	const formRoot = path.join(domainDir, 'form-template', 'en');
+	fs.mkdirSync(txRoot, { recursive: true });
+	fs.mkdirSync(formRoot, { recursive: true });
+	fs.mkdirSync(path.join(domainDir, 'assets'), { recursive: true });
+	fs.writeFileSync(path.join(domainDir, 'assets', 'logo.png'), 'logo');
+	fs.writeFileSync(
+		path.join(txRoot, 'welcome.njk'),
+		'<img src="asset(\'logo.png\')">\n<img src="asset(\'gone.png\')">\n{{ name }} {{ intro | safe }}'
+	);
+	fs.writeFileSync(path.join(txRoot, 'welcome.txt.njk'), 'Hello {{ name }}');
+	fs.writeFileSync(path.join(formRoot, 'contact.njk'), '{% include "partials/fields.njk" %}');
+	const initData = {
+		domain: [{ domain_id: 1, name: domain, locale: 'en' }],
+		template: [{ domain_id: 1, name: 'welcome', locale: 'en' }],
+		form: [
+			{
+				domain_id: 1,
+				idname: 'contact',
+				locale: 'en',
+				sender: 'Forms <forms@alpha.example.test>',
+				recipient: 'owner@alpha.example.test'
+			}
+		]
+	};
+	fs.writeFileSync(path.join(root, 'init-data.json'), JSON.stringify(initData, null, 2));
+
+	const summary = lintConfigTree({ input: root });
+	expect(summary.results.map((result) => [result.kind, path.basename(result.sourcePath), result.failed])).toEqual([
+		['tx-template', 'welcome.njk', true],
+		['tx-template', 'welcome.txt.njk', false],
+		['form-template', 'contact.njk', true]
+	]);
+	expect(summary.failed).toBe(2);
+	const [welcome, , contact] = summary.results;
+	expect(welcome.report.variables).toEqual(['intro', 'name']);
+	expect(welcome.report.missingAssets).toEqual([{ file: 'en/welcome.njk', line: 2, path: 'gone.png' }]);
+	expect(contact.report.unresolvedIncludes).toEqual([
+		{ file: 'en/contact.njk', line: 1, name: 'partials/fields.njk' }
+	]);
+	expect(formatLintResult(welcome)).toContain('  uses |safe at en/welcome.njk:3');
+
+	expect(lintConfigTree({ input: root, includeForms: false }).failed).toBe(1);
+
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
 it('supports natural-key domain mapping without numeric domain_id in template/form records', async () => {
 	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mmcli-natural-keys-'));
 	const out = path.join(root, 'compiled-out');
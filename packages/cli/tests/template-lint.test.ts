@@ -0,0 +1,88 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { lintTemplate, templateLintFailed } from '../src/shared-template-lint';
+
+describe('template lint', () => {
+	const cleanupDirs: string[] = [];
+
+	afterEach(() => {
+		for (const dir of cleanupDirs.splice(0, cleanupDirs.length)) {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it('lists free variables but not names the template binds itself', () => {
+		const report = lintTemplate(
+			[
+				'{% set greeting = "Hi" %}',
+				'{{ greeting }} {{ user.first_name | upper }}',
+				'{% for item in order.items %}{{ loop.index }} {{ item.name }}{% endfor %}',
+				'{% macro price(amount, currency="EUR") %}{{ amount }} {{ currency }}{% endmacro %}',
+				'{{ price(total, currency=cur) }}',
+				'{% if coupon is defined %}{{ coupon }}{% endif %}',
+				'{{ { label: title } | dump }}'
+			].join('\n')
+		);
+		expect(report.variables).toEqual(['coupon', 'cur', 'order', 'title', 'total', 'user']);
+		expect(report.errors).toEqual([]);
+		expect(templateLintFailed(report)).toBe(false);
+	});
+
+	it('reports |safe, missing assets and unresolved includes', () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-magic-lint-'));
+		cleanupDirs.push(root);
+		const templateRoot = path.join(root, 'tx-template');
+		const assetsRoot = path.join(root, 'assets');
+		fs.mkdirSync(path.join(templateRoot, 'partials'), { recursive: true });
+		fs.mkdirSync(path.join(assetsRoot, 'images'), { recursive: true });
+		fs.writeFileSync(path.join(assetsRoot, 'images', 'logo.png'), 'logo');
+		fs.writeFileSync(path.join(templateRoot, 'base.njk'), '<html>{% block body %}{% endblock %}</html>');
+		fs.writeFileSync(path.join(templateRoot, 'partials', 'footer.njk'), '<p>{{ footer_note | safe }}</p>');
+
+		const report = lintTemplate(
+			[
+				'{% extends "base.njk" %}',
+				'{% block body %}',
+				'<img src="asset(\'images/logo.png\', true)">',
+				'<img src="asset(\'images/missing.png\')">',
+				'{% include "partials/footer.njk" %}',
+				'{% include "partials/nope.njk" %}',
+				'{% include "partials/optional.njk" ignore missing %}',
+				'{{ body_html | safe }}',
+				'{% endblock %}'
+			].join('\n'),
+			{ templateRoot, assetsRoot, file: 'welcome.njk' }
+		);
+
+		expect(report.variables).toEqual(['body_html', 'footer_note']);
+		expect(report.missingAssets).toEqual([{ file: 'welcome.njk', line: 4, path: 'images/missing.png' }]);
+		expect(report.unresolvedIncludes).toEqual([{ file: 'welcome.njk', line: 6, name: 'partials/nope.njk' }]);
+		expect(report.safe).toEqual([
+			{ file: 'partials/footer.njk', line: 1 },
+			{ file: 'welcome.njk', line: 8 }
+		]);
+		expect(templateLintFailed(report)).toBe(true);
+	});
+
+	it('reports parse errors and dynamic includes', () => {
+		expect(lintTemplate('{% if x %}unterminated').errors).toHaveLength(1);
+		expect(lintTemplate('{% include partial_name %}', { templateRoot: os.tmpdir() })).toMatchObject({
+			variables: ['partial_name'],
+			unresolvedIncludes: [{ name: '(dynamic)', line: 1 }]
+		});
+	});
+
+	it('keeps includes inside the template root', () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-magic-lint-root-'));
+		cleanupDirs.push(root);
+		fs.mkdirSync(path.join(root, 'tx-template'));
+		fs.writeFileSync(path.join(root, 'secret.njk'), 'secret');
+
+		const report = lintTemplate('{% include "../secret.njk" %}', { templateRoot: path.join(root, 'tx-template') });
+		expect(report.unresolvedIncludes).toEqual([{ file: '', line: 1, name: '../secret.njk' }]);
+	});
+});
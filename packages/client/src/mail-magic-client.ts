@@ -15,20 +15,89 @@ export type ApiResponse<T = unknown> = {
 	[key: string]: unknown;
 };
 
+/**
+ * Outcome for one recipient of a transactional send. `queued` covers scheduled sends and first
+ * attempts that failed transiently (the server keeps retrying); `failed` is a permanent rejection.
+ */
+export type TxRecipientResult = {
+	rcpt: string;
+	status: 'sent' | 'queued' | 'failed' | 'skipped';
+	message_id?: string;
+	smtp_response?: string;
+	/** Name of the server-side transport that accepted the message. */
+	transport?: string;
+	error?: string;
+};
+
+/**
+ * Response data for `sendTxMessage`. The HTTP status is 207 (with Status `PARTIAL` or `FAILED`)
+ * when any recipient was not accepted.
+ */
+export type TxSendResponseData = {
+	Status: 'OK' | 'PARTIAL' | 'FAILED';
+	Message: string;
+	sent: number;
+	queued: number;
+	failed: number;
+	skipped: number;
+	results: TxRecipientResult[];
+	send_at?: string;
+};
+
+export type TxBatchResult = {
+	index: number;
+	rcpt: string;
+	/** `skipped` means the address is on the domain's suppression list. */
+	status: 'queued' | 'failed' | 'skipped';
+	message_id?: string;
+	error?: string;
+};
+
+export type TxBatchResponseData = {
+	Status: 'OK' | 'PARTIAL' | 'FAILED';
+	Message: string;
+	queued: number;
+	failed: number;
+	skipped: number;
+	results: TxBatchResult[];
+	send_at?: string;
+};
+
+/** Response data for `previewTxMessage`: the rendered message, which is never queued or sent. */
+export type MailPreview = {
+	subject: string;
+	html: string;
+	text: string;
+	attachments: Array<{ filename: string; cid?: string }>;
+	headers: Record<string, string>;
+};
+
 export interface StoreTxTemplateInput {
 	template: string;
+	/** Nunjucks template for the plain-text part; when unset the text is converted from the HTML. */
+	text_template?: string;
 	domain: string;
 	sender?: string;
 	name?: string;
 	subject?: string;
 	locale?: string;
 	part?: boolean;
+	/** Default Bcc address(es), comma-separated, added to every send of this template. */
+	bcc?: string;
+	/** Mailing category; sends get unsubscribe links/headers and skip recipients who opted out of it. */
+	category?: string;
+	/** Open/click tracking; `null` or unset follows the domain setting (off by default). */
+	track?: boolean | null;
+	/** Store as the template's draft; sends keep the published version until publishTemplate(). */
+	draft?: boolean;
 }
 
 export interface StoreFormTemplateInput {
 	idname: string;
 	domain: string;
 	template: string;
+	/** Nunjucks template for the plain-text part; when unset the text is converted from the HTML. */
+	text_template?: string;
 	sender: string;
 	recipient: string;
 	subject?: string;
@@ -38,6 +107,8 @@ export interface StoreFormTemplateInput {
 	replyto_from_fields?: boolean;
 	allowed_fields?: string[] | string;
 	captcha_required?: boolean;
+	/** Store template, text template, subject and sender as the form's draft until publishTemplate(). */
+	draft?: boolean;
 }
 
 export interface StoreFormRecipientInput {
@@ -54,11 +125,260 @@ export interface SendTxMessageInput {
 	name: string;
 	rcpt: string;
 	domain: string;
+	/** Comma-separated Cc addresses, added to each recipient's message. */
+	cc?: string;
+	/** Comma-separated Bcc addresses, added to each recipient's message. */
+	bcc?: string;
 	locale?: string;
 	vars?: Record<string, unknown>;
 	replyTo?: string;
 	headers?: Record<string, string>;
 	attachments?: AttachmentInput[];
+	/** Deliver at this time instead of immediately (ISO timestamp or Date). */
+	send_at?: string | Date;
+	/** Repeating a send with the same key returns the original response instead of sending again. */
+	idempotency_key?: string;
+}
+
+export interface PreviewTxMessageInput {
+	name: string;
+	domain: string;
+	/** Optional; available to the template as `_rcpt_email_` and shown in the To header. */
+	rcpt?: string;
+	locale?: string;
+	vars?: Record<string, unknown>;
+	replyTo?: string;
+	headers?: Record<string, string>;
+	/** Render the template's draft instead of the published version. */
+	draft?: boolean;
+}
+
+export interface TxBatchEntry {
+	rcpt: string;
+	vars?: Record<string, unknown>;
+	locale?: string;
+	headers?: Record<string, string>;
+}
+
+export interface SendTxBatchInput {
+	name: string;
+	domain: string;
+	/** Default locale for entries that do not set their own. */
+	locale?: string;
+	entries: TxBatchEntry[];
+	replyTo?: string;
+	send_at?: string | Date;
+	idempotency_key?: string;
+}
+
+export interface RescheduleTxMessageInput {
+	message_id: string;
+	send_at: string | Date;
+	domain?: string;
+}
+
+export interface CancelTxMessageInput {
+	message_id: string;
+	domain?: string;
+}
+
+export type SuppressionReason = 'bounce' | 'complaint' | 'unsubscribe' | 'manual';
+
+/** A suppressed address; transactional sends to it are skipped. */
+export type Suppression = {
+	email: string;
+	reason: SuppressionReason;
+	/** Template category the entry applies to; empty for all mail. */
+	category: string;
+	note: string;
+	created_at: string;
+	updated_at: string;
+};
+
+export interface ListSuppressionsInput {
+	domain: string;
+	email?: string;
+	reason?: SuppressionReason;
+	category?: string;
+	/** `next_cursor` from the previous page. */
+	cursor?: string;
+	limit?: number;
+}
+
+export interface AddSuppressionInput {
+	domain: string;
+	email: string;
+	/** Defaults to `manual`. */
+	reason?: SuppressionReason;
+	/** Only block templates with this category; omit to block all mail. */
+	category?: string;
+	note?: string;
+}
+
+export interface ImportSuppressionsInput {
+	domain: string;
+	/** CSV text: `email,reason,note,category` rows, or any columns under a header row with an `email` column. */
+	csv: string;
+	/** Reason for rows that do not set one; defaults to `manual`. */
+	reason?: SuppressionReason;
+}
+
+export type ImportSuppressionsResponseData = {
+	Status: 'OK' | 'PARTIAL';
+	created: number;
+	updated: number;
+	rejected: number;
+	errors: Array<{ line: number; error: string }>;
+};
+
+export interface IngestBounceInput {
+	domain: string;
+	/** Raw DSN (RFC 3464) or ARF complaint report, headers included. */
+	message: string;
+	/** Envelope recipient the MTA delivered the report to; used for VERP matching. */
+	recipient?: string;
+	/** Add the failed or complaining recipients to the suppression list (default `true`). */
+	suppress?: boolean;
+}
+
+export type BounceRecipient = {
+	email: string;
+	/** DSN action (`failed`, `delayed`, ...) or `complaint`. */
+	action: string;
+	status: string;
+	diagnostic: string;
+	suppressed: boolean;
+};
+
+/** Response data for `ingestBounce`; `message` is the matched message log entry, if any. */
+export type IngestBounceResponseData = {
+	Status: 'OK';
+	kind: 'dsn' | 'arf';
+	matched: boolean;
+	message: Record<string, unknown> | null;
+	recipients: BounceRecipient[];
+};
+
+export interface TxStatsInput {
+	domain: string;
+	template?: string;
+	/** ISO-8601 timestamp or epoch milliseconds. */
+	since?: string | number;
+	until?: string | number;
+}
+
+/** Per-template counts; `sent` includes untracked messages, the `unique_` counts are messages with any event. */
+export type TemplateStats = {
+	template: string;
+	sent: number;
+	opens: number;
+	unique_opens: number;
+	clicks: number;
+	unique_clicks: number;
+};
+
+export type WebhookEventType =
+	'message.sent' | 'message.failed' | 'message.bounced' | 'message.complained' | 'form.submitted';
+
+export type Webhook = {
+	webhook_id: number;
+	url: string;
+	events: WebhookEventType[];
+	description: string;
+	enabled: boolean;
+	/** Only returned when the webhook is created or its secret is changed. */
+	secret?: string;
+	created_at: string;
+	updated_at: string;
+};
+
+export interface WebhookInput {
+	domain: string;
+	url: string;
+	/** Event types, or `'*'` for all of them. */
+	events: WebhookEventType[] | '*';
+	/** Signing secret; the server generates one when omitted. */
+	secret?: string;
+	description?: string;
+	enabled?: boolean;
+}
+
+export type WebhookDelivery = {
+	delivery_id: number;
+	event_id: string;
+	type: WebhookEventType;
+	status: 'queued' | 'sending' | 'delivered' | 'failed';
+	attempts: number;
+	next_attempt_at: string | null;
+	response_code: number;
+	response_body: string;
+	error: string;
+	payload: Record<string, unknown>;
+	created_at: string;
+	delivered_at: string | null;
+};
+
+export interface TemplateVersionTarget {
+	domain: string;
+	kind: 'tx' | 'form';
+	/** Template name for tx templates, idname for forms. */
+	name: string;
+	locale?: string;
+}
+
+export type TemplateVersion = {
+	version: number;
+	source: 'api' | 'import' | 'rollback' | 'publish';
+	/** null for versions imported from the config tree. */
+	user_id: number | null;
+	subject: string;
+	sender: string;
+	/** Number of template assets. */
+	files: number;
+	created_at: string;
+};
+
+/** `template`/`text_template` lines start with ' ' (unchanged), '-' (removed) or '+' (added). */
+export type TemplateVersionDiff = {
+	from: number;
+	to: number;
+	changes: Record<string, { from: unknown; to: unknown }>;
+	template: string[];
+	text_template: string[];
+};
+
+export interface LintTxTemplateInput {
+	domain: string;
+	/** Template whose source file in the config tree is checked when no `template` source is given. */
+	name?: string;
+	locale?: string;
+	template?: string;
+	text_template?: string;
+}
+
+export type TemplateLintLocation = {
+	/** File relative to the domain's tx-template directory; empty for the posted source. */
+	file: string;
+	line: number;
+};
+
+export type TemplateLintReport = {
+	variables: string[];
+	missingAssets: Array<TemplateLintLocation & { path: string }>;
+	unresolvedIncludes: Array<TemplateLintLocation & { name: string }>;
+	safe: TemplateLintLocation[];
+	errors: Array<{ file: string; message: string }>;
+};
+
+export interface TemplateTestSendInput extends TemplateVersionTarget {
+	/** Defaults to the caller's own email address. */
+	rcpt?: string;
+	/** Template vars for tx templates. */
+	vars?: Record<string, unknown>;
+	/** Sample submission fields for forms. */
+	fields?: Record<string, unknown>;
+	/** Render the draft instead of the published version. */
+	draft?: boolean;
 }
 
 export interface SendFormMessageInput {
@@ -197,6 +517,29 @@ class TemplateClient {
 		}
 	}
 
+	private normalizeSendAt(value: string | Date | undefined): string | undefined {
+		if (value === undefined || value === '') {
+			return undefined;
+		}
+		const date = value instanceof Date ? value : new Date(value);
+		if (Number.isNaN(date.getTime())) {
+			throw new Error('Invalid send_at timestamp');
+		}
+		return date.toISOString();
+	}
+
+	private templateVersionQuery(data: TemplateVersionTarget): { prefix: string; params: URLSearchParams } {
+		if (!data.domain || !data.name) {
+			throw new Error('domain and name are required');
+		}
+		const params = new URLSearchParams({ domain: data.domain });
+		params.set(data.kind === 'form' ? 'idname' : 'name', data.name);
+		if (data.locale) {
+			params.set('locale', data.locale);
+		}
+		return { prefix: data.kind === 'form' ? '/api/v1/form/template' : '/api/v1/tx/template', params };
+	}
+
 	private createAttachmentPayload(attachments: AttachmentInput[]): { formData: FormData; usedFields: string[] } {
 		const formData = new FormData();
 		const usedFields: string[] = [];
@@ -246,7 +589,7 @@ class TemplateClient {
 		return this.storeTxTemplate(td);
 	}
 
-	async sendTemplate(std: SendTxMessageInput): Promise<ApiResponse> {
+	async sendTemplate(std: SendTxMessageInput): Promise<ApiResponse<TxSendResponseData>> {
 		if (!std.name || !std.rcpt) {
 			throw new Error('Invalid request body; name/rcpt required');
 		}
@@ -259,13 +602,16 @@ class TemplateClient {
 			throw new Error('No template data provided');
 		}
 		this.validateTemplate(td.template);
+		if (td.text_template) {
+			this.validateTemplate(td.text_template);
+		}
 		if (td.sender) {
 			this.validateSender(td.sender);
 		}
 		return this.post('/api/v1/tx/template', td);
 	}
 
-	async sendTxMessage(std: SendTxMessageInput): Promise<ApiResponse> {
+	async sendTxMessage(std: SendTxMessageInput): Promise<ApiResponse<TxSendResponseData>> {
 		if (!std.name || !std.rcpt) {
 			throw new Error('Invalid request body; name/rcpt required');
 		}
@@ -274,15 +620,26 @@ class TemplateClient {
 		if (invalid.length > 0) {
 			throw new Error('Invalid email address(es): ' + invalid.join(','));
 		}
+		for (const field of ['cc', 'bcc'] as const) {
+			const invalidCopies = std[field] ? this.validateEmails(std[field]).invalid : [];
+			if (invalidCopies.length > 0) {
+				throw new Error(`Invalid ${field} email address(es): ` + invalidCopies.join(','));
+			}
+		}
 
+		const send_at = this.normalizeSendAt(std.send_at);
 		const body = {
 			name: std.name,
 			rcpt: std.rcpt,
+			cc: std.cc,
+			bcc: std.bcc,
 			domain: std.domain || '',
 			locale: std.locale || '',
 			vars: std.vars || {},
 			replyTo: std.replyTo,
-			headers: std.headers
+			headers: std.headers,
+			send_at,
+			idempotency_key: std.idempotency_key
 		};
 		if (std.attachments && std.attachments.length > 0) {
 			if (std.headers) {
@@ -292,16 +649,353 @@ class TemplateClient {
 			this.appendFields(formData, {
 				name: std.name,
 				rcpt: std.rcpt,
+				cc: std.cc,
+				bcc: std.bcc,
 				domain: std.domain || '',
 				locale: std.locale || '',
 				vars: JSON.stringify(std.vars || {}),
-				replyTo: std.replyTo
+				replyTo: std.replyTo,
+				send_at,
+				idempotency_key: std.idempotency_key
 			});
 			return this.postFormData('/api/v1/tx/message', formData);
 		}
 		return this.post('/api/v1/tx/message', body);
 	}
 
+	async previewTxMessage(data: PreviewTxMessageInput): Promise<ApiResponse<MailPreview>> {
+		if (!data.name) {
+			throw new Error('Invalid request body; name required');
+		}
+		return this.post('/api/v1/tx/preview', {
+			name: data.name,
+			domain: data.domain || '',
+			locale: data.locale || '',
+			rcpt: data.rcpt,
+			vars: data.vars || {},
+			replyTo: data.replyTo,
+			headers: data.headers,
+			draft: data.draft
+		});
+	}
+
+	/**
+	 * JSON Schema the template's vars must match, for validating before `sendTxMessage`; `schema` is
+	 * null when the template declares none. The locale falls back the same way as sends.
+	 */
+	async getTxTemplateSchema(data: {
+		domain: string;
+		name: string;
+		locale?: string;
+	}): Promise<ApiResponse<{ name: string; locale: string; schema: Record<string, unknown> | null }>> {
+		if (!data.domain || !data.name) {
+			throw new Error('domain and name are required');
+		}
+		const params = new URLSearchParams({ domain: data.domain, name: data.name });
+		if (data.locale) {
+			params.set('locale', data.locale);
+		}
+		return this.get(`/api/v1/tx/template/schema?${params.toString()}`);
+	}
+
+	/**
+	 * Static checks for a tx template. Pass `template` (and `text_template`) to check a source against
+	 * the domain's config tree, or only `name` to check that template's source file in the tree.
+	 */
+	async lintTxTemplate(data: LintTxTemplateInput): Promise<
+		ApiResponse<{
+			failed: boolean;
+			template: TemplateLintReport;
+			text_template: TemplateLintReport | null;
+		}>
+	> {
+		if (!data.template && !data.name) {
+			throw new Error('template or name is required');
+		}
+		return this.post('/api/v1/tx/template/lint', {
+			domain: data.domain || '',
+			name: data.name,
+			locale: data.locale || '',
+			template: data.template,
+			text_template: data.text_template
+		});
+	}
+
+	async sendTxBatch(data: SendTxBatchInput): Promise<ApiResponse<TxBatchResponseData>> {
+		if (!data.name) {
+			throw new Error('Invalid request body; name required');
+		}
+		if (!Array.isArray(data.entries) || data.entries.length === 0) {
+			throw new Error('At least one batch entry is required');
+		}
+		return this.post('/api/v1/tx/batch', {
+			name: data.name,
+			domain: data.domain || '',
+			locale: data.locale || '',
+			entries: data.entries,
+			replyTo: data.replyTo,
+			send_at: this.normalizeSendAt(data.send_at),
+			idempotency_key: data.idempotency_key
+		});
+	}
+
+	async rescheduleTxMessage(data: RescheduleTxMessageInput): Promise<ApiResponse> {
+		if (!data.message_id) {
+			throw new Error('message_id is required');
+		}
+		const send_at = this.normalizeSendAt(data.send_at);
+		if (!send_at) {
+			throw new Error('send_at is required');
+		}
+		return this.put(`/api/v1/tx/message/${encodeURIComponent(data.message_id)}`, {
+			domain: data.domain,
+			send_at
+		});
+	}
+
+	async cancelTxMessage(data: CancelTxMessageInput): Promise<ApiResponse> {
+		if (!data.message_id) {
+			throw new Error('message_id is required');
+		}
+		return this.delete(`/api/v1/tx/message/${encodeURIComponent(data.message_id)}`, { domain: data.domain });
+	}
+
+	async listSuppressions(
+		data: ListSuppressionsInput
+	): Promise<ApiResponse<{ suppressions: Suppression[]; next_cursor: string | null }>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		const params = new URLSearchParams({ domain: data.domain });
+		if (data.email) {
+			params.set('email', data.email);
+		}
+		if (data.reason) {
+			params.set('reason', data.reason);
+		}
+		if (data.category) {
+			params.set('category', data.category);
+		}
+		if (data.cursor) {
+			params.set('cursor', data.cursor);
+		}
+		if (data.limit) {
+			params.set('limit', String(data.limit));
+		}
+		return this.get(`/api/v1/suppressions?${params.toString()}`);
+	}
+
+	async addSuppression(data: AddSuppressionInput): Promise<ApiResponse<{ suppression: Suppression }>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		const { invalid } = this.validateEmails(data.email || '');
+		if (!data.email || invalid.length > 0) {
+			throw new Error(`Invalid email address: ${data.email || ''}`);
+		}
+		return this.post('/api/v1/suppressions', {
+			domain: data.domain,
+			email: data.email,
+			reason: data.reason,
+			category: data.category,
+			note: data.note
+		});
+	}
+
+	/** Removes every entry for the address, or only the one for `category` when given. */
+	async removeSuppression(data: { domain: string; email: string; category?: string }): Promise<ApiResponse> {
+		if (!data.domain || !data.email) {
+			throw new Error('domain and email are required');
+		}
+		return this.delete(`/api/v1/suppressions/${encodeURIComponent(data.email)}`, {
+			domain: data.domain,
+			category: data.category
+		});
+	}
+
+	async importSuppressions(data: ImportSuppressionsInput): Promise<ApiResponse<ImportSuppressionsResponseData>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		if (!data.csv || !data.csv.trim()) {
+			throw new Error('csv is required');
+		}
+		return this.post('/api/v1/suppressions/import', { domain: data.domain, csv: data.csv, reason: data.reason });
+	}
+
+	/** The domain's suppression list as CSV (`email,reason,note,category,created_at`), re-importable as-is. */
+	async exportSuppressions(data: {
+		domain: string;
+		reason?: SuppressionReason;
+	}): Promise<ApiResponse<{ count: number; csv: string }>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		const params = new URLSearchParams({ domain: data.domain });
+		if (data.reason) {
+			params.set('reason', data.reason);
+		}
+		return this.get(`/api/v1/suppressions/export?${params.toString()}`);
+	}
+
+	async ingestBounce(data: IngestBounceInput): Promise<ApiResponse<IngestBounceResponseData>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		if (!data.message || !data.message.trim()) {
+			throw new Error('message is required');
+		}
+		return this.post('/api/v1/bounces', {
+			domain: data.domain,
+			message: data.message,
+			...(data.recipient ? { recipient: data.recipient } : {}),
+			...(data.suppress === undefined ? {} : { suppress: data.suppress })
+		});
+	}
+
+	async getTxStats(data: TxStatsInput): Promise<ApiResponse<{ templates: TemplateStats[] }>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		const params = new URLSearchParams({ domain: data.domain });
+		if (data.template) {
+			params.set('template', data.template);
+		}
+		if (data.since !== undefined) {
+			params.set('since', String(data.since));
+		}
+		if (data.until !== undefined) {
+			params.set('until', String(data.until));
+		}
+		return this.get(`/api/v1/tx/stats?${params.toString()}`);
+	}
+
+	async listWebhooks(data: { domain: string }): Promise<ApiResponse<{ webhooks: Webhook[] }>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		return this.get(`/api/v1/webhooks?${new URLSearchParams({ domain: data.domain }).toString()}`);
+	}
+
+	async createWebhook(data: WebhookInput): Promise<ApiResponse<{ webhook: Webhook }>> {
+		if (!data.domain) {
+			throw new Error('domain is required');
+		}
+		if (!data.url) {
+			throw new Error('url is required');
+		}
+		if (!data.events || data.events.length === 0) {
+			throw new Error('events are required');
+		}
+		return this.post('/api/v1/webhooks', data);
+	}
+
+	/** Changes only the given fields. */
+	async updateWebhook(
+		data: Partial<Omit<WebhookInput, 'domain'>> & { domain: string; webhook_id: number }
+	): Promise<ApiResponse<{ webhook: Webhook }>> {
+		if (!data.domain || !data.webhook_id) {
+			throw new Error('domain and webhook_id are required');
+		}
+		const { webhook_id, ...body } = data;
+		return this.put(`/api/v1/webhooks/${webhook_id}`, body);
+	}
+
+	async deleteWebhook(data: { domain: string; webhook_id: number }): Promise<ApiResponse> {
+		if (!data.domain || !data.webhook_id) {
+			throw new Error('domain and webhook_id are required');
+		}
+		return this.delete(`/api/v1/webhooks/${data.webhook_id}`, { domain: data.domain });
+	}
+
+	async listWebhookDeliveries(data: {
+		domain: string;
+		webhook_id: number;
+		status?: WebhookDelivery['status'];
+		type?: WebhookEventType;
+		/** `next_cursor` from the previous page. */
+		cursor?: string;
+		limit?: number;
+	}): Promise<ApiResponse<{ deliveries: WebhookDelivery[]; next_cursor: string | null }>> {
+		if (!data.domain || !data.webhook_id) {
+			throw new Error('domain and webhook_id are required');
+		}
+		const params = new URLSearchParams({ domain: data.domain });
+		if (data.status) {
+			params.set('status', data.status);
+		}
+		if (data.type) {
+			params.set('type', data.type);
+		}
+		if (data.cursor) {
+			params.set('cursor', data.cursor);
+		}
+		if (data.limit) {
+			params.set('limit', String(data.limit));
+		}
+		return this.get(`/api/v1/webhooks/${data.webhook_id}/deliveries?${params.toString()}`);
+	}
+
+	async listTemplateVersions(data: TemplateVersionTarget): Promise<
+		ApiResponse<{
+			current: number | null;
+			draft: { user_id: number; updated_at: string } | null;
+			versions: TemplateVersion[];
+		}>
+	> {
+		const { prefix, params } = this.templateVersionQuery(data);
+		return this.get(`${prefix}/versions?${params.toString()}`);
+	}
+
+	/** `to` defaults to the latest version and `from` to the version before `to`. */
+	async diffTemplateVersions(
+		data: TemplateVersionTarget & { from?: number; to?: number }
+	): Promise<ApiResponse<{ diff: TemplateVersionDiff }>> {
+		const { prefix, params } = this.templateVersionQuery(data);
+		if (data.from !== undefined) {
+			params.set('from', String(data.from));
+		}
+		if (data.to !== undefined) {
+			params.set('to', String(data.to));
+		}
+		return this.get(`${prefix}/diff?${params.toString()}`);
+	}
+
+	async rollbackTemplate(
+		data: TemplateVersionTarget & { version: number }
+	): Promise<ApiResponse<{ restored: number; version: TemplateVersion }>> {
+		const { prefix, params } = this.templateVersionQuery(data);
+		if (!data.version) {
+			throw new Error('version is required');
+		}
+		return this.post(`${prefix}/rollback`, { ...Object.fromEntries(params), version: data.version });
+	}
+
+	/** Make the draft stored with `draft: true` the published template. */
+	async publishTemplate(data: TemplateVersionTarget): Promise<ApiResponse<{ version: TemplateVersion }>> {
+		const { prefix, params } = this.templateVersionQuery(data);
+		return this.post(`${prefix}/publish`, Object.fromEntries(params));
+	}
+
+	/** Send one rendered copy (of the draft with `draft: true`) to `rcpt` or the caller. */
+	async sendTemplateTest(
+		data: TemplateTestSendInput
+	): Promise<ApiResponse<{ rcpt: string; message_id: string; draft: boolean }>> {
+		const { prefix, params } = this.templateVersionQuery(data);
+		if (data.rcpt) {
+			const { invalid } = this.validateEmails(data.rcpt);
+			if (invalid.length > 0) {
+				throw new Error('Invalid email address: ' + invalid.join(','));
+			}
+		}
+		return this.post(`${prefix}/test`, {
+			...Object.fromEntries(params),
+			rcpt: data.rcpt,
+			...(data.kind === 'form' ? { fields: data.fields || {} } : { vars: data.vars || {} }),
+			draft: data.draft
+		});
+	}
+
 	async storeFormTemplate(data: StoreFormTemplateInput): Promise<ApiResponse> {
 		if (!data.template) {
 			throw new Error('No template data provided');
@@ -316,6 +1010,9 @@ class TemplateClient {
 			throw new Error('Missing recipient address');
 		}
 		this.validateTemplate(data.template);
+		if (data.text_template) {
+			this.validateTemplate(data.text_template);
+		}
 		this.validateSender(data.sender);
 		return this.post('/api/v1/form/template', data);
 	}
@@ -129,6 +129,284 @@ describe('TemplateClient', () => {
 		expect(body.rcpt).toBe('valid@example.test');
 	});
 
+	it('resolves 207 partial sends with per-recipient results', async () => {
+		fetchSpy.mockImplementationOnce(async () => {
+			return new Response(
+				JSON.stringify({
+					success: true,
+					data: {
+						Status: 'PARTIAL',
+						Message: '1 of 2 emails accepted',
+						sent: 1,
+						queued: 0,
+						failed: 1,
+						skipped: 0,
+						results: [
+							{ rcpt: 'a@example.test', status: 'sent', message_id: 'm1', smtp_response: '250 OK' },
+							{
+								rcpt: 'b@example.test',
+								status: 'failed',
+								message_id: 'm2',
+								smtp_response: '550 5.1.1 mailbox unavailable'
+							}
+						]
+					}
+				}),
+				{ status: 207, headers: { 'Content-Type': 'application/json' } }
+			);
+		});
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		const res = await client.sendTxMessage({
+			name: 'welcome',
+			rcpt: 'a@example.test,b@example.test',
+			domain: 'example.test'
+		});
+
+		expect(res.data?.Status).toBe('PARTIAL');
+		expect(res.data?.results.map((result) => result.status)).toEqual(['sent', 'failed']);
+		expect(res.data?.results[1].smtp_response).toContain('550');
+	});
+
+	it('passes send_at as an ISO timestamp for scheduled sends', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.sendTxMessage({
+			name: 'reminder',
+			rcpt: 'user@example.test',
+			domain: 'example.test',
+			send_at: new Date('2030-01-02T09:00:00+02:00')
+		});
+
+		const [, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		const body = JSON.parse(String(options.body));
+		expect(body.send_at).toBe('2030-01-02T07:00:00.000Z');
+
+		await expect(
+			client.sendTxMessage({
+				name: 'reminder',
+				rcpt: 'user@example.test',
+				domain: 'example.test',
+				send_at: 'soon'
+			})
+		).rejects.toThrow('Invalid send_at timestamp');
+	});
+
+	it('passes idempotency_key with transactional sends', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.sendTxMessage({
+			name: 'password-reset',
+			rcpt: 'user@example.test',
+			domain: 'example.test',
+			idempotency_key: 'reset-42'
+		});
+
+		const [, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(JSON.parse(String(options.body)).idempotency_key).toBe('reset-42');
+	});
+
+	it('posts batch sends with per-entry vars', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.sendTxBatch({
+			name: 'digest',
+			domain: 'example.test',
+			entries: [
+				{ rcpt: 'a@example.test', vars: { first_name: 'A' } },
+				{ rcpt: 'b@example.test', vars: { first_name: 'B' }, locale: 'nb' }
+			]
+		});
+
+		const [url, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe('http://localhost:4000/api/v1/tx/batch');
+		const body = JSON.parse(String(options.body));
+		expect(body.name).toBe('digest');
+		expect(body.entries).toHaveLength(2);
+		expect(body.entries[1]).toEqual({ rcpt: 'b@example.test', vars: { first_name: 'B' }, locale: 'nb' });
+
+		await expect(client.sendTxBatch({ name: 'digest', domain: 'example.test', entries: [] })).rejects.toThrow(
+			'At least one batch entry is required'
+		);
+	});
+
+	it('posts template previews', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.previewTxMessage({ name: 'welcome', domain: 'example.test', vars: { name: 'Ada' } });
+
+		const [url, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe('http://localhost:4000/api/v1/tx/preview');
+		expect(JSON.parse(String(options.body))).toEqual({
+			name: 'welcome',
+			domain: 'example.test',
+			locale: '',
+			vars: { name: 'Ada' }
+		});
+	});
+
+	it('fetches the vars schema of a tx template', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.getTxTemplateSchema({ domain: 'example.test', name: 'welcome', locale: 'nb' });
+
+		const [url, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe('http://localhost:4000/api/v1/tx/template/schema?domain=example.test&name=welcome&locale=nb');
+		expect(options.method).toBe('GET');
+		await expect(client.getTxTemplateSchema({ domain: 'example.test', name: '' })).rejects.toThrow(
+			'domain and name are required'
+		);
+	});
+
+	it('lints a template source', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.lintTxTemplate({ domain: 'example.test', template: '<p>{{ name }}</p>' });
+
+		const [url, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe('http://localhost:4000/api/v1/tx/template/lint');
+		expect(JSON.parse(String(options.body))).toEqual({
+			domain: 'example.test',
+			locale: '',
+			template: '<p>{{ name }}</p>'
+		});
+		await expect(client.lintTxTemplate({ domain: 'example.test' })).rejects.toThrow('template or name is required');
+	});
+
+	it('reschedules and cancels pending transactional messages', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.rescheduleTxMessage({
+			message_id: 'abc123',
+			domain: 'example.test',
+			send_at: '2030-01-02T07:00:00Z'
+		});
+		await client.cancelTxMessage({ message_id: 'abc123', domain: 'example.test' });
+
+		const [putUrl, putOptions] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(putUrl).toBe('http://localhost:4000/api/v1/tx/message/abc123');
+		expect(putOptions.method).toBe('PUT');
+		expect(JSON.parse(String(putOptions.body))).toEqual({
+			domain: 'example.test',
+			send_at: '2030-01-02T07:00:00.000Z'
+		});
+
+		const [deleteUrl, deleteOptions] = fetchSpy.mock.calls[1] as [string, RequestInit];
+		expect(deleteUrl).toBe('http://localhost:4000/api/v1/tx/message/abc123');
+		expect(deleteOptions.method).toBe('DELETE');
+	});
+
+	it('manages the suppression list', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.addSuppression({ domain: 'example.test', email: 'gone@example.test', reason: 'bounce' });
+		await client.listSuppressions({ domain: 'example.test', reason: 'bounce', limit: 10 });
+		await client.removeSuppression({ domain: 'example.test', email: 'gone@example.test' });
+		await client.importSuppressions({ domain: 'example.test', csv: 'a@example.test,complaint\n' });
+		await client.exportSuppressions({ domain: 'example.test' });
+
+		const calls = fetchSpy.mock.calls as Array<[string, RequestInit]>;
+		expect(calls.map(([url, options]) => `${options.method} ${url}`)).toEqual([
+			'POST http://localhost:4000/api/v1/suppressions',
+			'GET http://localhost:4000/api/v1/suppressions?domain=example.test&reason=bounce&limit=10',
+			'DELETE http://localhost:4000/api/v1/suppressions/gone%40example.test',
+			'POST http://localhost:4000/api/v1/suppressions/import',
+			'GET http://localhost:4000/api/v1/suppressions/export?domain=example.test'
+		]);
+		expect(JSON.parse(String(calls[0][1].body))).toEqual({
+			domain: 'example.test',
+			email: 'gone@example.test',
+			reason: 'bounce'
+		});
+		await expect(client.addSuppression({ domain: 'example.test', email: 'nope' })).rejects.toThrow(
+			'Invalid email address'
+		);
+	});
+
+	it('posts raw bounce reports', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.ingestBounce({
+			domain: 'example.test',
+			message: 'Content-Type: multipart/report\r\n\r\n...',
+			recipient: 'bounces+abc@example.test',
+			suppress: false
+		});
+
+		const [url, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe('http://localhost:4000/api/v1/bounces');
+		expect(JSON.parse(String(options.body))).toEqual({
+			domain: 'example.test',
+			message: 'Content-Type: multipart/report\r\n\r\n...',
+			recipient: 'bounces+abc@example.test',
+			suppress: false
+		});
+		await expect(client.ingestBounce({ domain: 'example.test', message: ' ' })).rejects.toThrow(
+			'message is required'
+		);
+	});
+
+	it('manages webhooks', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.createWebhook({ domain: 'example.test', url: 'https://crm.example.test/hook', events: '*' });
+		await client.listWebhooks({ domain: 'example.test' });
+		await client.updateWebhook({ domain: 'example.test', webhook_id: 3, enabled: false });
+		await client.listWebhookDeliveries({ domain: 'example.test', webhook_id: 3, status: 'failed' });
+		await client.deleteWebhook({ domain: 'example.test', webhook_id: 3 });
+
+		const calls = fetchSpy.mock.calls as Array<[string, RequestInit]>;
+		expect(calls.map(([url, options]) => `${options.method} ${url}`)).toEqual([
+			'POST http://localhost:4000/api/v1/webhooks',
+			'GET http://localhost:4000/api/v1/webhooks?domain=example.test',
+			'PUT http://localhost:4000/api/v1/webhooks/3',
+			'GET http://localhost:4000/api/v1/webhooks/3/deliveries?domain=example.test&status=failed',
+			'DELETE http://localhost:4000/api/v1/webhooks/3'
+		]);
+		expect(JSON.parse(String(calls[2][1].body))).toEqual({ domain: 'example.test', enabled: false });
+		await expect(
+			client.createWebhook({ domain: 'example.test', url: 'https://crm.example.test/hook', events: [] })
+		).rejects.toThrow('events are required');
+	});
+
+	it('lists, diffs and rolls back template versions', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.listTemplateVersions({ domain: 'example.test', kind: 'tx', name: 'welcome', locale: 'en' });
+		await client.diffTemplateVersions({ domain: 'example.test', kind: 'form', name: 'contact', from: 1 });
+		await client.rollbackTemplate({ domain: 'example.test', kind: 'tx', name: 'welcome', version: 2 });
+
+		const calls = fetchSpy.mock.calls as Array<[string, RequestInit]>;
+		expect(calls.map(([url, options]) => `${options.method} ${url}`)).toEqual([
+			'GET http://localhost:4000/api/v1/tx/template/versions?domain=example.test&name=welcome&locale=en',
+			'GET http://localhost:4000/api/v1/form/template/diff?domain=example.test&idname=contact&from=1',
+			'POST http://localhost:4000/api/v1/tx/template/rollback'
+		]);
+		expect(JSON.parse(String(calls[2][1].body))).toEqual({ domain: 'example.test', name: 'welcome', version: 2 });
+		await expect(
+			client.rollbackTemplate({ domain: 'example.test', kind: 'tx', name: '', version: 1 })
+		).rejects.toThrow('domain and name are required');
+	});
+
+	it('publishes drafts and sends test copies', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.publishTemplate({ domain: 'example.test', kind: 'form', name: 'contact' });
+		await client.sendTemplateTest({ domain: 'example.test', kind: 'tx', name: 'welcome', draft: true });
+
+		const calls = fetchSpy.mock.calls as Array<[string, RequestInit]>;
+		expect(calls.map(([url]) => url)).toEqual([
+			'http://localhost:4000/api/v1/form/template/publish',
+			'http://localhost:4000/api/v1/tx/template/test'
+		]);
+		expect(JSON.parse(String(calls[0][1].body))).toEqual({ domain: 'example.test', idname: 'contact' });
+		expect(JSON.parse(String(calls[1][1].body))).toEqual({
+			domain: 'example.test',
+			name: 'welcome',
+			vars: {},
+			draft: true
+		});
+		await expect(
+			client.sendTemplateTest({ domain: 'example.test', kind: 'tx', name: 'welcome', rcpt: 'nope' })
+		).rejects.toThrow('Invalid email address');
+	});
+
+	it('fetches per-template tracking stats', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.getTxStats({ domain: 'example.test', template: 'promo', since: '2030-01-01' });
+
+		const [url, options] = fetchSpy.mock.calls[0] as [string, RequestInit];
+		expect(options.method).toBe('GET');
+		expect(url).toBe('http://localhost:4000/api/v1/tx/stats?domain=example.test&template=promo&since=2030-01-01');
+	});
+
 	it('rejects invalid recipient addresses', async () => {
 		const client = new TemplateClient('http://localhost:4000', 'test-token');
 		await expect(
@@ -141,6 +419,24 @@ describe('TemplateClient', () => {
 		expect(fetchSpy).not.toHaveBeenCalled();
 	});
 
+	it('sends cc/bcc and validates their addresses', async () => {
+		const client = new TemplateClient('http://localhost:4000', 'test-token');
+		await client.sendTxMessage({
+			name: 'welcome',
+			domain: 'example.test',
+			rcpt: 'user@example.test',
+			cc: 'manager@example.test',
+			bcc: 'archive@example.test'
+		});
+		const body = JSON.parse(String((fetchSpy.mock.calls[0] as [string, RequestInit])[1].body));
+		expect(body).toMatchObject({ cc: 'manager@example.test', bcc: 'archive@example.test' });
+
+		await expect(
+			client.sendTxMessage({ name: 'welcome', domain: 'example.test', rcpt: 'user@example.test', bcc: 'nope' })
+		).rejects.toThrow('Invalid bcc email address(es): nope');
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+	});
+
 	it('stores form templates via the API', async () => {
 		const client = new TemplateClient('http://localhost:4000', 'test-token');
 		await client.storeFormTemplate({
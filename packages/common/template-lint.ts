@@ -0,0 +1,285 @@
+/*
+ *  Static checks for nunjucks templates: referenced variables, asset('...') paths, includes and
+ *  |safe output. Works on the nunjucks parse tree, so nothing is rendered.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import nunjucks from 'nunjucks';
+
+type LintNode = {
+	typename: string;
+	fields: string[];
+	lineno: number;
+	value?: unknown;
+	children?: unknown[];
+	[field: string]: unknown;
+};
+
+type NunjucksInternals = {
+	parser: { parse: (src: string) => LintNode };
+};
+
+export type TemplateLintLocation = {
+	/** File relative to the template root; empty for the linted source itself. */
+	file: string;
+	/** 1-based line number. */
+	line: number;
+};
+
+export type TemplateLintReport = {
+	/** Variables read by the template and everything it includes or extends, minus names it sets itself. */
+	variables: string[];
+	/** asset('...') paths with no file under the assets root. */
+	missingAssets: Array<TemplateLintLocation & { path: string }>;
+	/** include, extends and import targets that were not found or are not a literal name. */
+	unresolvedIncludes: Array<TemplateLintLocation & { name: string }>;
+	/** Output passed through |safe, which skips autoescaping. */
+	safe: TemplateLintLocation[];
+	/** Parse errors. A file that does not parse contributes nothing else to the report. */
+	errors: Array<{ file: string; message: string }>;
+};
+
+export type TemplateLintOptions = {
+	/** Root that include/extends/import names resolve against (a domain's tx-template or form-template). */
+	templateRoot?: string;
+	/** Directory of the linted source, tried before templateRoot. Defaults to templateRoot. */
+	baseDir?: string;
+	/** The domain's assets directory. asset('...') paths are only checked when it is set. */
+	assetsRoot?: string;
+	/** Name of the linted source in the report. */
+	file?: string;
+};
+
+const ASSET_EXP = /asset\(\s*['"]([^'"]+)['"]/g;
+const TEMPLATE_REF_NODES = new Set(['Include', 'Extends', 'Import', 'FromImport']);
+
+type LintState = {
+	options: TemplateLintOptions;
+	report: TemplateLintReport;
+	referenced: Set<string>;
+	locals: Set<string>;
+	visited: Set<string>;
+};
+
+function isNode(value: unknown): value is LintNode {
+	return !!value && typeof value === 'object' && typeof (value as LintNode).typename === 'string';
+}
+
+function insideRoot(root: string, candidate: string): boolean {
+	const normalized = root.endsWith(path.sep) ? root : root + path.sep;
+	return candidate.startsWith(normalized);
+}
+
+function lineAt(source: string, index: number): number {
+	return source.slice(0, index).split('\n').length;
+}
+
+/** Names bound by set/for/macro/import targets: a Symbol, an Array of Symbols, or a Pair alias. */
+function collectBoundNames(node: unknown, into: Set<string>): void {
+	if (Array.isArray(node)) {
+		for (const child of node) {
+			collectBoundNames(child, into);
+		}
+		return;
+	}
+	if (!isNode(node)) {
+		return;
+	}
+	if (node.typename === 'Symbol') {
+		into.add(String(node.value));
+	} else if (node.typename === 'Pair') {
+		collectBoundNames(node.value, into);
+	} else {
+		collectBoundNames(node.children, into);
+	}
+}
+
+function resolveTemplateRef(state: LintState, name: string, baseDir: string): string | null {
+	const root = state.options.templateRoot;
+	if (!root) {
+		return null;
+	}
+	const resolvedRoot = path.resolve(root);
+	const cleaned = name.replace(/^\/+/, '');
+	for (const candidate of [path.resolve(baseDir, cleaned), path.resolve(resolvedRoot, cleaned)]) {
+		if (insideRoot(resolvedRoot, candidate) && fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+			return candidate;
+		}
+	}
+	return null;
+}
+
+function checkTemplateRef(state: LintState, node: LintNode, file: string, baseDir: string): void {
+	const target = node.template;
+	const line = node.lineno + 1;
+	if (!isNode(target) || target.typename !== 'Literal' || typeof target.value !== 'string') {
+		walk(state, target, file, baseDir);
+		state.report.unresolvedIncludes.push({ file, line, name: '(dynamic)' });
+		return;
+	}
+	if (!state.options.templateRoot) {
+		return;
+	}
+	const found = resolveTemplateRef(state, target.value, baseDir);
+	if (!found) {
+		if (!node.ignoreMissing) {
+			state.report.unresolvedIncludes.push({ file, line, name: target.value });
+		}
+		return;
+	}
+	if (state.visited.has(found)) {
+		return;
+	}
+	state.visited.add(found);
+	const relative = path.relative(path.resolve(state.options.templateRoot), found).replace(/\\/g, '/');
+	lintSource(state, fs.readFileSync(found, 'utf8'), relative, path.dirname(found));
+}
+
+function walk(state: LintState, node: unknown, file: string, baseDir: string): void {
+	if (Array.isArray(node)) {
+		for (const child of node) {
+			walk(state, child, file, baseDir);
+		}
+		return;
+	}
+	if (!isNode(node)) {
+		return;
+	}
+
+	switch (node.typename) {
+		case 'Symbol':
+			state.referenced.add(String(node.value));
+			return;
+		case 'Filter':
+		case 'FilterAsync': {
+			const name = node.name as LintNode | undefined;
+			if (name?.value === 'safe') {
+				state.report.safe.push({ file, line: node.lineno + 1 });
+			}
+			walk(state, node.args, file, baseDir);
+			return;
+		}
+		case 'FunCall':
+			// A bare function name is a macro or global, not a variable.
+			if (!isNode(node.name) || node.name.typename !== 'Symbol') {
+				walk(state, node.name, file, baseDir);
+			}
+			walk(state, node.args, file, baseDir);
+			return;
+		case 'Is':
+			// The right-hand side names a test (`is defined`).
+			walk(state, node.left, file, baseDir);
+			if (!isNode(node.right) || node.right.typename !== 'Symbol') {
+				walk(state, node.right, file, baseDir);
+			}
+			return;
+		case 'Pair':
+			// Dict keys and keyword argument names are literals, even when written as bare words.
+			if (!isNode(node.key) || node.key.typename !== 'Symbol') {
+				walk(state, node.key, file, baseDir);
+			}
+			walk(state, node.value, file, baseDir);
+			return;
+		case 'Block':
+			walk(state, node.body, file, baseDir);
+			return;
+		case 'Set':
+			collectBoundNames(node.targets, state.locals);
+			walk(state, node.value, file, baseDir);
+			walk(state, node.body, file, baseDir);
+			return;
+		case 'For':
+		case 'AsyncEach':
+		case 'AsyncAll':
+			collectBoundNames(node.name, state.locals);
+			state.locals.add('loop');
+			walk(state, node.arr, file, baseDir);
+			walk(state, node.body, file, baseDir);
+			walk(state, node.else_, file, baseDir);
+			return;
+		case 'Macro':
+		case 'Caller': {
+			collectBoundNames(node.name, state.locals);
+			state.locals.add('caller');
+			const args = (node.args as LintNode | undefined)?.children ?? [];
+			for (const arg of args) {
+				if (isNode(arg) && arg.typename === 'KeywordArgs') {
+					for (const pair of arg.children ?? []) {
+						if (isNode(pair)) {
+							collectBoundNames(pair.key, state.locals);
+							walk(state, pair.value, file, baseDir);
+						}
+					}
+				} else {
+					collectBoundNames(arg, state.locals);
+				}
+			}
+			walk(state, node.body, file, baseDir);
+			return;
+		}
+		case 'Import':
+			collectBoundNames(node.target, state.locals);
+			break;
+		case 'FromImport':
+			collectBoundNames(node.names, state.locals);
+			break;
+	}
+
+	if (TEMPLATE_REF_NODES.has(node.typename)) {
+		checkTemplateRef(state, node, file, baseDir);
+		return;
+	}
+	for (const field of node.fields) {
+		walk(state, node[field], file, baseDir);
+	}
+}
+
+function checkAssets(state: LintState, source: string, file: string): void {
+	const assetsRoot = state.options.assetsRoot;
+	if (!assetsRoot) {
+		return;
+	}
+	const resolvedRoot = path.resolve(assetsRoot);
+	for (const match of source.matchAll(ASSET_EXP)) {
+		const assetPath = match[1];
+		const candidate = path.resolve(resolvedRoot, assetPath.replace(/^\/+/, ''));
+		const exists =
+			insideRoot(resolvedRoot, candidate) && fs.existsSync(candidate) && fs.statSync(candidate).isFile();
+		if (!exists) {
+			state.report.missingAssets.push({ file, line: lineAt(source, match.index ?? 0), path: assetPath });
+		}
+	}
+}
+
+function lintSource(state: LintState, source: string, file: string, baseDir: string): void {
+	let ast: LintNode;
+	try {
+		ast = (nunjucks as unknown as NunjucksInternals).parser.parse(source);
+	} catch (err) {
+		state.report.errors.push({ file, message: (err as Error).message.replace(/^\(unknown path\)\s*/, '') });
+		return;
+	}
+	checkAssets(state, source, file);
+	walk(state, ast, file, baseDir);
+}
+
+export function lintTemplate(source: string, options: TemplateLintOptions = {}): TemplateLintReport {
+	const state: LintState = {
+		options,
+		report: { variables: [], missingAssets: [], unresolvedIncludes: [], safe: [], errors: [] },
+		referenced: new Set<string>(),
+		locals: new Set<string>(),
+		visited: new Set<string>()
+	};
+	const baseDir = path.resolve(options.baseDir ?? options.templateRoot ?? '.');
+	lintSource(state, source, options.file ?? '', baseDir);
+	state.report.variables = [...state.referenced].filter((name) => !state.locals.has(name)).sort();
+	return state.report;
+}
+
+/** True when the report has anything worth failing a build over; variables alone are not a problem. */
+export function templateLintFailed(report: TemplateLintReport): boolean {
+	return report.errors.length > 0 || report.missingAssets.length > 0 || report.unresolvedIncludes.length > 0;
+}
@@ -8,8 +8,10 @@ import type { mailApiRequest } from '../types.js';
 
 export async function assert_domain_and_user(apireq: mailApiRequest): Promise<void> {
 	const body = (apireq.req.body ?? {}) as Record<string, unknown>;
-	const domainRaw = getBodyValue(body, 'domain');
-	const locale = getBodyValue(body, 'locale');
+	// GET routes carry the domain/locale selectors in the query string.
+	const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+	const domainRaw = getBodyValue(body, 'domain') || getBodyValue(query, 'domain');
+	const locale = getBodyValue(body, 'locale') || getBodyValue(query, 'locale');
 
 	const rawUid = apireq.getRealUid();
 	const uid = rawUid === null ? null : Number(rawUid);
@@ -0,0 +1,142 @@
+import { ApiError, ApiModule, ApiRoute } from '@technomoron/api-server-base';
+import { Op } from 'sequelize';
+
+import { api_message } from '../models/message.js';
+import { mailApiServer } from '../server.js';
+import { parseDeliveryReport, verpMessageId } from '../util/bounce.js';
+import { upsertSuppression } from '../util/suppression.js';
+import { getBodyValue, normalizeBoolean } from '../util/utils.js';
+import { messageEventData } from '../util/webhooks.js';
+
+import { assert_domain_and_user } from './auth.js';
+import { toMessageSummary } from './messages.js';
+
+import type { mailApiRequest } from '../types.js';
+import type { DeliveryReport } from '../util/bounce.js';
+
+export class BounceAPI extends ApiModule<mailApiServer> {
+	// Match a report to a logged message in the caller's domain: by the VERP envelope sender first
+	// (it survives MTAs that drop the original headers), then by the original Message-ID.
+
+	private async findMessage(domain_id: number, report: DeliveryReport): Promise<api_message | null> {
+		const verpBase = this.server.storage.vars.BOUNCE_VERP_ADDRESS;
+		if (verpBase) {
+			for (const address of report.addresses) {
+				const message_id = verpMessageId(verpBase, address);
+				const record = message_id ? await api_message.findOne({ where: { message_id, domain_id } }) : null;
+				if (record) {
+					return record;
+				}
+			}
+		}
+		if (report.original_message_id) {
+			const id = report.original_message_id;
+			return api_message.findOne({
+				where: { domain_id, smtp_message_id: { [Op.in]: [`<${id}>`, id] } },
+				order: [['log_id', 'DESC']]
+			});
+		}
+		return null;
+	}
+
+	// Ingest a raw DSN or ARF report as piped in by the MTA. A permanent failure marks the message
+	// `bounced` and a complaint marks it `complained`; with `suppress` (the default) the recipients are
+	// also added to the suppression list. Delays are reported but change nothing. Reports that cannot
+	// be matched to a message are accepted without side effects.
+
+	private async postBounce(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const raw = typeof body.message === 'string' ? body.message : '';
+		if (!raw.trim()) {
+			throw new ApiError({ code: 400, message: 'message required' });
+		}
+		const recipient = getBodyValue(body, 'recipient').trim();
+		const suppress = body.suppress === undefined ? true : normalizeBoolean(body.suppress);
+
+		const report = parseDeliveryReport(raw, recipient ? [recipient] : []);
+		if (!report) {
+			throw new ApiError({ code: 422, message: 'Not a delivery status notification or feedback report' });
+		}
+
+		const domain_id = apireq.domain!.domain_id;
+		const record = await this.findMessage(domain_id, report);
+		const failed = report.recipients.filter((rcpt) => rcpt.action === 'failed' || rcpt.action === 'complaint');
+
+		const suppressed: string[] = [];
+		if (record && failed.length) {
+			const complaint = report.kind === 'arf';
+			const detail = failed
+				.map((rcpt) => [rcpt.email, rcpt.status, rcpt.diagnostic].filter(Boolean).join(' '))
+				.join('; ');
+			await record.update({
+				status: complaint ? 'complained' : 'bounced',
+				error: complaint ? `Complaint (${report.feedback_type || 'abuse'}): ${detail}` : `Bounced: ${detail}`
+			});
+			await this.server.storage.emitWebhookEvent(
+				domain_id,
+				complaint ? 'message.complained' : 'message.bounced',
+				{
+					...messageEventData(record),
+					report: report.kind,
+					recipients: failed.map(({ email, action, status, diagnostic }) => ({
+						email,
+						action,
+						status,
+						diagnostic
+					}))
+				}
+			);
+			if (suppress) {
+				for (const rcpt of failed) {
+					const note = complaint
+						? `Feedback report (${report.feedback_type || 'abuse'})`
+						: [rcpt.status, rcpt.diagnostic].filter(Boolean).join(' ') || 'Bounce';
+					await upsertSuppression({
+						domain_id,
+						email: rcpt.email,
+						reason: complaint ? 'complaint' : 'bounce',
+						note: `${note} (message ${record.message_id})`
+					});
+					suppressed.push(rcpt.email);
+				}
+			}
+		}
+
+		return [
+			200,
+			{
+				Status: 'OK',
+				kind: report.kind,
+				matched: Boolean(record),
+				message: record ? toMessageSummary(record) : null,
+				recipients: report.recipients.map((rcpt) => ({ ...rcpt, suppressed: suppressed.includes(rcpt.email) }))
+			}
+		];
+	}
+
+	override defineRoutes(): ApiRoute[] {
+		return [
+			{
+				method: 'post',
+				path: '/v1/bounces',
+				handler: (req) => this.postBounce(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						required: ['message'],
+						properties: {
+							domain: { type: 'string' },
+							message: { type: 'string' },
+							recipient: { type: 'string' },
+							suppress: { type: ['boolean', 'string'] }
+						},
+						additionalProperties: true
+					}
+				}
+			}
+		];
+	}
+}
@@ -0,0 +1,78 @@
+import { ApiError, ApiModule, ApiRoute } from '@technomoron/api-server-base';
+
+import { mailApiServer } from '../server.js';
+import { getBodyValue } from '../util/utils.js';
+
+import { assert_domain_and_user } from './auth.js';
+
+import type { CapturedMail, MailCapture } from '../store/capture.js';
+import type { TemplateCacheStats } from '../store/template-cache.js';
+import type { mailApiRequest } from '../types.js';
+
+const DEFAULT_LIMIT = 50;
+
+export class DebugAPI extends ApiModule<mailApiServer> {
+	private memoryCapture(): MailCapture {
+		const capture = this.server.storage.capture;
+		if (capture?.mode !== 'memory') {
+			throw new ApiError({ code: 404, message: 'The debug outbox requires MAIL_TRANSPORT=memory' });
+		}
+		return capture;
+	}
+
+	// Messages captured by MAIL_TRANSPORT=memory for the caller's domain, newest first.
+
+	private async getOutbox(apireq: mailApiRequest): Promise<[number, { messages: CapturedMail[] }]> {
+		await assert_domain_and_user(apireq);
+		const capture = this.memoryCapture();
+
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const rcpt = getBodyValue(query, 'rcpt');
+		const limitRaw = getBodyValue(query, 'limit');
+		const limit = limitRaw ? Number(limitRaw) : DEFAULT_LIMIT;
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new ApiError({ code: 400, message: 'limit must be a positive integer' });
+		}
+		const messages = capture.list({ domain_id: apireq.domain!.domain_id, rcpt: rcpt || undefined });
+		return [200, { messages: messages.slice(0, limit) }];
+	}
+
+	private async deleteOutbox(apireq: mailApiRequest): Promise<[number, { Status: string; removed: number }]> {
+		await assert_domain_and_user(apireq);
+		const removed = this.memoryCapture().clear(apireq.domain!.domain_id);
+		return [200, { Status: 'OK', removed }];
+	}
+
+	// Hit/miss counters of the compiled-template cache. The cache is shared by all domains, so these
+	// are process-wide numbers.
+
+	private async getTemplateCache(
+		apireq: mailApiRequest
+	): Promise<[number, { Status: string; cache: TemplateCacheStats }]> {
+		await assert_domain_and_user(apireq);
+		return [200, { Status: 'OK', cache: this.server.storage.templateCache.stats() }];
+	}
+
+	override defineRoutes(): ApiRoute[] {
+		return [
+			{
+				method: 'get',
+				path: '/v1/debug/outbox',
+				handler: (req) => this.getOutbox(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'delete',
+				path: '/v1/debug/outbox',
+				handler: (req) => this.deleteOutbox(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'get',
+				path: '/v1/debug/template-cache',
+				handler: (req) => this.getTemplateCache(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			}
+		];
+	}
+}
@@ -1,13 +1,13 @@
 import { ApiRoute, ApiRequest, ApiModule, ApiError } from '@technomoron/api-server-base';
 import { convert } from 'html-to-text';
 import { nanoid } from 'nanoid';
-import nunjucks from 'nunjucks';
 import { UniqueConstraintError } from 'sequelize';
 
 import { api_domain } from '../models/domain.js';
 import { api_form } from '../models/form.js';
 import { api_recipient } from '../models/recipient.js';
 import { mailApiServer } from '../server.js';
+import { validateEmail } from '../util/email.js';
 import {
 	buildFormTemplateRecord,
 	buildFormTemplatePaths,
@@ -17,6 +17,7 @@ import {
 	enforceAttachmentPolicy,
 	enforceCaptchaPolicy,
 	filterSubmissionFields,
+	findFormTemplate,
 	getPrimaryRecipientInfo,
 	normalizeRecipientEmail,
 	normalizeRecipientIdname,
@@ -29,14 +30,18 @@ import {
 	resolveRecipients,
 	validateFormTemplatePayload
 } from '../util/forms.js';
+import { renderHeaderText, renderSender } from '../util/header-template.js';
+import { buildMailPreview } from '../util/preview.js';
 import { FixedWindowRateLimiter, enforceFormRateLimit } from '../util/ratelimit.js';
-import { buildAttachments, cleanupUploadedFiles } from '../util/uploads.js';
-import { getBodyValue } from '../util/utils.js';
+import { applyTemplateDraft, buildTemplateDraft } from '../util/template-drafts.js';
+import { recordTemplateVersion } from '../util/template-versions.js';
+import { buildAttachments, cleanupUploadedFiles, serializeAttachments } from '../util/uploads.js';
+import { getBodyValue, normalizeBoolean } from '../util/utils.js';
 import { buildRequestMeta } from '../util.js';
 
 import { assert_domain_and_user } from './auth.js';
 
-import type { mailApiRequest, UploadedFile } from '../types.js';
+import type { MailPreview, mailApiRequest, QueuedMail, RequestMeta, UploadedFile } from '../types.js';
 
 export class FormAPI extends ApiModule<mailApiServer> {
 	private readonly rateLimiter = new FixedWindowRateLimiter();
@@ -100,7 +105,8 @@ export class FormAPI extends ApiModule<mailApiServer> {
 	): Promise<[number, { Status: string; created: boolean; form_key: string }]> {
 		await assert_domain_and_user(apireq);
 
-		const payload = parseFormTemplatePayload((apireq.req.body ?? {}) as Record<string, unknown>);
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const payload = parseFormTemplatePayload(body);
 		validateFormTemplatePayload(payload);
 
 		const user = apireq.user!;
@@ -112,6 +118,38 @@ export class FormAPI extends ApiModule<mailApiServer> {
 			idname: payload.idname,
 			locale: resolvedLocale
 		});
+
+		// A draft upload only stores the content in the form's draft slot; recipients and the other
+		// settings in the payload are ignored until a regular upload.
+		if (normalizeBoolean(body.draft)) {
+			const existing = await api_form.findOne({
+				where: {
+					user_id: user.user_id,
+					domain_id: domain.domain_id,
+					locale: localeSlug,
+					idname: payload.idname
+				}
+			});
+			if (!existing) {
+				throw new ApiError({
+					code: 404,
+					message: `Form "${payload.idname}" does not exist yet; upload it without draft first`
+				});
+			}
+			await existing.update({
+				draft: buildTemplateDraft({
+					template: payload.template,
+					text_template: payload.text_template,
+					subject: payload.subject,
+					sender: payload.sender,
+					user_id: user.user_id,
+					files: existing.files
+				})
+			});
+			this.server.storage.print_debug(`Form template draft stored: ${payload.idname}`);
+			return [200, { Status: 'OK', created: false, form_key: existing.form_key }];
+		}
+
 		let form_key =
 			(await resolveFormKeyForTemplate({
 				user_id: user.user_id,
@@ -141,6 +179,18 @@ export class FormAPI extends ApiModule<mailApiServer> {
 				created = wasCreated ?? false;
 				upserted = true;
 				form_key = form.form_key || form_key;
+				const stored = await api_form.findOne({
+					where: {
+						user_id: user.user_id,
+						domain_id: domain.domain_id,
+						locale: localeSlug,
+						idname: payload.idname
+					}
+				});
+				if (stored) {
+					this.server.storage.templateCache.invalidate('form', stored.form_id);
+					await recordTemplateVersion('form', stored, { user_id: user.user_id, source: 'api' });
+				}
 				this.server.storage.print_debug(`Form template upserted: ${form.idname} (created=${wasCreated})`);
 				break;
 			} catch (error: unknown) {
@@ -166,6 +216,61 @@ export class FormAPI extends ApiModule<mailApiServer> {
 		return [200, { Status: 'OK', created, form_key }];
 	}
 
+	// Render a form template for a submission. Shared by the public send
+	// route and the authenticated preview route so both produce the same message.
+
+	private renderFormMail(params: {
+		form: api_form;
+		fields: Record<string, unknown>;
+		resolvedRecipients: api_recipient[];
+		localeRaw: string;
+		files: UploadedFile[];
+		attachmentMap: Record<string, string>;
+		meta: RequestMeta;
+		draft?: boolean;
+	}) {
+		const { form, fields, resolvedRecipients } = params;
+		const recipients = resolvedRecipients.map((r) => r.idname ?? '').filter(Boolean);
+		const { rcptEmail, rcptName, rcptIdname, rcptIdnames } = getPrimaryRecipientInfo(form, resolvedRecipients);
+
+		// Attach inline template assets (cid:...) so clients can render embedded images reliably.
+		// Linked assets (asset('...') without inline flag) are kept as URLs and are not attached here.
+		const templateFiles = Array.isArray(form.files) ? form.files : [];
+		const inlineTemplateAttachments = templateFiles
+			.filter((file) => Boolean(file && file.cid))
+			.map((file) => ({
+				filename: file.filename,
+				path: file.path,
+				cid: file.cid
+			}));
+		const to = buildRecipientTo(form, resolvedRecipients);
+		const replyToValue = buildReplyToValue(form, fields);
+		const context = buildSubmissionContext({
+			form_key: form.form_key,
+			localeRaw: params.localeRaw,
+			recipients,
+			rcptEmail,
+			rcptName,
+			rcptIdname,
+			rcptIdnames,
+			attachmentMap: params.attachmentMap,
+			fields,
+			files: params.files,
+			meta: params.meta
+		});
+
+		const compiled = this.server.storage.templateCache.form(
+			form,
+			this.server.storage.vars.AUTOESCAPE_HTML,
+			params.draft
+		);
+		const html = compiled.html.render(context);
+		const text = compiled.text ? compiled.text.render(context) : convert(html);
+		const subject = renderHeaderText(form.subject, context);
+		const from = renderSender(form.sender, context);
+		return { from, to, subject, replyToValue, html, text, inlineTemplateAttachments };
+	}
+
 	private async postSendForm(apireq: ApiRequest): Promise<[number, Record<string, unknown>]> {
 		const env = this.server.storage.vars;
 		const rawFiles = Array.isArray(apireq.req.files) ? (apireq.req.files as unknown as UploadedFile[]) : [];
@@ -194,67 +299,65 @@ export class FormAPI extends ApiModule<mailApiServer> {
 			const clientIp = apireq.getClientIp() ?? '';
 			await enforceCaptchaPolicy({ vars: env, form, captchaToken, clientIp });
 			const resolvedRecipients = await resolveRecipients(form, recipientsRaw);
-			const recipients = resolvedRecipients.map((r) => r.idname ?? '').filter(Boolean);
-			const { rcptEmail, rcptName, rcptIdname, rcptIdnames } = getPrimaryRecipientInfo(form, resolvedRecipients);
 			const domainRecord = await api_domain.findOne({ where: { domain_id: form.domain_id } });
 			await this.server.storage.relocateUploads(domainRecord?.name ?? null, rawFiles);
 			const { attachments, attachmentMap } = buildAttachments(rawFiles);
-
-			// Attach inline template assets (cid:...) so clients can render embedded images reliably.
-			// Linked assets (asset('...') without inline flag) are kept as URLs and are not attached here.
-			const templateFiles = Array.isArray(form.files) ? form.files : [];
-			const inlineTemplateAttachments = templateFiles
-				.filter((file) => Boolean(file && file.cid))
-				.map((file) => ({
-					filename: file.filename,
-					path: file.path,
-					cid: file.cid
-				}));
-			const allAttachments = [...inlineTemplateAttachments, ...attachments];
-			const meta = buildRequestMeta(apireq.req);
-			const to = buildRecipientTo(form, resolvedRecipients);
-			const replyToValue = buildReplyToValue(form, fields);
-			const context = buildSubmissionContext({
-				form_key,
-				localeRaw,
-				recipients,
-				rcptEmail,
-				rcptName,
-				rcptIdname,
-				rcptIdnames,
-				attachmentMap,
+			const { from, to, subject, replyToValue, html, text, inlineTemplateAttachments } = this.renderFormMail({
+				form,
 				fields,
+				resolvedRecipients,
+				localeRaw,
 				files: rawFiles,
-				meta
+				attachmentMap,
+				meta: buildRequestMeta(apireq.req)
 			});
 
-			const njkEnv = new nunjucks.Environment(null, { autoescape: this.server.storage.vars.AUTOESCAPE_HTML });
-			const html = njkEnv.renderString(form.template, context);
-			const text = convert(html);
-
-			const mailOptions = {
-				from: form.sender,
+			// Uploaded files are inlined into the queued message when they are removed after the request.
+			const queuedAttachments = [
+				...(await serializeAttachments(inlineTemplateAttachments)),
+				...(await serializeAttachments(attachments, !keepUploads))
+			];
+			const mailOptions: QueuedMail = {
+				from,
 				to,
-				subject: form.subject,
+				subject,
 				html,
 				text,
-				attachments: allAttachments,
+				attachments: queuedAttachments,
 				...(replyToValue ? { replyTo: replyToValue } : {})
 			};
 
+			let message_id: string;
 			try {
-				if (!this.server.storage.transport) {
-					throw new ApiError({ code: 503, message: 'Mail transport is not available' });
-				}
-				const info = await this.server.storage.transport.sendMail(mailOptions);
-				this.server.storage.print_debug('Email sent: ' + info.response);
+				const record = await this.server.storage.enqueueMail({
+					user_id: form.user_id,
+					domain_id: form.domain_id,
+					kind: 'form',
+					name: form.idname,
+					rcpt:
+						typeof to === 'string'
+							? to
+							: to.map((entry) => (typeof entry === 'string' ? entry : entry.address)).join(', '),
+					mail: mailOptions
+				});
+				message_id = record.message_id;
+				this.server.storage.print_debug(`Form email queued: ${message_id}`);
+				await this.server.storage.emitWebhookEvent(form.domain_id, 'form.submitted', {
+					message_id,
+					form_key: form.form_key,
+					idname: form.idname,
+					fields
+				});
 			} catch (error: unknown) {
+				if (error instanceof ApiError) {
+					throw error;
+				}
 				const errorMessage = error instanceof Error ? error.message : String(error);
-				this.server.storage.print_debug('Error sending email: ' + errorMessage);
-				throw new ApiError({ code: 500, message: `Error sending email: ${errorMessage}` });
+				this.server.storage.print_debug('Error queueing email: ' + errorMessage);
+				throw new ApiError({ code: 500, message: `Error queueing email: ${errorMessage}` });
 			}
 
-			return [200, {}];
+			return [200, { message_id }];
 		} finally {
 			if (!keepUploads) {
 				await cleanupUploadedFiles(rawFiles);
@@ -262,6 +365,113 @@ export class FormAPI extends ApiModule<mailApiServer> {
 		}
 	}
 
+	// Render a form template with sample fields as a submission would. Captcha, rate limits and
+	// uploads are skipped. With `draft` set the form's draft is rendered instead of the published
+	// version. Shared by the preview and test-send routes.
+
+	private async renderSample(apireq: mailApiRequest): Promise<{ form: api_form; mail: QueuedMail }> {
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const domain = apireq.domain!;
+		const form_key = getBodyValue(body, 'form_key');
+		const idname = getBodyValue(body, 'idname');
+		const locale = getBodyValue(body, 'locale');
+		if (!form_key && !idname) {
+			throw new ApiError({ code: 400, message: 'form_key or idname required' });
+		}
+
+		let fieldsRaw: unknown = body.fields ?? {};
+		if (typeof fieldsRaw === 'string') {
+			try {
+				fieldsRaw = JSON.parse(fieldsRaw);
+			} catch {
+				throw new ApiError({ code: 400, message: 'Invalid JSON provided in "fields"' });
+			}
+		}
+		if (!fieldsRaw || typeof fieldsRaw !== 'object' || Array.isArray(fieldsRaw)) {
+			throw new ApiError({ code: 400, message: '"fields" must be a JSON object' });
+		}
+
+		const form = form_key
+			? await api_form.findOne({ where: { form_key, domain_id: domain.domain_id } })
+			: await findFormTemplate(domain, idname, locale);
+		if (!form) {
+			throw new ApiError({
+				code: 404,
+				message: `Form "${form_key || idname}" not found in domain "${domain.name}"`
+			});
+		}
+
+		const draft = normalizeBoolean(body.draft);
+		if (draft) {
+			applyTemplateDraft(form, `Form "${form.idname}"`);
+		}
+
+		const fields = filterSubmissionFields(fieldsRaw as Record<string, unknown>, form.allowed_fields);
+		const resolvedRecipients = await resolveRecipients(form, body.recipients);
+		let rendered: ReturnType<FormAPI['renderFormMail']>;
+		try {
+			rendered = this.renderFormMail({
+				form,
+				fields,
+				resolvedRecipients,
+				localeRaw: locale,
+				files: [],
+				attachmentMap: {},
+				meta: buildRequestMeta(apireq.req),
+				draft
+			});
+		} catch (error: unknown) {
+			throw new ApiError({
+				code: 500,
+				message: `Failed to render email: ${error instanceof Error ? error.message : String(error)}`
+			});
+		}
+		return {
+			form,
+			mail: {
+				from: rendered.from,
+				to: rendered.to,
+				subject: rendered.subject,
+				html: rendered.html,
+				text: rendered.text,
+				attachments: await serializeAttachments(rendered.inlineTemplateAttachments),
+				...(rendered.replyToValue ? { replyTo: rendered.replyToValue } : {})
+			}
+		};
+	}
+
+	// Return the message that a submission would produce; nothing is queued.
+
+	private async postPreviewForm(apireq: mailApiRequest): Promise<[number, MailPreview]> {
+		await assert_domain_and_user(apireq);
+		const { mail } = await this.renderSample(apireq);
+		return [200, buildMailPreview(mail)];
+	}
+
+	// Send one rendered copy to the caller's own address (or `rcpt`) instead of the form recipients,
+	// so a form (or its draft) can be checked in a real mail client.
+
+	private async postTestForm(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const rcptRaw = getBodyValue(body, 'rcpt').trim() || apireq.user!.email;
+		const rcpt = validateEmail(rcptRaw);
+		if (!rcpt) {
+			throw new ApiError({ code: 400, message: `Invalid email address: ${rcptRaw}` });
+		}
+		const { form, mail } = await this.renderSample(apireq);
+		const record = await this.server.storage.enqueueMail({
+			user_id: apireq.user!.user_id,
+			domain_id: form.domain_id,
+			kind: 'form',
+			name: form.idname,
+			rcpt,
+			mail: { ...mail, to: rcpt }
+		});
+		return [200, { Status: 'OK', rcpt, message_id: record.message_id, draft: normalizeBoolean(body.draft) }];
+	}
+
 	override defineRoutes(): ApiRoute[] {
 		return [
 			{
@@ -298,11 +508,52 @@ export class FormAPI extends ApiModule<mailApiServer> {
 						properties: {
 							idname: { type: 'string' },
 							template: { type: 'string' },
+							text_template: { type: 'string' },
 							sender: { type: 'string' },
 							recipient: { type: 'string' },
 							subject: { type: 'string' },
 							locale: { type: 'string' },
-							domain: { type: 'string' }
+							domain: { type: 'string' },
+							draft: { type: ['boolean', 'string'] }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'post',
+				path: '/v1/form/preview',
+				handler: (req) => this.postPreviewForm(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						properties: {
+							form_key: { type: 'string' },
+							idname: { type: 'string' },
+							locale: { type: 'string' },
+							domain: { type: 'string' },
+							draft: { type: ['boolean', 'string'] }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'post',
+				path: '/v1/form/template/test',
+				handler: (req) => this.postTestForm(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						properties: {
+							form_key: { type: 'string' },
+							idname: { type: 'string' },
+							locale: { type: 'string' },
+							domain: { type: 'string' },
+							rcpt: { type: 'string' },
+							draft: { type: ['boolean', 'string'] }
 						},
 						additionalProperties: true
 					}
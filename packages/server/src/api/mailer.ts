@@ -1,15 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+
 import { ApiModule, ApiRoute, ApiError } from '@technomoron/api-server-base';
-import { convert } from 'html-to-text';
-import nunjucks from 'nunjucks';
+import { nanoid } from 'nanoid';
 
 import { api_txmail } from '../models/txmail.js';
 import { mailApiServer } from '../server.js';
 import { validateEmail } from '../util/email.js';
-import { buildRequestMeta } from '../util.js';
+import {
+	claimIdempotencyKey,
+	completeIdempotencyKey,
+	getIdempotencyKey,
+	idempotencyRequestHash,
+	releaseIdempotencyKey
+} from '../util/idempotency.js';
+import { buildMailPreview } from '../util/preview.js';
+import { lintTemplate, templateLintFailed } from '../util/shared-template-lint.js';
+import { findSuppressions, suppressionFor } from '../util/suppression.js';
+import { applyTemplateDraft, buildTemplateDraft } from '../util/template-drafts.js';
+import { recordTemplateVersion } from '../util/template-versions.js';
+import { addTracking, isTrackingEnabled } from '../util/tracking.js';
+import {
+	findTxTemplate,
+	normalizeCustomHeaders,
+	parseReplyToTemplate,
+	parseTemplateVars,
+	renderTxBody,
+	renderTxHeaders,
+	resolveTxSender
+} from '../util/txmail.js';
+import { buildUnsubscribe, mergeHeaders } from '../util/unsubscribe.js';
+import { serializeAttachments } from '../util/uploads.js';
+import { assertTemplateVars } from '../util/vars-schema.js';
+import { buildRequestMeta, normalizeBoolean, normalizeSlug } from '../util.js';
 
 import { assert_domain_and_user } from './auth.js';
+import { parseTimestamp } from './messages.js';
+
+import type { api_domain } from '../models/domain.js';
+import type { api_outbox } from '../models/outbox.js';
+import type { MailPreview, mailApiRequest, QueuedAttachment, QueuedMail, UploadedFile } from '../types.js';
+import type { CompiledTemplate } from '../util/txmail.js';
+import type { VarsValidator } from '../util/vars-schema.js';
+
+export type TxBatchResult = {
+	index: number;
+	rcpt: string;
+	/** skipped: the address is on the domain's suppression list. */
+	status: 'queued' | 'failed' | 'skipped';
+	message_id?: string;
+	error?: string;
+};
+
+export type TxRecipientResult = {
+	rcpt: string;
+	/**
+	 * sent: accepted by the SMTP server; queued: scheduled, or the first attempt failed transiently
+	 * and will be retried; failed: rejected permanently; skipped: invalid, duplicate or suppressed
+	 * address.
+	 */
+	status: 'sent' | 'queued' | 'failed' | 'skipped';
+	message_id?: string;
+	smtp_response?: string;
+	/** Transport that accepted the message (sent only). */
+	transport?: string;
+	error?: string;
+};
 
-import type { mailApiRequest, UploadedFile } from '../types.js';
+// 200 when every recipient was accepted, otherwise 207 (Multi-Status) so callers look at the
+// per-recipient results: PARTIAL if some were accepted, FAILED if none were.
+function outcomeStatus(accepted: number, total: number): [number, string] {
+	if (accepted === total) {
+		return [200, 'OK'];
+	}
+	return [207, accepted > 0 ? 'PARTIAL' : 'FAILED'];
+}
+
+function txSendResponse(results: TxRecipientResult[], send_at: Date | null): [number, Record<string, unknown>] {
+	const accepted = results.filter((result) => result.status === 'sent' || result.status === 'queued');
+	const [code, Status] = outcomeStatus(accepted.length, results.length);
+	let Message = `${accepted.length} of ${results.length} emails accepted`;
+	if (code === 200) {
+		if (send_at) {
+			Message = 'Emails scheduled for delivery';
+		} else if (accepted.every((result) => result.status === 'sent')) {
+			Message = 'Emails sent successfully';
+		} else {
+			Message = 'Emails queued for delivery';
+		}
+	}
+	return [
+		code,
+		{
+			Status,
+			Message,
+			sent: results.filter((result) => result.status === 'sent').length,
+			queued: results.filter((result) => result.status === 'queued').length,
+			failed: results.filter((result) => result.status === 'failed').length,
+			skipped: results.filter((result) => result.status === 'skipped').length,
+			results,
+			...(send_at ? { send_at: send_at.toISOString() } : {})
+		}
+	];
+}
 
 export class MailerAPI extends ApiModule<mailApiServer> {
 	//
@@ -36,6 +129,50 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 		return { valid, invalid };
 	}
 
+	// Parse a cc/bcc field (comma-separated string or array). Every address must be valid; repeats
+	// are dropped.
+
+	private parseCopyList(value: unknown, field: 'cc' | 'bcc'): string[] {
+		if (value === undefined || value === null) {
+			return [];
+		}
+		const { valid, invalid } = this.validateEmails(Array.isArray(value) ? value.join(',') : String(value));
+		if (invalid.length > 0) {
+			throw new ApiError({ code: 400, message: `Invalid ${field} email address(es): ${invalid.join(',')}` });
+		}
+		return [...new Set(valid)];
+	}
+
+	// Request bcc plus the template's default bcc.
+
+	private resolveBcc(template: api_txmail, requested: string[]): string[] {
+		return [...new Set([...requested, ...this.validateEmails(template.bcc ?? '').valid])];
+	}
+
+	// Per-recipient unsubscribe link and List-Unsubscribe headers, for templates with a category.
+
+	private unsubscribeFor(template: api_txmail, rcpt: string): ReturnType<typeof buildUnsubscribe> | null {
+		if (!template.category) {
+			return null;
+		}
+		return buildUnsubscribe(this.server.storage.vars, {
+			domain_id: template.domain_id,
+			email: rcpt,
+			category: template.category
+		});
+	}
+
+	// With open/click tracking on, the message id is chosen before queueing so the rewritten links and
+	// the pixel can carry it.
+
+	private trackHtml(template: api_txmail, domain: api_domain, html: string): { html: string; message_id?: string } {
+		if (!isTrackingEnabled(template, domain)) {
+			return { html };
+		}
+		const message_id = nanoid();
+		return { html: addTracking(this.server.storage.vars, html, message_id), message_id };
+	}
+
 	// Store a template in the database
 
 	private async post_template(apireq: mailApiRequest): Promise<[number, { Status: string }]> {
@@ -43,10 +180,16 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 
 		const body = apireq.req.body as Record<string, unknown>;
 		const template = String(body.template ?? '');
+		const text_template = String(body.text_template ?? '');
 		const sender = String(body.sender ?? '');
 		const name = String(body.name ?? '');
 		const subject = String(body.subject ?? '');
 		const locale = String(body.locale ?? '');
+		const bcc = this.parseCopyList(body.bcc, 'bcc').join(', ');
+		const category = normalizeSlug(String(body.category ?? ''));
+		// Unset (null) follows the domain's tracking setting.
+		const track =
+			body.track === undefined || body.track === null || body.track === '' ? null : normalizeBoolean(body.track);
 
 		if (!template) {
 			throw new ApiError({ code: 400, message: 'Missing template data' });
@@ -55,6 +198,32 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 			throw new ApiError({ code: 400, message: 'Missing template name' });
 		}
 
+		// A draft upload leaves the published template, and so every send, untouched until it is
+		// published through /v1/tx/template/publish.
+		if (normalizeBoolean(body.draft)) {
+			const existing = await api_txmail.findOne({
+				where: { user_id: apireq.user!.user_id, domain_id: apireq.domain!.domain_id, locale, name }
+			});
+			if (!existing) {
+				throw new ApiError({
+					code: 404,
+					message: `Template "${name}" does not exist yet; upload it without draft first`
+				});
+			}
+			await existing.update({
+				draft: buildTemplateDraft({
+					template,
+					text_template,
+					subject,
+					sender,
+					user_id: apireq.user!.user_id,
+					files: existing.files
+				})
+			});
+			this.server.storage.print_debug(`Template draft stored: ${name}`);
+			return [200, { Status: 'OK' }];
+		}
+
 		const data = {
 			user_id: apireq.user!.user_id,
 			domain_id: apireq.domain!.domain_id,
@@ -63,14 +232,26 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 			locale,
 			sender,
 			template,
+			text_template,
+			bcc,
+			category,
+			track,
 			files: []
 		};
 
 		try {
-			const [templateRecord, created] = await api_txmail.upsert(data, {
+			const [, created] = await api_txmail.upsert(data, {
 				returning: true
 			});
-			this.server.storage.print_debug(`Template upserted: ${templateRecord.name} (created=${created})`);
+			// sqlite reports no id for the update path of an upsert; look the row up by its unique key.
+			const templateRecord = await api_txmail.findOne({
+				where: { user_id: data.user_id, domain_id: data.domain_id, locale, name }
+			});
+			if (templateRecord) {
+				this.server.storage.templateCache.invalidate('tx', templateRecord.template_id);
+				await recordTemplateVersion('tx', templateRecord, { user_id: data.user_id, source: 'api' });
+			}
+			this.server.storage.print_debug(`Template upserted: ${name} (created=${created})`);
 		} catch (error: unknown) {
 			throw new ApiError({
 				code: 500,
@@ -80,56 +261,49 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 		return [200, { Status: 'OK' }];
 	}
 
-	// Send a template using posted arguments.
-
-	private async post_send(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
-		const body = apireq.req.body as Record<string, unknown>;
-		const name = String(body.name ?? '');
-		const rcpt = String(body.rcpt ?? '');
-		const locale = String(body.locale ?? '');
-		const vars = body.vars ?? {};
-		const replyTo = body.replyTo as string | undefined;
-		const reply_to = body.reply_to as string | undefined;
-		const headers = body.headers;
-
-		await assert_domain_and_user(apireq);
+	// Run a send handler under the request's Idempotency-Key, if any. A repeat of a completed request
+	// inside IDEMPOTENCY_WINDOW_SEC returns the stored response instead of sending again; the key is
+	// bound to `route` and the request body, so reusing it for anything else is a 422.
 
-		if (!name || !rcpt) {
-			throw new ApiError({ code: 400, message: 'name/rcpt required' });
+	private async withIdempotency(
+		apireq: mailApiRequest,
+		route: string,
+		handler: () => Promise<[number, Record<string, unknown>]>
+	): Promise<[number, Record<string, unknown>]> {
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const key = getIdempotencyKey((apireq.req.headers ?? {}) as Record<string, unknown>, body);
+		const windowSec = this.server.storage.vars.IDEMPOTENCY_WINDOW_SEC;
+		if (!key || windowSec <= 0) {
+			return handler();
 		}
 
-		let parsedVars: unknown = vars ?? {};
-		if (typeof vars === 'string') {
-			try {
-				parsedVars = JSON.parse(vars);
-			} catch {
-				throw new ApiError({ code: 400, message: 'Invalid JSON provided in "vars"' });
-			}
-		}
-		if (!parsedVars || typeof parsedVars !== 'object' || Array.isArray(parsedVars)) {
-			throw new ApiError({ code: 400, message: '"vars" must be a JSON object' });
+		const files = Array.isArray(apireq.req.files) ? (apireq.req.files as unknown as UploadedFile[]) : [];
+		const claim = await claimIdempotencyKey({
+			user_id: apireq.user!.user_id,
+			domain_id: apireq.domain!.domain_id,
+			key,
+			route,
+			request_hash: idempotencyRequestHash(body, files),
+			windowSec
+		});
+		if (claim.replay) {
+			this.server.storage.print_debug(`Replaying response for Idempotency-Key ${key}`);
+			return claim.replay;
 		}
-		const thevars = parsedVars as Record<string, unknown>;
-
-		const { valid, invalid } = this.validateEmails(rcpt);
-		if (invalid.length > 0) {
-			throw new ApiError({ code: 400, message: 'Invalid email address(es): ' + invalid.join(',') });
+		try {
+			const result = await handler();
+			await completeIdempotencyKey(claim.record, result);
+			return result;
+		} catch (error: unknown) {
+			await releaseIdempotencyKey(claim.record);
+			throw error;
 		}
-		let template: api_txmail | null = null;
-		const domain_id = apireq.domain!.domain_id;
-		const deflocale = apireq.domain!.locale || '';
+	}
 
+	private async lookupTemplate(apireq: mailApiRequest, name: string, locale: string): Promise<api_txmail> {
+		let template: api_txmail | null;
 		try {
-			// 1. Exact locale match
-			template = await api_txmail.findOne({ where: { name, domain_id, locale } });
-			// 2. Domain/user default locale (if different from request locale)
-			if (!template && deflocale && deflocale !== locale) {
-				template = await api_txmail.findOne({ where: { name, domain_id, locale: deflocale } });
-			}
-			// 3. Empty-locale fallback (if not already tried above)
-			if (!template && locale !== '') {
-				template = await api_txmail.findOne({ where: { name, domain_id, locale: '' } });
-			}
+			template = await findTxTemplate(apireq.domain!, name, locale);
 		} catch (error: unknown) {
 			throw new ApiError({
 				code: 500,
@@ -142,10 +316,77 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 				message: `Template "${name}" not found for any locale in domain "${apireq.domain!.name}"`
 			});
 		}
+		return template;
+	}
+
+	// Send a template using posted arguments.
+
+	private async post_send(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+		return this.withIdempotency(apireq, '/v1/tx/message', () => this.send_tx(apireq));
+	}
+
+	private async send_tx(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		const body = apireq.req.body as Record<string, unknown>;
+		const name = String(body.name ?? '');
+		const rcpt = String(body.rcpt ?? '');
+		const locale = String(body.locale ?? '');
+
+		if (!name || !rcpt) {
+			throw new ApiError({ code: 400, message: 'name/rcpt required' });
+		}
+		// A send_at in the past is delivered right away.
+		const send_at = parseTimestamp(String(body.send_at ?? '').trim(), 'send_at');
+		const thevars = parseTemplateVars(body.vars);
+
+		// Invalid and repeated addresses are reported as skipped; the rest of the list is still sent.
+		// Results keep the order of the rcpt list.
+		const results: TxRecipientResult[] = [];
+		let valid: Array<{ slot: number; rcpt: string }> = [];
+		const emails = rcpt
+			.split(',')
+			.map((email) => email.trim())
+			.filter((email) => email !== '');
+		for (const email of emails) {
+			const addr = validateEmail(email);
+			if (!addr) {
+				results.push({ rcpt: email, status: 'skipped', error: 'Invalid email address' });
+			} else if (valid.some((entry) => entry.rcpt === addr)) {
+				results.push({ rcpt: addr, status: 'skipped', error: 'Duplicate recipient' });
+			} else {
+				valid.push({ slot: results.length, rcpt: addr });
+				results.push({ rcpt: addr, status: 'queued' });
+			}
+		}
+		if (valid.length === 0) {
+			const invalid = results.filter((result) => result.error === 'Invalid email address');
+			throw new ApiError({
+				code: 400,
+				message: 'Invalid email address(es): ' + invalid.map((result) => result.rcpt).join(',')
+			});
+		}
+		const domain_id = apireq.domain!.domain_id;
+		const template = await this.lookupTemplate(apireq, name, locale);
+		assertTemplateVars(this.server.storage.templateCache.varsValidator(template), thevars, template.name);
+		const sender = resolveTxSender(template, apireq.domain!, apireq.user!);
 
-		const sender = template.sender || apireq.domain!.sender || apireq.user!.email;
-		if (!sender) {
-			throw new ApiError({ code: 500, message: `Unable to locate sender for ${template.name}` });
+		// Suppressed addresses are reported as skipped too; a send where every recipient is suppressed
+		// still returns the per-recipient results rather than an error.
+		const suppressed = await findSuppressions(
+			domain_id,
+			valid.map((entry) => entry.rcpt)
+		);
+		if (suppressed.size) {
+			valid = valid.filter(({ slot, rcpt: recipient }) => {
+				const entry = suppressionFor(suppressed, recipient, template.category);
+				if (entry) {
+					results[slot] = { rcpt: recipient, status: 'skipped', error: `Suppressed (${entry.reason})` };
+				}
+				return !entry;
+			});
+			if (valid.length === 0) {
+				return txSendResponse(results, send_at);
+			}
 		}
 
 		const rawFiles = Array.isArray(apireq.req.files) ? (apireq.req.files as unknown as UploadedFile[]) : [];
@@ -170,86 +411,473 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 		this.server.storage.print_debug(`Template vars keys: ${Object.keys(thevars).join(', ')}`);
 
 		const meta = buildRequestMeta(apireq.req);
-		const replyToValue = (replyTo || reply_to) as string | undefined;
-		let normalizedReplyTo: string | undefined;
-		if (replyToValue) {
-			normalizedReplyTo = validateEmail(replyToValue);
-			if (!normalizedReplyTo) {
-				throw new ApiError({ code: 400, message: 'Invalid reply-to email address' });
+		const replyToSource = parseReplyToTemplate(body.replyTo || body.reply_to);
+		const normalizedHeaders = normalizeCustomHeaders(body.headers);
+		const cc = this.parseCopyList(body.cc, 'cc');
+		const bcc = this.resolveBcc(template, this.parseCopyList(body.bcc, 'bcc'));
+
+		let queuedAttachments: QueuedMail['attachments'];
+		const rendered: Array<{ slot: number; rcpt: string; mail: QueuedMail; message_id?: string }> = [];
+		try {
+			queuedAttachments = await serializeAttachments(attachments);
+			const compiled = this.server.storage.templateCache.tx(template, this.server.storage.vars.AUTOESCAPE_HTML);
+
+			for (const { slot, rcpt: recipient } of valid) {
+				const unsubscribe = this.unsubscribeFor(template, recipient);
+				const headers = mergeHeaders(unsubscribe?.headers ?? {}, normalizedHeaders);
+				const renderParams = {
+					vars: thevars,
+					rcpt: recipient,
+					attachmentMap,
+					meta,
+					unsubscribeUrl: unsubscribe?.url
+				};
+				const { html: renderedHtml, text } = await renderTxBody(compiled, renderParams);
+				const {
+					subject,
+					sender: from,
+					replyTo
+				} = renderTxHeaders(
+					{
+						subject: template.subject || (body.subject as string | undefined) || '',
+						sender,
+						replyTo: replyToSource
+					},
+					renderParams
+				);
+				const { html, message_id } = this.trackHtml(template, apireq.domain!, renderedHtml);
+				rendered.push({
+					slot,
+					rcpt: recipient,
+					message_id,
+					mail: {
+						from,
+						to: recipient,
+						subject,
+						html,
+						text,
+						attachments: queuedAttachments,
+						...(cc.length ? { cc } : {}),
+						...(bcc.length ? { bcc } : {}),
+						...(replyTo ? { replyTo } : {}),
+						...(headers ? { headers } : {})
+					}
+				});
+			}
+		} catch (error: unknown) {
+			if (error instanceof ApiError) {
+				throw error;
 			}
+			throw new ApiError({
+				code: 500,
+				message: 'Failed to render email'
+			});
 		}
 
-		const ALLOWED_CUSTOM_HEADERS = new Set([
-			'x-mailer',
-			'x-priority',
-			'x-entity-ref-id',
-			'list-unsubscribe',
-			'list-unsubscribe-post',
-			'list-id',
-			'precedence',
-			'references',
-			'in-reply-to',
-			'message-id',
-			'importance'
-		]);
-
-		let normalizedHeaders: Record<string, string> | undefined;
-		if (headers !== undefined) {
-			if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
-				throw new ApiError({ code: 400, message: 'headers must be a key/value object' });
+		// Every recipient is rendered before anything is queued, so a template error never leaves a
+		// partially queued send behind. Immediate sends then get their first delivery attempt inline
+		// so the response can report what the SMTP server said; failures that may recover stay queued
+		// for the worker to retry.
+		for (const entry of rendered) {
+			let record: api_outbox;
+			try {
+				record = await this.server.storage.enqueueMail({
+					user_id: apireq.user!.user_id,
+					domain_id,
+					kind: 'tx',
+					name: template.name,
+					rcpt: entry.rcpt,
+					mail: entry.mail,
+					send_at,
+					inline: !send_at,
+					message_id: entry.message_id
+				});
+			} catch (error: unknown) {
+				results[entry.slot] = {
+					rcpt: entry.rcpt,
+					status: 'failed',
+					error:
+						error instanceof ApiError
+							? (error as ApiError).message
+							: this.server.guessExceptionText(error, 'Failed to queue email')
+				};
+				continue;
 			}
-			normalizedHeaders = {};
-			for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
-				if (typeof value !== 'string') {
-					throw new ApiError({ code: 400, message: `headers.${key} must be a string` });
-				}
-				if (!ALLOWED_CUSTOM_HEADERS.has(key.toLowerCase())) {
-					throw new ApiError({ code: 400, message: `Header "${key}" is not allowed` });
+			const outcome = send_at ? null : await this.server.storage.outboxWorker?.deliverNow(record);
+			const result: TxRecipientResult = { rcpt: entry.rcpt, status: 'queued', message_id: record.message_id };
+			if (outcome?.status === 'sent') {
+				result.status = 'sent';
+				result.smtp_response = outcome.response;
+				result.transport = outcome.transport;
+			} else if (outcome) {
+				// 'queued' here means the first attempt failed transiently and will be retried.
+				result.status = outcome.status === 'dead' ? 'failed' : 'queued';
+				result.error = outcome.error;
+				if (outcome.response) {
+					result.smtp_response = outcome.response;
 				}
-				normalizedHeaders[key] = value;
 			}
+			results[entry.slot] = result;
 		}
+		return txSendResponse(results, send_at);
+	}
 
-		try {
-			const env = new nunjucks.Environment(null, { autoescape: this.server.storage.vars.AUTOESCAPE_HTML });
+	// Render a template exactly as post_send would for one recipient. With `draft` set the template's
+	// draft is rendered instead of the published version. Shared by the preview and test-send routes.
 
-			const compiled = nunjucks.compile(template.template, env);
+	private async renderSingle(
+		apireq: mailApiRequest,
+		rcpt: string
+	): Promise<{ template: api_txmail; mail: QueuedMail }> {
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const name = String(body.name ?? '');
+		const locale = String(body.locale ?? '');
+		if (!name) {
+			throw new ApiError({ code: 400, message: 'name required' });
+		}
+		const vars = parseTemplateVars(body.vars);
+		const replyToSource = parseReplyToTemplate(body.replyTo || body.reply_to);
+		const customHeaders = normalizeCustomHeaders(body.headers);
+		const cc = this.parseCopyList(body.cc, 'cc');
+		const requestedBcc = this.parseCopyList(body.bcc, 'bcc');
 
-			for (const recipient of valid) {
-				const fullargs = {
-					...thevars,
-					_rcpt_email_: recipient,
-					_attachments_: attachmentMap,
-					_vars_: thevars,
-					_meta_: meta
-				};
-				const html = await compiled.render(fullargs);
-				const text = convert(html);
-				const sendargs = {
-					from: sender,
-					to: recipient,
+		const draft = normalizeBoolean(body.draft);
+		const template = await this.lookupTemplate(apireq, name, locale);
+		if (draft) {
+			applyTemplateDraft(template, `Template "${name}"`);
+		}
+		const sender = resolveTxSender(template, apireq.domain!, apireq.user!);
+		const unsubscribe = this.unsubscribeFor(template, rcpt);
+		const headers = mergeHeaders(unsubscribe?.headers ?? {}, customHeaders);
+		const bcc = this.resolveBcc(template, requestedBcc);
+		const assets = Array.isArray(template.files) ? template.files : [];
+
+		let rendered: { html: string; text: string };
+		let renderedHeaders: ReturnType<typeof renderTxHeaders>;
+		try {
+			const compiled = this.server.storage.templateCache.tx(
+				template,
+				this.server.storage.vars.AUTOESCAPE_HTML,
+				draft
+			);
+			const renderParams = {
+				vars,
+				rcpt,
+				attachmentMap: {},
+				meta: buildRequestMeta(apireq.req),
+				unsubscribeUrl: unsubscribe?.url
+			};
+			rendered = await renderTxBody(compiled, renderParams);
+			renderedHeaders = renderTxHeaders(
+				{
 					subject: template.subject || (body.subject as string | undefined) || '',
-					html,
-					text,
-					attachments,
-					...(normalizedReplyTo ? { replyTo: normalizedReplyTo } : {}),
-					...(normalizedHeaders ? { headers: normalizedHeaders } : {})
-				};
-				if (!this.server.storage.transport) {
-					throw new ApiError({ code: 503, message: 'Mail transport is not available' });
-				}
-				await this.server.storage.transport.sendMail(sendargs);
-			}
-			return [200, { Status: 'OK', Message: 'Emails sent successfully' }];
+					sender,
+					replyTo: replyToSource
+				},
+				renderParams
+			);
 		} catch (error: unknown) {
 			if (error instanceof ApiError) {
 				throw error;
 			}
 			throw new ApiError({
 				code: 500,
-				message: 'Failed to render or send email'
+				message: `Failed to render email: ${error instanceof Error ? error.message : String(error)}`
 			});
 		}
+		return {
+			template,
+			mail: {
+				from: renderedHeaders.sender,
+				to: rcpt,
+				subject: renderedHeaders.subject,
+				html: rendered.html,
+				text: rendered.text,
+				attachments: await serializeAttachments(
+					assets.map((file) => ({ filename: file.filename, path: file.path, cid: file.cid }))
+				),
+				...(cc.length ? { cc } : {}),
+				...(bcc.length ? { bcc } : {}),
+				...(renderedHeaders.replyTo ? { replyTo: renderedHeaders.replyTo } : {}),
+				...(headers ? { headers } : {})
+			}
+		};
+	}
+
+	// The JSON Schema a template's vars must match, for callers that validate before sending. The
+	// template is resolved with the same locale fallback as post_send.
+
+	private async get_template_schema(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const name = String(query.name ?? '');
+		if (!name) {
+			throw new ApiError({ code: 400, message: 'name required' });
+		}
+		const template = await this.lookupTemplate(apireq, name, String(query.locale ?? ''));
+		return [200, { Status: 'OK', name: template.name, locale: template.locale, schema: template.vars_schema }];
+	}
+
+	// Static checks for a template: the variables it reads, asset('...') paths missing from the
+	// domain's assets/ directory, unresolved includes and |safe usage. Lints the posted `template` and
+	// `text_template` sources when given, otherwise the source .njk (and .txt.njk) of the template named
+	// by `name` in the domain's config tree. The stored copy is already flattened, so it can't be used.
+
+	private async post_lint(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const domainRoot = path.join(this.server.storage.configpath, apireq.domain!.name);
+		const templateRoot = path.join(domainRoot, 'tx-template');
+		const options = {
+			templateRoot,
+			assetsRoot: path.join(domainRoot, 'assets'),
+			baseDir: templateRoot,
+			file: ''
+		};
+		let template = String(body.template ?? '');
+		let text_template = String(body.text_template ?? '');
+		if (!template) {
+			const name = String(body.name ?? '');
+			if (!name) {
+				throw new ApiError({ code: 400, message: 'template or name required' });
+			}
+			const stored = await this.lookupTemplate(apireq, name, String(body.locale ?? ''));
+			const source = path.resolve(this.server.storage.configpath, stored.filename);
+			if (!source.startsWith(path.resolve(templateRoot) + path.sep) || !fs.existsSync(source)) {
+				throw new ApiError({ code: 404, message: `Source of template "${name}" not found in the config tree` });
+			}
+			const textSource = source.replace(/\.njk$/, '') + '.txt.njk';
+			template = await fs.promises.readFile(source, 'utf8');
+			text_template = fs.existsSync(textSource) ? await fs.promises.readFile(textSource, 'utf8') : '';
+			options.baseDir = path.dirname(source);
+			options.file = path.relative(templateRoot, source).replace(/\\/g, '/');
+		}
+
+		const html = lintTemplate(template, options);
+		const text = text_template
+			? lintTemplate(text_template, { ...options, file: options.file.replace(/\.njk$/, '.txt.njk') })
+			: null;
+		return [
+			200,
+			{
+				Status: 'OK',
+				failed: templateLintFailed(html) || (text !== null && templateLintFailed(text)),
+				template: html,
+				text_template: text
+			}
+		];
+	}
+
+	// Return the rendered message instead of queueing it. Nothing is written to the outbox or the
+	// message log.
+
+	private async post_preview(apireq: mailApiRequest): Promise<[number, MailPreview]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const rcptRaw = String(body.rcpt ?? '').trim();
+		const rcpt = rcptRaw ? validateEmail(rcptRaw) : '';
+		if (rcpt === undefined) {
+			throw new ApiError({ code: 400, message: `Invalid email address: ${rcptRaw}` });
+		}
+		const { mail } = await this.renderSingle(apireq, rcpt);
+		return [200, buildMailPreview(mail)];
+	}
+
+	// Send one rendered copy, by default to the caller's own address, so a template (or its draft)
+	// can be checked in a real mail client. Suppressions, tracking and cc/bcc do not apply.
+
+	private async post_test_send(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const rcptRaw = String(body.rcpt ?? '').trim() || apireq.user!.email;
+		const rcpt = validateEmail(rcptRaw);
+		if (!rcpt) {
+			throw new ApiError({ code: 400, message: `Invalid email address: ${rcptRaw}` });
+		}
+		const { template, mail } = await this.renderSingle(apireq, rcpt);
+		// The copy only goes to rcpt, never to the template's default bcc.
+		delete mail.cc;
+		delete mail.bcc;
+		const record = await this.server.storage.enqueueMail({
+			user_id: apireq.user!.user_id,
+			domain_id: apireq.domain!.domain_id,
+			kind: 'tx',
+			name: template.name,
+			rcpt,
+			mail
+		});
+		return [200, { Status: 'OK', rcpt, message_id: record.message_id, draft: normalizeBoolean(body.draft) }];
+	}
+
+	// Send one template to many recipients, each with its own vars/locale/headers. Entries are
+	// validated, rendered and queued independently; a bad entry is reported in `results` and does
+	// not stop the rest of the batch.
+
+	private async post_batch(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+		return this.withIdempotency(apireq, '/v1/tx/batch', () => this.send_batch(apireq));
+	}
+
+	private async send_batch(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const name = String(body.name ?? '');
+		const defaultLocale = String(body.locale ?? '');
+		let entries: unknown = body.entries;
+		if (typeof entries === 'string') {
+			try {
+				entries = JSON.parse(entries);
+			} catch {
+				throw new ApiError({ code: 400, message: 'Invalid JSON provided in "entries"' });
+			}
+		}
+		if (!name) {
+			throw new ApiError({ code: 400, message: 'name required' });
+		}
+		if (!Array.isArray(entries) || entries.length === 0) {
+			throw new ApiError({ code: 400, message: '"entries" must be a non-empty array' });
+		}
+		const maxEntries = this.server.storage.vars.TX_BATCH_MAX;
+		if (maxEntries > 0 && entries.length > maxEntries) {
+			throw new ApiError({ code: 413, message: `Too many batch entries: ${entries.length} > ${maxEntries}` });
+		}
+		const send_at = parseTimestamp(String(body.send_at ?? '').trim(), 'send_at');
+		const replyToSource = parseReplyToTemplate(body.replyTo || body.reply_to);
+		const meta = buildRequestMeta(apireq.req);
+
+		// Resolve the default-locale template up front so an unknown template fails the whole request.
+		await this.lookupTemplate(apireq, name, defaultLocale);
+
+		// Each locale variant is looked up and compiled once, then rendered per entry.
+		const variants = new Map<
+			string,
+			Promise<{
+				template: api_txmail;
+				compiled: CompiledTemplate;
+				sender: string;
+				bcc: string[];
+				attachments: QueuedAttachment[];
+				validator: VarsValidator | null;
+			}>
+		>();
+		const variantFor = (locale: string) => {
+			let variant = variants.get(locale);
+			if (!variant) {
+				variant = (async () => {
+					const template = await this.lookupTemplate(apireq, name, locale);
+					const assets = Array.isArray(template.files) ? template.files : [];
+					return {
+						template,
+						compiled: this.server.storage.templateCache.tx(
+							template,
+							this.server.storage.vars.AUTOESCAPE_HTML
+						),
+						sender: resolveTxSender(template, apireq.domain!, apireq.user!),
+						bcc: this.resolveBcc(template, []),
+						validator: this.server.storage.templateCache.varsValidator(template),
+						attachments: await serializeAttachments(
+							assets.map((file) => ({ filename: file.filename, path: file.path, cid: file.cid }))
+						)
+					};
+				})();
+				variants.set(locale, variant);
+			}
+			return variant;
+		};
+
+		// One suppression lookup for the whole batch; suppressed entries are reported as skipped.
+		const suppressed = await findSuppressions(
+			apireq.domain!.domain_id,
+			entries.map(
+				(raw) => validateEmail(String((raw as Record<string, unknown> | null)?.rcpt ?? '').trim()) ?? ''
+			)
+		);
+
+		const results: TxBatchResult[] = [];
+		for (const [index, raw] of entries.entries()) {
+			const entry = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+			const rcptRaw = String(entry.rcpt ?? '').trim();
+			try {
+				const rcpt = rcptRaw ? validateEmail(rcptRaw) : undefined;
+				if (!rcpt) {
+					throw new ApiError({
+						code: 400,
+						message: rcptRaw ? `Invalid email address: ${rcptRaw}` : 'rcpt required'
+					});
+				}
+				const vars = parseTemplateVars(entry.vars);
+				const locale = entry.locale === undefined ? defaultLocale : String(entry.locale);
+				const variant = await variantFor(locale);
+				assertTemplateVars(variant.validator, vars, variant.template.name);
+				const suppression = suppressionFor(suppressed, rcpt, variant.template.category);
+				if (suppression) {
+					results.push({ index, rcpt, status: 'skipped', error: `Suppressed (${suppression.reason})` });
+					continue;
+				}
+				const unsubscribe = this.unsubscribeFor(variant.template, rcpt);
+				const headers = mergeHeaders(unsubscribe?.headers ?? {}, normalizeCustomHeaders(entry.headers));
+
+				let rendered: { html: string; text: string };
+				let renderedHeaders: ReturnType<typeof renderTxHeaders>;
+				try {
+					const renderParams = { vars, rcpt, attachmentMap: {}, meta, unsubscribeUrl: unsubscribe?.url };
+					rendered = await renderTxBody(variant.compiled, renderParams);
+					renderedHeaders = renderTxHeaders(
+						{ subject: variant.template.subject, sender: variant.sender, replyTo: replyToSource },
+						renderParams
+					);
+				} catch (error: unknown) {
+					if (error instanceof ApiError) {
+						throw error;
+					}
+					throw new ApiError({ code: 500, message: 'Failed to render email' });
+				}
+				const tracked = this.trackHtml(variant.template, apireq.domain!, rendered.html);
+				const record = await this.server.storage.enqueueMail({
+					user_id: apireq.user!.user_id,
+					domain_id: apireq.domain!.domain_id,
+					kind: 'tx',
+					name: variant.template.name,
+					rcpt,
+					mail: {
+						from: renderedHeaders.sender,
+						to: rcpt,
+						subject: renderedHeaders.subject,
+						html: tracked.html,
+						text: rendered.text,
+						attachments: variant.attachments,
+						...(variant.bcc.length ? { bcc: variant.bcc } : {}),
+						...(renderedHeaders.replyTo ? { replyTo: renderedHeaders.replyTo } : {}),
+						...(headers ? { headers } : {})
+					},
+					send_at,
+					message_id: tracked.message_id
+				});
+				results.push({ index, rcpt, status: 'queued', message_id: record.message_id });
+			} catch (error: unknown) {
+				const message =
+					error instanceof ApiError
+						? (error as ApiError).message
+						: this.server.guessExceptionText(error, 'Failed to queue email');
+				results.push({ index, rcpt: rcptRaw, status: 'failed', error: message });
+			}
+		}
+
+		const queued = results.filter((result) => result.status === 'queued').length;
+		const [code, Status] = outcomeStatus(queued, results.length);
+		return [
+			code,
+			{
+				Status,
+				Message: `${queued} of ${results.length} emails queued for delivery`,
+				queued,
+				failed: results.filter((result) => result.status === 'failed').length,
+				skipped: results.filter((result) => result.status === 'skipped').length,
+				results,
+				...(send_at ? { send_at: send_at.toISOString() } : {})
+			}
+		];
 	}
 
 	override defineRoutes(): ApiRoute[] {
@@ -263,6 +891,91 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 				// reject valid multipart requests. Validation is handled in the route handler.
 				auth: { type: 'yes', req: 'any' }
 			},
+			{
+				method: 'post',
+				path: '/v1/tx/batch',
+				handler: this.post_batch.bind(this),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						required: ['name', 'entries'],
+						properties: {
+							name: { type: 'string' },
+							domain: { type: 'string' },
+							locale: { type: 'string' },
+							entries: { type: 'array' },
+							send_at: { type: ['string', 'number'] }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'post',
+				path: '/v1/tx/preview',
+				handler: this.post_preview.bind(this),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						required: ['name'],
+						properties: {
+							name: { type: 'string' },
+							domain: { type: 'string' },
+							locale: { type: 'string' },
+							rcpt: { type: 'string' },
+							draft: { type: ['boolean', 'string'] }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'post',
+				path: '/v1/tx/template/test',
+				handler: this.post_test_send.bind(this),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						required: ['name'],
+						properties: {
+							name: { type: 'string' },
+							domain: { type: 'string' },
+							locale: { type: 'string' },
+							rcpt: { type: 'string' },
+							draft: { type: ['boolean', 'string'] }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'post',
+				path: '/v1/tx/template/lint',
+				handler: this.post_lint.bind(this),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						properties: {
+							domain: { type: 'string' },
+							name: { type: 'string' },
+							locale: { type: 'string' },
+							template: { type: 'string' },
+							text_template: { type: 'string' }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'get',
+				path: '/v1/tx/template/schema',
+				handler: this.get_template_schema.bind(this),
+				auth: { type: 'yes', req: 'any' }
+			},
 			{
 				method: 'post',
 				path: '/v1/tx/template',
@@ -275,9 +988,14 @@ export class MailerAPI extends ApiModule<mailApiServer> {
 						properties: {
 							name: { type: 'string' },
 							template: { type: 'string' },
+							text_template: { type: 'string' },
 							sender: { type: 'string' },
 							subject: { type: 'string' },
-							locale: { type: 'string' }
+							locale: { type: 'string' },
+							bcc: { type: 'string' },
+							category: { type: 'string' },
+							track: { type: ['boolean', 'string', 'null'] },
+							draft: { type: ['boolean', 'string'] }
 						},
 						additionalProperties: true
 					}
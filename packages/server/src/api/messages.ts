@@ -0,0 +1,240 @@
+import { ApiError, ApiModule, ApiRoute } from '@technomoron/api-server-base';
+import { Op } from 'sequelize';
+
+import { api_message, MESSAGE_STATUSES } from '../models/message.js';
+import { api_outbox } from '../models/outbox.js';
+import { mailApiServer } from '../server.js';
+import { getBodyValue } from '../util/utils.js';
+
+import { assert_domain_and_user } from './auth.js';
+
+import type { mailApiRequest } from '../types.js';
+import type { WhereOptions } from 'sequelize';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export type MessageSummary = {
+	message_id: string;
+	kind: 'tx' | 'form';
+	template: string;
+	rcpt: string;
+	original_rcpt: string;
+	subject: string;
+	status: string;
+	attempts: number;
+	smtp_message_id: string;
+	smtp_response: string;
+	transport: string;
+	error: string;
+	created_at: string;
+	updated_at: string;
+	send_at: string | null;
+	sent_at: string | null;
+};
+
+export function toMessageSummary(record: api_message): MessageSummary {
+	return {
+		message_id: record.message_id,
+		kind: record.kind,
+		template: record.template,
+		rcpt: record.rcpt,
+		original_rcpt: record.original_rcpt,
+		subject: record.subject,
+		status: record.status,
+		attempts: record.attempts,
+		smtp_message_id: record.smtp_message_id,
+		smtp_response: record.smtp_response,
+		transport: record.transport,
+		error: record.error,
+		created_at: record.createdAt.toISOString(),
+		updated_at: record.updatedAt.toISOString(),
+		send_at: record.send_at ? record.send_at.toISOString() : null,
+		sent_at: record.sent_at ? record.sent_at.toISOString() : null
+	};
+}
+
+// Accepts ISO-8601 strings or epoch milliseconds.
+export function parseTimestamp(value: string, field: string): Date | null {
+	if (!value) {
+		return null;
+	}
+	const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new ApiError({ code: 400, message: `Invalid ${field} timestamp` });
+	}
+	return date;
+}
+
+function parsePositiveInt(value: string, field: string): number | null {
+	if (!value) {
+		return null;
+	}
+	if (!/^\d+$/.test(value) || Number(value) < 1) {
+		throw new ApiError({ code: 400, message: `${field} must be a positive integer` });
+	}
+	return Number(value);
+}
+
+export class MessageAPI extends ApiModule<mailApiServer> {
+	// List the message log for the caller's domain, newest first. `cursor` is the `next_cursor` value
+	// returned by the previous page.
+
+	private async getMessages(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const rcpt = getBodyValue(query, 'rcpt').trim();
+		const template = getBodyValue(query, 'template', 'name').trim();
+		const kind = getBodyValue(query, 'kind').trim();
+		const status = getBodyValue(query, 'status').trim();
+		const since = parseTimestamp(getBodyValue(query, 'since').trim(), 'since');
+		const until = parseTimestamp(getBodyValue(query, 'until').trim(), 'until');
+		const cursor = parsePositiveInt(getBodyValue(query, 'cursor').trim(), 'cursor');
+		const limit = Math.min(
+			parsePositiveInt(getBodyValue(query, 'limit').trim(), 'limit') ?? DEFAULT_PAGE_SIZE,
+			MAX_PAGE_SIZE
+		);
+
+		if (kind && kind !== 'tx' && kind !== 'form') {
+			throw new ApiError({ code: 400, message: 'kind must be "tx" or "form"' });
+		}
+		if (status && !(MESSAGE_STATUSES as readonly string[]).includes(status)) {
+			throw new ApiError({ code: 400, message: `status must be one of: ${MESSAGE_STATUSES.join(', ')}` });
+		}
+
+		const createdAt: Record<symbol, Date> = {};
+		if (since) {
+			createdAt[Op.gte] = since;
+		}
+		if (until) {
+			createdAt[Op.lte] = until;
+		}
+		const where: WhereOptions = {
+			domain_id: apireq.domain!.domain_id,
+			// Sandboxed messages are found by the address they were requested for as well.
+			...(rcpt ? { [Op.or]: [{ rcpt }, { original_rcpt: rcpt }] } : {}),
+			...(template ? { template } : {}),
+			...(kind ? { kind } : {}),
+			...(status ? { status } : {}),
+			...(since || until ? { createdAt } : {}),
+			...(cursor ? { log_id: { [Op.lt]: cursor } } : {})
+		};
+
+		const rows = await api_message.findAll({
+			where,
+			order: [['log_id', 'DESC']],
+			limit: limit + 1
+		});
+		const page = rows.slice(0, limit);
+		const next_cursor = rows.length > limit ? String(page[page.length - 1].log_id) : null;
+		return [200, { Status: 'OK', messages: page.map(toMessageSummary), next_cursor }];
+	}
+
+	private messageIdParam(apireq: mailApiRequest): string {
+		const params = (apireq.req.params ?? {}) as Record<string, unknown>;
+		const message_id = getBodyValue(params, 'id').trim();
+		if (!message_id) {
+			throw new ApiError({ code: 400, message: 'Missing message id' });
+		}
+		return message_id;
+	}
+
+	// Pending sends are outbox rows still in `queued` (scheduled, or waiting for a retry). The update is
+	// conditional on that status so a message the worker has already claimed is never changed.
+
+	private async updatePending(
+		apireq: mailApiRequest,
+		changes: { status?: 'cancelled'; next_attempt_at?: Date }
+	): Promise<api_message> {
+		const message_id = this.messageIdParam(apireq);
+		const domain_id = apireq.domain!.domain_id;
+		const [updated] = await api_outbox.update(changes, {
+			where: { message_id, domain_id, kind: 'tx', status: 'queued' }
+		});
+		const record = await api_message.findOne({ where: { message_id, domain_id, kind: 'tx' } });
+		if (!record) {
+			throw new ApiError({ code: 404, message: `Message "${message_id}" not found` });
+		}
+		if (!updated) {
+			throw new ApiError({
+				code: 409,
+				message: `Message "${message_id}" is no longer pending (${record.status})`
+			});
+		}
+		return record;
+	}
+
+	private async deleteTxMessage(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const record = await this.updatePending(apireq, { status: 'cancelled' });
+		await record.update({ status: 'cancelled' });
+		return [200, { Status: 'OK', message: toMessageSummary(record) }];
+	}
+
+	private async putTxMessage(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const send_at = parseTimestamp(getBodyValue(body, 'send_at').trim(), 'send_at');
+		if (!send_at) {
+			throw new ApiError({ code: 400, message: 'send_at required' });
+		}
+		const record = await this.updatePending(apireq, { next_attempt_at: send_at });
+		await record.update({ send_at });
+		this.server.storage.outboxWorker?.kick();
+		return [200, { Status: 'OK', message: toMessageSummary(record) }];
+	}
+
+	private async getMessage(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const message_id = this.messageIdParam(apireq);
+		const record = await api_message.findOne({ where: { message_id, domain_id: apireq.domain!.domain_id } });
+		if (!record) {
+			throw new ApiError({ code: 404, message: `Message "${message_id}" not found` });
+		}
+		return [200, { Status: 'OK', message: toMessageSummary(record) }];
+	}
+
+	override defineRoutes(): ApiRoute[] {
+		return [
+			{
+				method: 'get',
+				path: '/v1/tx/messages',
+				handler: (req) => this.getMessages(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'get',
+				path: '/v1/messages/:id',
+				handler: (req) => this.getMessage(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'delete',
+				path: '/v1/tx/message/:id',
+				handler: (req) => this.deleteTxMessage(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'put',
+				path: '/v1/tx/message/:id',
+				handler: (req) => this.putTxMessage(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						required: ['send_at'],
+						properties: {
+							send_at: { type: ['string', 'number'] },
+							domain: { type: 'string' }
+						},
+						additionalProperties: true
+					}
+				}
+			}
+		];
+	}
+}
@@ -0,0 +1,249 @@
+import { ApiError, ApiModule, ApiRoute } from '@technomoron/api-server-base';
+import { Op } from 'sequelize';
+
+import { api_suppression, SUPPRESSION_REASONS } from '../models/suppression.js';
+import { mailApiServer } from '../server.js';
+import { validateEmail } from '../util/email.js';
+import {
+	formatSuppressionCsv,
+	isSuppressionReason,
+	parseSuppressionCsv,
+	upsertSuppression
+} from '../util/suppression.js';
+import { getBodyValue, normalizeSlug } from '../util/utils.js';
+
+import { assert_domain_and_user } from './auth.js';
+
+import type { SuppressionReason } from '../models/suppression.js';
+import type { mailApiRequest } from '../types.js';
+import type { WhereOptions } from 'sequelize';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export type SuppressionSummary = {
+	email: string;
+	reason: SuppressionReason;
+	category: string;
+	note: string;
+	created_at: string;
+	updated_at: string;
+};
+
+export function toSuppressionSummary(record: api_suppression): SuppressionSummary {
+	return {
+		email: record.email,
+		reason: record.reason,
+		category: record.category,
+		note: record.note,
+		created_at: record.createdAt.toISOString(),
+		updated_at: record.updatedAt.toISOString()
+	};
+}
+
+function parseReason(value: string, fallback: SuppressionReason | ''): SuppressionReason | '' {
+	const reason = value.trim().toLowerCase();
+	if (!reason) {
+		return fallback;
+	}
+	if (!isSuppressionReason(reason)) {
+		throw new ApiError({ code: 400, message: `reason must be one of: ${SUPPRESSION_REASONS.join(', ')}` });
+	}
+	return reason;
+}
+
+export class SuppressionAPI extends ApiModule<mailApiServer> {
+	// List the caller's domain suppression list, newest first. `cursor` is the `next_cursor` value
+	// returned by the previous page.
+
+	private async getSuppressions(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const email = getBodyValue(query, 'email').trim().toLowerCase();
+		const reason = parseReason(getBodyValue(query, 'reason'), '');
+		const category = getBodyValue(query, 'category');
+		const cursorRaw = getBodyValue(query, 'cursor').trim();
+		const limitRaw = getBodyValue(query, 'limit').trim();
+		if (cursorRaw && !/^[1-9]\d*$/.test(cursorRaw)) {
+			throw new ApiError({ code: 400, message: 'cursor must be a positive integer' });
+		}
+		if (limitRaw && !/^[1-9]\d*$/.test(limitRaw)) {
+			throw new ApiError({ code: 400, message: 'limit must be a positive integer' });
+		}
+		const limit = Math.min(limitRaw ? Number(limitRaw) : DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+		const where: WhereOptions = {
+			domain_id: apireq.domain!.domain_id,
+			...(email ? { email } : {}),
+			...(reason ? { reason } : {}),
+			...(category ? { category: normalizeSlug(category) } : {}),
+			...(cursorRaw ? { suppression_id: { [Op.lt]: Number(cursorRaw) } } : {})
+		};
+		const rows = await api_suppression.findAll({
+			where,
+			order: [['suppression_id', 'DESC']],
+			limit: limit + 1
+		});
+		const page = rows.slice(0, limit);
+		const next_cursor = rows.length > limit ? String(page[page.length - 1].suppression_id) : null;
+		return [200, { Status: 'OK', suppressions: page.map(toSuppressionSummary), next_cursor }];
+	}
+
+	private async postSuppression(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const emailRaw = getBodyValue(body, 'email').trim();
+		const email = emailRaw ? validateEmail(emailRaw) : undefined;
+		if (!email) {
+			throw new ApiError({
+				code: 400,
+				message: emailRaw ? `Invalid email address: ${emailRaw}` : 'email required'
+			});
+		}
+		const reason = parseReason(getBodyValue(body, 'reason'), 'manual') as SuppressionReason;
+		const { record, created } = await upsertSuppression({
+			domain_id: apireq.domain!.domain_id,
+			email,
+			reason,
+			category: normalizeSlug(getBodyValue(body, 'category')),
+			note: getBodyValue(body, 'note')
+		});
+		return [created ? 201 : 200, { Status: 'OK', suppression: toSuppressionSummary(record) }];
+	}
+
+	private async deleteSuppression(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const params = (apireq.req.params ?? {}) as Record<string, unknown>;
+		const email = getBodyValue(params, 'email').trim().toLowerCase();
+		if (!email) {
+			throw new ApiError({ code: 400, message: 'Missing email' });
+		}
+		// Without a category every entry for the address is removed.
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const category = getBodyValue(body, 'category') || getBodyValue(query, 'category');
+		const removed = await api_suppression.destroy({
+			where: {
+				domain_id: apireq.domain!.domain_id,
+				email,
+				...(category ? { category: normalizeSlug(category) } : {})
+			}
+		});
+		if (!removed) {
+			throw new ApiError({ code: 404, message: `Address "${email}" is not suppressed` });
+		}
+		return [200, { Status: 'OK', email }];
+	}
+
+	// Add or update entries from CSV text. Valid rows are stored even when others are rejected; the
+	// rejected rows are listed by line number.
+
+	private async postImport(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const csv = typeof body.csv === 'string' ? body.csv : '';
+		if (!csv.trim()) {
+			throw new ApiError({ code: 400, message: 'csv required' });
+		}
+		const reason = parseReason(getBodyValue(body, 'reason'), 'manual') as SuppressionReason;
+		const { rows, errors } = parseSuppressionCsv(csv, reason);
+
+		let created = 0;
+		let updated = 0;
+		for (const row of rows) {
+			const result = await upsertSuppression({
+				domain_id: apireq.domain!.domain_id,
+				email: row.email,
+				reason: row.reason,
+				category: row.category,
+				note: row.note
+			});
+			if (result.created) {
+				created++;
+			} else {
+				updated++;
+			}
+		}
+		return [
+			errors.length ? 207 : 200,
+			{ Status: errors.length ? 'PARTIAL' : 'OK', created, updated, rejected: errors.length, errors }
+		];
+	}
+
+	private async getExport(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const reason = parseReason(getBodyValue(query, 'reason'), '');
+		const rows = await api_suppression.findAll({
+			where: { domain_id: apireq.domain!.domain_id, ...(reason ? { reason } : {}) },
+			order: [['email', 'ASC']]
+		});
+		return [200, { Status: 'OK', count: rows.length, csv: formatSuppressionCsv(rows) }];
+	}
+
+	override defineRoutes(): ApiRoute[] {
+		return [
+			{
+				method: 'get',
+				path: '/v1/suppressions',
+				handler: (req) => this.getSuppressions(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'post',
+				path: '/v1/suppressions',
+				handler: (req) => this.postSuppression(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						required: ['email'],
+						properties: {
+							email: { type: 'string' },
+							reason: { type: 'string', enum: [...SUPPRESSION_REASONS] },
+							category: { type: 'string' },
+							note: { type: 'string' },
+							domain: { type: 'string' }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'delete',
+				path: '/v1/suppressions/:email',
+				handler: (req) => this.deleteSuppression(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'post',
+				path: '/v1/suppressions/import',
+				handler: (req) => this.postImport(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: {
+					body: {
+						type: 'object',
+						required: ['csv'],
+						properties: {
+							csv: { type: 'string' },
+							reason: { type: 'string', enum: [...SUPPRESSION_REASONS] },
+							domain: { type: 'string' }
+						},
+						additionalProperties: true
+					}
+				}
+			},
+			{
+				method: 'get',
+				path: '/v1/suppressions/export',
+				handler: (req) => this.getExport(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			}
+		];
+	}
+}
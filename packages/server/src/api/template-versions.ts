@@ -0,0 +1,257 @@
+import { ApiError, ApiModule, ApiRoute } from '@technomoron/api-server-base';
+
+import { api_form } from '../models/form.js';
+import { api_template_version } from '../models/template-version.js';
+import { api_txmail } from '../models/txmail.js';
+import { mailApiServer } from '../server.js';
+import { buildFormTemplatePaths } from '../util/forms.js';
+import { publishTemplateDraft } from '../util/template-drafts.js';
+import {
+	diffTemplateVersions,
+	latestTemplateVersion,
+	recordTemplateVersion,
+	toTemplateVersionSummary
+} from '../util/template-versions.js';
+import { getBodyValue } from '../util/utils.js';
+
+import { assert_domain_and_user } from './auth.js';
+
+import type { TemplateVersionKind } from '../models/template-version.js';
+import type { mailApiRequest } from '../types.js';
+
+type VersionedRecord = { kind: TemplateVersionKind; record: api_txmail | api_form; record_id: number; label: string };
+
+function parseVersion(value: string, field: string): number | null {
+	const raw = value.trim();
+	if (!raw) {
+		return null;
+	}
+	if (!/^[1-9]\d*$/.test(raw)) {
+		throw new ApiError({ code: 400, message: `${field} must be a positive integer` });
+	}
+	return Number(raw);
+}
+
+export class TemplateVersionAPI extends ApiModule<mailApiServer> {
+	// Versions are addressed like the upload routes: tx templates by name and locale, forms by idname
+	// and locale, within the request's domain.
+
+	private async findRecord(
+		apireq: mailApiRequest,
+		kind: TemplateVersionKind,
+		params: Record<string, unknown>
+	): Promise<VersionedRecord> {
+		await assert_domain_and_user(apireq);
+		const domain = apireq.domain!;
+
+		if (kind === 'tx') {
+			const name = getBodyValue(params, 'name');
+			const locale = getBodyValue(params, 'locale');
+			if (!name) {
+				throw new ApiError({ code: 400, message: 'Missing template name' });
+			}
+			const record = await api_txmail.findOne({ where: { domain_id: domain.domain_id, name, locale } });
+			if (!record) {
+				throw new ApiError({ code: 404, message: `Template "${name}" not found in domain "${domain.name}"` });
+			}
+			return { kind, record, record_id: record.template_id, label: `Template "${name}"` };
+		}
+
+		const idname = getBodyValue(params, 'idname');
+		if (!idname) {
+			throw new ApiError({ code: 400, message: 'Missing form idname' });
+		}
+		const { localeSlug } = buildFormTemplatePaths({
+			user: apireq.user!,
+			domain,
+			idname,
+			locale: getBodyValue(params, 'locale') || apireq.locale || ''
+		});
+		const record = await api_form.findOne({ where: { domain_id: domain.domain_id, idname, locale: localeSlug } });
+		if (!record) {
+			throw new ApiError({ code: 404, message: `Form "${idname}" not found in domain "${domain.name}"` });
+		}
+		return { kind, record, record_id: record.form_id, label: `Form "${idname}"` };
+	}
+
+	private async findVersion(target: VersionedRecord, version: number): Promise<api_template_version> {
+		const found = await api_template_version.findOne({
+			where: { kind: target.kind, record_id: target.record_id, version }
+		});
+		if (!found) {
+			throw new ApiError({ code: 404, message: `${target.label} has no version ${version}` });
+		}
+		return found;
+	}
+
+	private async getVersions(
+		apireq: mailApiRequest,
+		kind: TemplateVersionKind
+	): Promise<[number, Record<string, unknown>]> {
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const target = await this.findRecord(apireq, kind, query);
+		const rows = await api_template_version.findAll({
+			where: { kind, record_id: target.record_id },
+			order: [['version', 'DESC']]
+		});
+		const draft = target.record.draft;
+		return [
+			200,
+			{
+				Status: 'OK',
+				current: rows[0]?.version ?? null,
+				draft: draft ? { user_id: draft.user_id, updated_at: draft.updated_at } : null,
+				versions: rows.map(toTemplateVersionSummary)
+			}
+		];
+	}
+
+	// Compare two versions. `to` defaults to the latest version and `from` to the one before `to`.
+
+	private async getDiff(
+		apireq: mailApiRequest,
+		kind: TemplateVersionKind
+	): Promise<[number, Record<string, unknown>]> {
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const target = await this.findRecord(apireq, kind, query);
+		const toRaw = parseVersion(getBodyValue(query, 'to'), 'to');
+		const to = toRaw ? await this.findVersion(target, toRaw) : await latestTemplateVersion(kind, target.record_id);
+		if (!to) {
+			throw new ApiError({ code: 404, message: `${target.label} has no stored versions` });
+		}
+		const fromRaw = parseVersion(getBodyValue(query, 'from'), 'from') ?? to.version - 1;
+		if (fromRaw < 1) {
+			throw new ApiError({ code: 400, message: `${target.label} has no version before ${to.version}` });
+		}
+		const from = await this.findVersion(target, fromRaw);
+		return [200, { Status: 'OK', diff: diffTemplateVersions(from, to) }];
+	}
+
+	// Restore the content, subject, sender and files of an earlier version. The restored state is
+	// stored as a new version, so a rollback can itself be rolled back.
+
+	private async postRollback(
+		apireq: mailApiRequest,
+		kind: TemplateVersionKind
+	): Promise<[number, Record<string, unknown>]> {
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const target = await this.findRecord(apireq, kind, body);
+		const version = parseVersion(getBodyValue(body, 'version'), 'version');
+		if (!version) {
+			throw new ApiError({ code: 400, message: 'Missing version' });
+		}
+		const snapshot = await this.findVersion(target, version);
+
+		const { record } = target;
+		record.template = snapshot.template;
+		record.text_template = snapshot.text_template;
+		record.subject = snapshot.subject;
+		record.sender = snapshot.sender;
+		record.files = snapshot.files;
+		try {
+			await record.save();
+		} catch (error: unknown) {
+			throw new ApiError({
+				code: 500,
+				message: this.server!.guessExceptionText(error, 'Unknown Sequelize Error on template rollback')
+			});
+		}
+		this.server.storage.templateCache.invalidate(kind, target.record_id);
+		const current = await recordTemplateVersion(kind, record, {
+			user_id: apireq.user!.user_id,
+			source: 'rollback'
+		});
+		this.server.storage.print_debug(`${target.label} rolled back to version ${version}`);
+		return [200, { Status: 'OK', restored: version, version: toTemplateVersionSummary(current) }];
+	}
+
+	// Promote the draft uploaded with `draft: true` to the published template used by sends, and
+	// store it as a new version.
+
+	private async postPublish(
+		apireq: mailApiRequest,
+		kind: TemplateVersionKind
+	): Promise<[number, Record<string, unknown>]> {
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const target = await this.findRecord(apireq, kind, body);
+		try {
+			await publishTemplateDraft(target.record, target.label);
+		} catch (error: unknown) {
+			if (error instanceof ApiError) {
+				throw error;
+			}
+			throw new ApiError({
+				code: 500,
+				message: this.server!.guessExceptionText(error, 'Unknown Sequelize Error on template publish')
+			});
+		}
+		this.server.storage.templateCache.invalidate(kind, target.record_id);
+		const current = await recordTemplateVersion(kind, target.record, {
+			user_id: apireq.user!.user_id,
+			source: 'publish'
+		});
+		this.server.storage.print_debug(`${target.label} draft published as version ${current.version}`);
+		return [200, { Status: 'OK', version: toTemplateVersionSummary(current) }];
+	}
+
+	override defineRoutes(): ApiRoute[] {
+		const routes: ApiRoute[] = [];
+		for (const [kind, prefix, key] of [
+			['tx', '/v1/tx/template', 'name'],
+			['form', '/v1/form/template', 'idname']
+		] as const) {
+			routes.push(
+				{
+					method: 'get',
+					path: `${prefix}/versions`,
+					handler: (req) => this.getVersions(req as mailApiRequest, kind),
+					auth: { type: 'yes', req: 'any' }
+				},
+				{
+					method: 'get',
+					path: `${prefix}/diff`,
+					handler: (req) => this.getDiff(req as mailApiRequest, kind),
+					auth: { type: 'yes', req: 'any' }
+				},
+				{
+					method: 'post',
+					path: `${prefix}/rollback`,
+					handler: (req) => this.postRollback(req as mailApiRequest, kind),
+					auth: { type: 'yes', req: 'any' },
+					schema: {
+						body: {
+							type: 'object',
+							required: [key, 'version'],
+							properties: {
+								[key]: { type: 'string' },
+								locale: { type: 'string' },
+								domain: { type: 'string' },
+								version: { type: ['integer', 'string'] }
+							},
+							additionalProperties: true
+						}
+					}
+				},
+				{
+					method: 'post',
+					path: `${prefix}/publish`,
+					handler: (req) => this.postPublish(req as mailApiRequest, kind),
+					auth: { type: 'yes', req: 'any' },
+					schema: {
+						body: {
+							type: 'object',
+							required: [key],
+							properties: {
+								[key]: { type: 'string' },
+								locale: { type: 'string' },
+								domain: { type: 'string' }
+							},
+							additionalProperties: true
+						}
+					}
+				}
+			);
+		}
+		return routes;
+	}
+}
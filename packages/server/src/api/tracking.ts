@@ -0,0 +1,237 @@
+import { ApiError, ApiModule, ApiRoute } from '@technomoron/api-server-base';
+import { col, fn, Op } from 'sequelize';
+
+import { api_event } from '../models/event.js';
+import { api_message } from '../models/message.js';
+import { mailApiServer } from '../server.js';
+import { trackingSecret, verifyClickToken, verifyOpenToken } from '../util/tracking.js';
+import { buildRequestMeta, decodeComponent, getBodyValue } from '../util/utils.js';
+
+import { assert_domain_and_user } from './auth.js';
+import { parseTimestamp } from './messages.js';
+
+import type { MessageEventType } from '../models/event.js';
+import type { mailApiRequest } from '../types.js';
+import type { ApiRequest, ExtendedReq } from '@technomoron/api-server-base';
+import type { WhereOptions } from 'sequelize';
+
+type ApiRes = ApiRequest['res'];
+
+// Internal: type-assertion shape to access Fastify reply header/type methods through
+// the ApiResponse wrapper.
+type FastifyReplyAccessor = { reply?: { type(t: string): void; header(k: string, v: string): void } };
+
+// Transparent 1x1 GIF served for every open-pixel request.
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+export type MessageEventSummary = {
+	type: MessageEventType;
+	url: string;
+	client_ip: string;
+	user_agent: string;
+	created_at: string;
+};
+
+export type TemplateStats = {
+	template: string;
+	sent: number;
+	opens: number;
+	unique_opens: number;
+	clicks: number;
+	unique_clicks: number;
+};
+
+function toEventSummary(record: api_event): MessageEventSummary {
+	return {
+		type: record.type,
+		url: record.url,
+		client_ip: record.client_ip,
+		user_agent: record.user_agent,
+		created_at: record.createdAt.toISOString()
+	};
+}
+
+async function recordEvent(
+	server: mailApiServer,
+	req: ExtendedReq,
+	message_id: string,
+	type: MessageEventType,
+	url = ''
+): Promise<void> {
+	try {
+		const message = await api_message.findOne({ where: { message_id } });
+		if (!message) {
+			return;
+		}
+		const userAgent = req.headers?.['user-agent'];
+		await api_event.create({
+			message_id,
+			domain_id: message.domain_id,
+			template: message.template,
+			type,
+			url,
+			client_ip: buildRequestMeta(req).client_ip,
+			user_agent: (typeof userAgent === 'string' ? userAgent : '').slice(0, 512)
+		});
+	} catch (err) {
+		server.storage.print_debug(
+			`Failed to record ${type} for ${message_id}: ${err instanceof Error ? err.message : String(err)}`
+		);
+	}
+}
+
+/**
+ * Public open/click endpoints for tracked transactional mail. The open pixel is always served, so a
+ * bad token never shows as a broken image; clicks redirect only for valid tokens, which keeps the
+ * route from being an open redirect.
+ */
+export function createTrackingHandler(server: mailApiServer, type: MessageEventType) {
+	return async (req: ExtendedReq, res: ApiRes, next?: (error?: unknown) => void): Promise<void> => {
+		if (req.method !== 'GET') {
+			if (next) {
+				next();
+				return;
+			}
+			res.status(405).send(null);
+			return;
+		}
+
+		const secret = trackingSecret(server.storage.vars);
+		const token = decodeComponent(req.params?.['token'] as string | undefined);
+		const fastifyReply = (res as unknown as FastifyReplyAccessor).reply;
+		fastifyReply?.header('cache-control', 'no-store');
+
+		if (type === 'open') {
+			const message_id = token ? verifyOpenToken(secret, token) : null;
+			if (message_id) {
+				await recordEvent(server, req, message_id, 'open');
+			}
+			fastifyReply?.type('image/gif');
+			res.status(200).send(PIXEL);
+			return;
+		}
+
+		const click = token ? verifyClickToken(secret, token) : null;
+		if (!click) {
+			fastifyReply?.type('text/plain; charset=utf-8');
+			res.status(404).send('Invalid link');
+			return;
+		}
+		await recordEvent(server, req, click.message_id, 'click', click.url);
+		fastifyReply?.header('location', click.url);
+		res.status(302).send('');
+	};
+}
+
+export class TrackingAPI extends ApiModule<mailApiServer> {
+	// Per-template totals for the caller's domain. `sent` counts transactional messages accepted by the
+	// transport in the window, tracked or not; opens and clicks count events recorded in the window.
+
+	private async getTxStats(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const template = getBodyValue(query, 'template', 'name').trim();
+		const since = parseTimestamp(getBodyValue(query, 'since').trim(), 'since');
+		const until = parseTimestamp(getBodyValue(query, 'until').trim(), 'until');
+
+		const createdAt: Record<symbol, Date> = {};
+		if (since) {
+			createdAt[Op.gte] = since;
+		}
+		if (until) {
+			createdAt[Op.lte] = until;
+		}
+		const scope = {
+			domain_id: apireq.domain!.domain_id,
+			...(template ? { template } : {}),
+			...(since || until ? { createdAt } : {})
+		};
+
+		const sentRows = (await api_message.findAll({
+			attributes: ['template', [fn('COUNT', col('message_id')), 'total']],
+			where: { ...scope, kind: 'tx', sent_at: { [Op.ne]: null } } as WhereOptions,
+			group: ['template'],
+			raw: true
+		})) as unknown as Array<{ template: string; total: number | string }>;
+		const eventRows = (await api_event.findAll({
+			attributes: [
+				'template',
+				'type',
+				[fn('COUNT', col('event_id')), 'total'],
+				[fn('COUNT', fn('DISTINCT', col('message_id'))), 'unique']
+			],
+			where: scope as WhereOptions,
+			group: ['template', 'type'],
+			raw: true
+		})) as unknown as Array<{
+			template: string;
+			type: MessageEventType;
+			total: number | string;
+			unique: number | string;
+		}>;
+
+		const stats = new Map<string, TemplateStats>();
+		const entry = (name: string): TemplateStats => {
+			let found = stats.get(name);
+			if (!found) {
+				found = { template: name, sent: 0, opens: 0, unique_opens: 0, clicks: 0, unique_clicks: 0 };
+				stats.set(name, found);
+			}
+			return found;
+		};
+		for (const row of sentRows) {
+			entry(row.template).sent = Number(row.total);
+		}
+		for (const row of eventRows) {
+			const item = entry(row.template);
+			if (row.type === 'open') {
+				item.opens = Number(row.total);
+				item.unique_opens = Number(row.unique);
+			} else if (row.type === 'click') {
+				item.clicks = Number(row.total);
+				item.unique_clicks = Number(row.unique);
+			}
+		}
+
+		const templates = [...stats.values()].sort((a, b) => a.template.localeCompare(b.template));
+		return [200, { Status: 'OK', templates }];
+	}
+
+	private async getMessageEvents(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const params = (apireq.req.params ?? {}) as Record<string, unknown>;
+		const message_id = getBodyValue(params, 'id').trim();
+		if (!message_id) {
+			throw new ApiError({ code: 400, message: 'Missing message id' });
+		}
+		const domain_id = apireq.domain!.domain_id;
+		const message = await api_message.findOne({ where: { message_id, domain_id } });
+		if (!message) {
+			throw new ApiError({ code: 404, message: `Message "${message_id}" not found` });
+		}
+		const events = await api_event.findAll({
+			where: { message_id, domain_id },
+			order: [['event_id', 'ASC']]
+		});
+		return [200, { Status: 'OK', message_id, events: events.map(toEventSummary) }];
+	}
+
+	override defineRoutes(): ApiRoute[] {
+		return [
+			{
+				method: 'get',
+				path: '/v1/tx/stats',
+				handler: (req) => this.getTxStats(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'get',
+				path: '/v1/messages/:id/events',
+				handler: (req) => this.getMessageEvents(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			}
+		];
+	}
+}
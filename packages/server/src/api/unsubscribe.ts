@@ -0,0 +1,101 @@
+import { api_domain } from '../models/domain.js';
+import { mailApiServer } from '../server.js';
+import { findSuppressions, suppressionFor, upsertSuppression } from '../util/suppression.js';
+import { renderUnsubscribePage, unsubscribeSecret, verifyUnsubscribeToken } from '../util/unsubscribe.js';
+import { decodeComponent } from '../util.js';
+
+import type { ApiRequest, ExtendedReq } from '@technomoron/api-server-base';
+
+type ApiRes = ApiRequest['res'];
+
+// Internal: type-assertion shape to access Fastify reply header/type methods through
+// the ApiResponse wrapper.
+type FastifyReplyAccessor = { reply?: { type(t: string): void; header(k: string, v: string): void } };
+
+function sendPage(res: ApiRes, code: number, html: string): void {
+	const fastifyReply = (res as unknown as FastifyReplyAccessor).reply;
+	if (fastifyReply) {
+		fastifyReply.type('text/html; charset=utf-8');
+		fastifyReply.header('cache-control', 'no-store');
+	}
+	res.status(code).send(html);
+}
+
+/**
+ * Public unsubscribe endpoint for the links and List-Unsubscribe headers generated on sends with a
+ * template category. GET only shows a confirmation page, since link scanners fetch URLs in mail; the
+ * opt-out is recorded on POST, which is also what RFC 8058 one-click clients send.
+ */
+export function createUnsubscribeHandler(server: mailApiServer) {
+	return async (req: ExtendedReq, res: ApiRes, next?: (error?: unknown) => void): Promise<void> => {
+		if (req.method !== 'GET' && req.method !== 'POST') {
+			if (next) {
+				next();
+				return;
+			}
+			res.status(405).send(null);
+			return;
+		}
+
+		const token = decodeComponent(req.params?.['token'] as string | undefined);
+		const payload = token ? verifyUnsubscribeToken(unsubscribeSecret(server.storage.vars), token) : null;
+		const domain = payload ? await api_domain.findByPk(payload.domain_id) : null;
+		if (!payload || !domain) {
+			sendPage(
+				res,
+				404,
+				renderUnsubscribePage({
+					title: 'Invalid link',
+					message: 'This unsubscribe link is not valid. It may have been copied incompletely.'
+				})
+			);
+			return;
+		}
+
+		const list = payload.category ? `${domain.name} ${payload.category} mail` : `mail from ${domain.name}`;
+		if (req.method === 'GET') {
+			sendPage(
+				res,
+				200,
+				renderUnsubscribePage({
+					title: 'Unsubscribe',
+					message: `Stop sending ${list} to ${payload.email}?`,
+					confirm: true
+				})
+			);
+			return;
+		}
+
+		try {
+			// An existing entry (such as a bounce) already blocks this mail; keep its reason.
+			const found = await findSuppressions(domain.domain_id, [payload.email]);
+			if (!suppressionFor(found, payload.email, payload.category)) {
+				await upsertSuppression({
+					domain_id: domain.domain_id,
+					email: payload.email,
+					reason: 'unsubscribe',
+					category: payload.category,
+					note: 'Unsubscribe link'
+				});
+			}
+		} catch (err) {
+			server.storage.print_debug(
+				`Failed to record unsubscribe for ${payload.email}: ${err instanceof Error ? err.message : String(err)}`
+			);
+			sendPage(
+				res,
+				500,
+				renderUnsubscribePage({ title: 'Something went wrong', message: 'Please try again later.' })
+			);
+			return;
+		}
+		sendPage(
+			res,
+			200,
+			renderUnsubscribePage({
+				title: 'Unsubscribed',
+				message: `${payload.email} will no longer receive ${list}.`
+			})
+		);
+	};
+}
@@ -0,0 +1,271 @@
+import { ApiError, ApiModule, ApiRoute } from '@technomoron/api-server-base';
+import { Op } from 'sequelize';
+
+import { api_webhook_delivery, WEBHOOK_DELIVERY_STATUSES } from '../models/webhook-delivery.js';
+import { api_webhook, WEBHOOK_EVENTS } from '../models/webhook.js';
+import { mailApiServer } from '../server.js';
+import { getBodyValue, normalizeBoolean } from '../util/utils.js';
+import { generateWebhookSecret } from '../util/webhooks.js';
+
+import { assert_domain_and_user } from './auth.js';
+
+import type { WebhookEventType } from '../models/webhook.js';
+import type { mailApiRequest } from '../types.js';
+import type { WhereOptions } from 'sequelize';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export type WebhookSummary = {
+	webhook_id: number;
+	url: string;
+	events: WebhookEventType[];
+	description: string;
+	enabled: boolean;
+	created_at: string;
+	updated_at: string;
+};
+
+export type WebhookDeliverySummary = {
+	delivery_id: number;
+	event_id: string;
+	type: WebhookEventType;
+	status: string;
+	attempts: number;
+	next_attempt_at: string | null;
+	response_code: number;
+	response_body: string;
+	error: string;
+	payload: Record<string, unknown>;
+	created_at: string;
+	delivered_at: string | null;
+};
+
+function toWebhookSummary(record: api_webhook): WebhookSummary {
+	return {
+		webhook_id: record.webhook_id,
+		url: record.url,
+		events: record.events,
+		description: record.description,
+		enabled: record.enabled,
+		created_at: record.createdAt.toISOString(),
+		updated_at: record.updatedAt.toISOString()
+	};
+}
+
+function toDeliverySummary(record: api_webhook_delivery): WebhookDeliverySummary {
+	return {
+		delivery_id: record.delivery_id,
+		event_id: record.event_id,
+		type: record.type,
+		status: record.status,
+		attempts: record.attempts,
+		next_attempt_at: record.status === 'queued' ? record.next_attempt_at.toISOString() : null,
+		response_code: record.response_code,
+		response_body: record.response_body,
+		error: record.last_error,
+		payload: record.payload,
+		created_at: record.createdAt.toISOString(),
+		delivered_at: record.delivered_at ? record.delivered_at.toISOString() : null
+	};
+}
+
+function parseWebhookUrl(value: unknown): string {
+	const url = String(value ?? '').trim();
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		throw new ApiError({ code: 400, message: 'url must be an absolute http(s) URL' });
+	}
+	if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+		throw new ApiError({ code: 400, message: 'url must be an absolute http(s) URL' });
+	}
+	return url;
+}
+
+// Accepts an array or a comma-separated list; `*` subscribes to every event type.
+function parseWebhookEvents(value: unknown): WebhookEventType[] {
+	const list = (Array.isArray(value) ? value : String(value ?? '').split(','))
+		.map((item) => String(item).trim())
+		.filter(Boolean);
+	if (list.includes('*')) {
+		return [...WEBHOOK_EVENTS];
+	}
+	const unknown = list.filter((item) => !(WEBHOOK_EVENTS as readonly string[]).includes(item));
+	if (unknown.length) {
+		throw new ApiError({
+			code: 400,
+			message: `Unknown event type(s): ${unknown.join(', ')} (expected: ${WEBHOOK_EVENTS.join(', ')})`
+		});
+	}
+	if (!list.length) {
+		throw new ApiError({ code: 400, message: 'events required' });
+	}
+	return [...new Set(list)] as WebhookEventType[];
+}
+
+function parsePositiveInt(value: string, field: string): number | null {
+	if (!value) {
+		return null;
+	}
+	if (!/^\d+$/.test(value) || Number(value) < 1) {
+		throw new ApiError({ code: 400, message: `${field} must be a positive integer` });
+	}
+	return Number(value);
+}
+
+export class WebhookAPI extends ApiModule<mailApiServer> {
+	private async findWebhook(apireq: mailApiRequest): Promise<api_webhook> {
+		const params = (apireq.req.params ?? {}) as Record<string, unknown>;
+		const webhook_id = parsePositiveInt(getBodyValue(params, 'id').trim(), 'id');
+		const record = webhook_id
+			? await api_webhook.findOne({ where: { webhook_id, domain_id: apireq.domain!.domain_id } })
+			: null;
+		if (!record) {
+			throw new ApiError({ code: 404, message: 'Webhook not found' });
+		}
+		return record;
+	}
+
+	private async getWebhooks(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const rows = await api_webhook.findAll({
+			where: { domain_id: apireq.domain!.domain_id },
+			order: [['webhook_id', 'ASC']]
+		});
+		return [200, { Status: 'OK', webhooks: rows.map(toWebhookSummary) }];
+	}
+
+	// The secret is only returned here (and by PUT when it changes); it cannot be read back later.
+
+	private async postWebhook(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const record = await api_webhook.create({
+			domain_id: apireq.domain!.domain_id,
+			url: parseWebhookUrl(body.url),
+			events: parseWebhookEvents(body.events),
+			secret: getBodyValue(body, 'secret').trim() || generateWebhookSecret(),
+			description: getBodyValue(body, 'description').trim(),
+			enabled: body.enabled === undefined ? true : normalizeBoolean(body.enabled)
+		});
+		return [201, { Status: 'OK', webhook: { ...toWebhookSummary(record), secret: record.secret } }];
+	}
+
+	private async putWebhook(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const record = await this.findWebhook(apireq);
+		const body = (apireq.req.body ?? {}) as Record<string, unknown>;
+		const secret = getBodyValue(body, 'secret').trim();
+		await record.update({
+			...(body.url !== undefined ? { url: parseWebhookUrl(body.url) } : {}),
+			...(body.events !== undefined ? { events: parseWebhookEvents(body.events) } : {}),
+			...(body.description !== undefined ? { description: getBodyValue(body, 'description').trim() } : {}),
+			...(body.enabled !== undefined ? { enabled: normalizeBoolean(body.enabled) } : {}),
+			...(secret ? { secret } : {})
+		});
+		return [
+			200,
+			{ Status: 'OK', webhook: { ...toWebhookSummary(record), ...(secret ? { secret: record.secret } : {}) } }
+		];
+	}
+
+	// Deleting a webhook also removes its delivery log, including deliveries still queued.
+
+	private async deleteWebhook(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const record = await this.findWebhook(apireq);
+		await api_webhook_delivery.destroy({ where: { webhook_id: record.webhook_id } });
+		await record.destroy();
+		return [200, { Status: 'OK', webhook_id: record.webhook_id }];
+	}
+
+	private async getDeliveries(apireq: mailApiRequest): Promise<[number, Record<string, unknown>]> {
+		await assert_domain_and_user(apireq);
+
+		const record = await this.findWebhook(apireq);
+		const query = (apireq.req.query ?? {}) as Record<string, unknown>;
+		const status = getBodyValue(query, 'status').trim();
+		const type = getBodyValue(query, 'type').trim();
+		const cursor = parsePositiveInt(getBodyValue(query, 'cursor').trim(), 'cursor');
+		const limit = Math.min(
+			parsePositiveInt(getBodyValue(query, 'limit').trim(), 'limit') ?? DEFAULT_PAGE_SIZE,
+			MAX_PAGE_SIZE
+		);
+		if (status && !(WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(status)) {
+			throw new ApiError({
+				code: 400,
+				message: `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`
+			});
+		}
+
+		const where: WhereOptions = {
+			webhook_id: record.webhook_id,
+			...(status ? { status } : {}),
+			...(type ? { type } : {}),
+			...(cursor ? { delivery_id: { [Op.lt]: cursor } } : {})
+		};
+		const rows = await api_webhook_delivery.findAll({
+			where,
+			order: [['delivery_id', 'DESC']],
+			limit: limit + 1
+		});
+		const page = rows.slice(0, limit);
+		const next_cursor = rows.length > limit ? String(page[page.length - 1].delivery_id) : null;
+		return [200, { Status: 'OK', deliveries: page.map(toDeliverySummary), next_cursor }];
+	}
+
+	override defineRoutes(): ApiRoute[] {
+		const body = {
+			type: 'object',
+			properties: {
+				domain: { type: 'string' },
+				url: { type: 'string' },
+				events: { type: ['array', 'string'] },
+				secret: { type: 'string' },
+				description: { type: 'string' },
+				enabled: { type: ['boolean', 'string'] }
+			},
+			additionalProperties: true
+		};
+		return [
+			{
+				method: 'get',
+				path: '/v1/webhooks',
+				handler: (req) => this.getWebhooks(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'post',
+				path: '/v1/webhooks',
+				handler: (req) => this.postWebhook(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: { body: { ...body, required: ['url', 'events'] } }
+			},
+			{
+				method: 'put',
+				path: '/v1/webhooks/:id',
+				handler: (req) => this.putWebhook(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' },
+				schema: { body }
+			},
+			{
+				method: 'delete',
+				path: '/v1/webhooks/:id',
+				handler: (req) => this.deleteWebhook(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			},
+			{
+				method: 'get',
+				path: '/v1/webhooks/:id/deliveries',
+				handler: (req) => this.getDeliveries(req as mailApiRequest),
+				auth: { type: 'yes', req: 'any' }
+			}
+		];
+	}
+}
@@ -1,9 +1,17 @@
 import { pathToFileURL } from 'node:url';
 
 import { AssetAPI, createAssetHandler } from './api/assets.js';
+import { BounceAPI } from './api/bounces.js';
+import { DebugAPI } from './api/debug.js';
 import { FormAPI } from './api/forms.js';
 import { MailerAPI } from './api/mailer.js';
+import { MessageAPI } from './api/messages.js';
 import { ReloadAPI } from './api/reload.js';
+import { SuppressionAPI } from './api/suppressions.js';
+import { TemplateVersionAPI } from './api/template-versions.js';
+import { createTrackingHandler, TrackingAPI } from './api/tracking.js';
+import { createUnsubscribeHandler } from './api/unsubscribe.js';
+import { WebhookAPI } from './api/webhooks.js';
 import { mailApiServer } from './server.js';
 import { MailStoreVars, mailStore } from './store/store.js';
 import { installMailMagicSwagger } from './swagger.js';
@@ -77,8 +85,15 @@ export async function createMailMagicServer(
 	const server = new mailApiServer(serverConfig, store)
 		.api(new MailerAPI())
 		.api(new FormAPI())
+		.api(new TemplateVersionAPI())
 		.api(new AssetAPI())
-		.api(new ReloadAPI());
+		.api(new MessageAPI())
+		.api(new ReloadAPI())
+		.api(new SuppressionAPI())
+		.api(new BounceAPI())
+		.api(new TrackingAPI())
+		.api(new WebhookAPI())
+		.api(new DebugAPI());
 	installMailMagicSwagger(server, {
 		apiUrl: String(store.vars.API_URL || ''),
 		swaggerEnabled
@@ -91,6 +106,11 @@ export async function createMailMagicServer(
 		// 404 handler. Fastify (find-my-way) requires the wildcard to be an unnamed `*`.
 		server.useExpress(`${prefix}/:domain/*`, assetHandler);
 	}
+	// Unsubscribe pages are HTML, so they are mounted outside the JSON API modules.
+	server.useExpress(`${MAIL_MAGIC_API_BASE_PATH}/v1/unsubscribe/:token`, createUnsubscribeHandler(server));
+	// Tracking pixel and click redirects are not JSON either.
+	server.useExpress(`${MAIL_MAGIC_API_BASE_PATH}/v1/track/open/:token`, createTrackingHandler(server, 'open'));
+	server.useExpress(`${MAIL_MAGIC_API_BASE_PATH}/v1/track/click/:token`, createTrackingHandler(server, 'click'));
 
 	if (store.vars.ADMIN_ENABLED) {
 		await enableAdminFeatures(server, store, adminUiPath);
@@ -3,11 +3,19 @@ import { Sequelize } from 'sequelize';
 import { mailStore } from '../store/store.js';
 
 import { init_api_domain, api_domain } from './domain.js';
+import { init_api_event, api_event } from './event.js';
 import { init_api_form, api_form } from './form.js';
+import { init_api_idempotency } from './idempotency.js';
 import { importData } from './init.js';
+import { init_api_message, api_message } from './message.js';
+import { init_api_outbox, api_outbox } from './outbox.js';
 import { init_api_recipient, api_recipient } from './recipient.js';
+import { init_api_suppression, api_suppression } from './suppression.js';
+import { init_api_template_version, api_template_version } from './template-version.js';
 import { init_api_txmail, api_txmail } from './txmail.js';
 import { init_api_user, api_user, migrateLegacyApiTokens } from './user.js';
+import { init_api_webhook_delivery, api_webhook_delivery } from './webhook-delivery.js';
+import { init_api_webhook, api_webhook } from './webhook.js';
 
 import type { Dialect, Options } from 'sequelize';
 
@@ -21,6 +29,14 @@ export async function init_api_db(db: Sequelize, store: mailStore) {
 	await init_api_txmail(db);
 	await init_api_form(db);
 	await init_api_recipient(db);
+	await init_api_outbox(db);
+	await init_api_message(db);
+	await init_api_idempotency(db);
+	await init_api_suppression(db);
+	await init_api_event(db);
+	await init_api_webhook(db);
+	await init_api_webhook_delivery(db);
+	await init_api_template_version(db);
 
 	// User ↔ Domain
 	api_user.hasMany(api_domain, {
@@ -86,6 +102,74 @@ export async function init_api_db(db: Sequelize, store: mailStore) {
 		as: 'domain'
 	});
 
+	// Domain ↔ Outbox (queued outbound messages)
+	api_domain.hasMany(api_outbox, {
+		foreignKey: 'domain_id',
+		as: 'outbox'
+	});
+	api_outbox.belongsTo(api_domain, {
+		foreignKey: 'domain_id',
+		as: 'domain'
+	});
+
+	// Domain ↔ Message log
+	api_domain.hasMany(api_message, {
+		foreignKey: 'domain_id',
+		as: 'messages'
+	});
+	api_message.belongsTo(api_domain, {
+		foreignKey: 'domain_id',
+		as: 'domain'
+	});
+
+	// Domain ↔ Suppression list
+	api_domain.hasMany(api_suppression, {
+		foreignKey: 'domain_id',
+		as: 'suppressions'
+	});
+	api_suppression.belongsTo(api_domain, {
+		foreignKey: 'domain_id',
+		as: 'domain'
+	});
+
+	// Domain ↔ Tracking events
+	api_domain.hasMany(api_event, {
+		foreignKey: 'domain_id',
+		as: 'events'
+	});
+	api_event.belongsTo(api_domain, {
+		foreignKey: 'domain_id',
+		as: 'domain'
+	});
+
+	// Domain ↔ Webhook subscriptions ↔ Delivery log
+	api_domain.hasMany(api_webhook, {
+		foreignKey: 'domain_id',
+		as: 'webhooks'
+	});
+	api_webhook.belongsTo(api_domain, {
+		foreignKey: 'domain_id',
+		as: 'domain'
+	});
+	api_webhook.hasMany(api_webhook_delivery, {
+		foreignKey: 'webhook_id',
+		as: 'deliveries'
+	});
+	api_webhook_delivery.belongsTo(api_webhook, {
+		foreignKey: 'webhook_id',
+		as: 'webhook'
+	});
+
+	// Domain ↔ Template version history (record_id points at txmail or form, depending on kind)
+	api_domain.hasMany(api_template_version, {
+		foreignKey: 'domain_id',
+		as: 'templateVersions'
+	});
+	api_template_version.belongsTo(api_domain, {
+		foreignKey: 'domain_id',
+		as: 'domain'
+	});
+
 	const useSqlitePragmas = usesSqlitePragmas(db);
 	if (useSqlitePragmas) {
 		await db.query('PRAGMA foreign_keys = OFF');
@@ -2,6 +2,67 @@ import { Sequelize, Model, DataTypes } from 'sequelize';
 import { z } from 'zod';
 
 const DOMAIN_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const domain_transport_schema = z
+	.object({
+		name: z
+			.string()
+			.optional()
+			.describe('Label recorded in the message log for messages this transport delivers (default host:port).'),
+		host: z.string().min(1).describe('SMTP relay hostname.'),
+		port: z.number().int().positive().optional().describe('SMTP port (default 465 when secure, otherwise 587).'),
+		secure: z.boolean().default(false).describe('Connect with implicit TLS.'),
+		require_tls: z.boolean().optional().describe('Require a STARTTLS upgrade (default SMTP_REQUIRE_TLS).'),
+		auth: z
+			.object({
+				user: z.string().optional().describe('SMTP username.'),
+				user_env: z.string().regex(ENV_NAME_PATTERN).optional().describe('Env var holding the SMTP username.'),
+				pass: z.string().optional().describe('SMTP password (prefer pass_env).'),
+				pass_env: z.string().regex(ENV_NAME_PATTERN).optional().describe('Env var holding the SMTP password.')
+			})
+			.optional()
+			.describe('SMTP credentials; values may be given directly or by env var name.'),
+		tls: z
+			.object({
+				reject_unauthorized: z
+					.boolean()
+					.optional()
+					.describe('Validate the server certificate (default SMTP_TLS_REJECT).'),
+				servername: z.string().optional().describe('TLS SNI servername override.'),
+				min_version: z.string().optional().describe('Minimum TLS version, e.g. TLSv1.2.')
+			})
+			.optional()
+			.describe('TLS options.'),
+		pool: z.boolean().default(false).describe('Keep a pool of SMTP connections open.'),
+		max_connections: z.number().int().positive().optional().describe('Pool size (pool only).'),
+		max_messages: z.number().int().positive().optional().describe('Messages per pooled connection (pool only).')
+	})
+	.describe('SMTP relay settings used instead of the global SMTP_* configuration.');
+
+export type domain_transport_type = z.output<typeof domain_transport_schema>;
+
+// One transport, or an ordered failover list tried first to last.
+export const domain_transport_list_schema = z.union([domain_transport_schema, z.array(domain_transport_schema).min(1)]);
+
+export type domain_transport_list_type = z.output<typeof domain_transport_list_schema>;
+
+export const domain_dkim_schema = z
+	.object({
+		selector: z
+			.string()
+			.regex(/^[a-z0-9][a-z0-9._-]*$/i, 'Invalid DKIM selector')
+			.describe('DKIM selector published as <selector>._domainkey.<domain>.'),
+		key_path: z.string().min(1).describe('Private key (PEM) path, relative to the domain config directory.'),
+		domain_name: z.string().optional().describe('Signing domain (d=); defaults to the domain name.'),
+		headers: z
+			.array(z.string().regex(/^[A-Za-z0-9-]+$/, 'Invalid header name'))
+			.optional()
+			.describe('Header fields to sign; defaults to the nodemailer list.')
+	})
+	.describe('DKIM signing settings for outbound mail.');
+
+export type domain_dkim_type = z.output<typeof domain_dkim_schema>;
 
 export const api_domain_schema = z
 	.object({
@@ -14,7 +75,16 @@ export const api_domain_schema = z
 			.describe('Domain name (config identifier).'),
 		sender: z.string().default('').describe('Default sender address for this domain.'),
 		locale: z.string().default('').describe('Default locale for this domain.'),
-		is_default: z.boolean().default(false).describe('If true, this is the default domain for the user.')
+		is_default: z.boolean().default(false).describe('If true, this is the default domain for the user.'),
+		transport: domain_transport_list_schema
+			.nullable()
+			.default(null)
+			.describe('Per-domain SMTP transport or failover list; null uses the global SMTP_* settings.'),
+		dkim: domain_dkim_schema.nullable().default(null).describe('DKIM signing settings; null sends unsigned.'),
+		track: z
+			.boolean()
+			.default(false)
+			.describe('Open/click tracking for transactional templates that do not set their own `track`.')
 	})
 	.describe('Domain configuration record.');
 
@@ -29,6 +99,9 @@ export class api_domain extends Model<api_domain_type, api_domain_creation_type>
 	declare sender: string;
 	declare locale: string;
 	declare is_default: boolean;
+	declare transport: domain_transport_list_type | null;
+	declare dkim: domain_dkim_type | null;
+	declare track: boolean;
 }
 
 export async function init_api_domain(api_db: Sequelize): Promise<typeof api_domain> {
@@ -69,6 +142,58 @@ export async function init_api_domain(api_db: Sequelize): Promise<typeof api_dom
 				type: DataTypes.BOOLEAN,
 				allowNull: false,
 				defaultValue: false
+			},
+			transport: {
+				type: DataTypes.TEXT,
+				allowNull: true,
+				defaultValue: null,
+				get() {
+					// Stored as JSON text; malformed values read as "no override".
+					const raw = this.getDataValue('transport') as unknown as string | null;
+					if (!raw) {
+						return null;
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' ? parsed : null;
+					} catch {
+						return null;
+					}
+				},
+				set(value: domain_transport_list_type | null | undefined) {
+					this.setDataValue(
+						'transport',
+						(value ? JSON.stringify(value) : null) as unknown as domain_transport_list_type | null
+					);
+				}
+			},
+			dkim: {
+				type: DataTypes.TEXT,
+				allowNull: true,
+				defaultValue: null,
+				get() {
+					const raw = this.getDataValue('dkim') as unknown as string | null;
+					if (!raw) {
+						return null;
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+					} catch {
+						return null;
+					}
+				},
+				set(value: domain_dkim_type | null | undefined) {
+					this.setDataValue(
+						'dkim',
+						(value ? JSON.stringify(value) : null) as unknown as domain_dkim_type | null
+					);
+				}
+			},
+			track: {
+				type: DataTypes.BOOLEAN,
+				allowNull: false,
+				defaultValue: false
 			}
 		},
 		{
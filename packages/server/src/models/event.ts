@@ -0,0 +1,105 @@
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+export const MESSAGE_EVENT_TYPES = ['open', 'click'] as const;
+export type MessageEventType = (typeof MESSAGE_EVENT_TYPES)[number];
+
+export const api_event_schema = z
+	.object({
+		event_id: z.number().int().nonnegative().describe('Database primary key for the event record.'),
+		message_id: z.string().min(1).describe('Message the event belongs to (matches the message log).'),
+		domain_id: z.number().int().nonnegative().describe('Owning domain ID.'),
+		template: z
+			.string()
+			.default('')
+			.describe('Transactional template name of the message, for per-template stats.'),
+		type: z.enum(MESSAGE_EVENT_TYPES).describe('What the recipient did.'),
+		url: z.string().default('').describe('Link target for click events; empty for opens.'),
+		client_ip: z.string().default('').describe('Client IP that requested the tracking URL.'),
+		user_agent: z.string().default('').describe('User-Agent that requested the tracking URL.')
+	})
+	.describe('Open or click recorded through the tracking pixel or a rewritten link.');
+
+export type api_event_input = z.input<typeof api_event_schema>;
+export type api_event_type = z.output<typeof api_event_schema>;
+export type api_event_creation_type = Omit<api_event_input, 'event_id'> & { event_id?: number };
+
+export class api_event extends Model<api_event_type, api_event_creation_type> {
+	declare event_id: number;
+	declare message_id: string;
+	declare domain_id: number;
+	declare template: string;
+	declare type: MessageEventType;
+	declare url: string;
+	declare client_ip: string;
+	declare user_agent: string;
+	declare createdAt: Date;
+	declare updatedAt: Date;
+}
+
+export async function init_api_event(api_db: Sequelize): Promise<typeof api_event> {
+	api_event.init(
+		{
+			event_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			message_id: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			template: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			type: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			url: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			client_ip: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			user_agent: {
+				type: DataTypes.STRING(512),
+				allowNull: false,
+				defaultValue: ''
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'event',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					fields: ['message_id']
+				},
+				{
+					fields: ['domain_id', 'template', 'createdAt']
+				}
+			]
+		}
+	);
+
+	return api_event;
+}
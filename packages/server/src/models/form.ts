@@ -8,6 +8,10 @@ import { StoredFile } from '../types.js';
 import { assertSafeRelativePath, buildFormSlugAndFilename } from '../util/paths.js';
 import { user_and_domain, normalizeSlug } from '../util.js';
 
+import { template_draft_schema } from './template-version.js';
+
+import type { template_draft_type } from './template-version.js';
+
 const stored_file_schema: z.ZodType<StoredFile> = z
 	.object({
 		filename: z.string().describe('Asset filename (relative to the domain assets directory).'),
@@ -44,6 +48,12 @@ export const api_form_schema = z
 			.string()
 			.default('')
 			.describe('Nunjucks template content used to render the outbound email body for this form.'),
+		text_template: z
+			.string()
+			.default('')
+			.describe(
+				'Optional Nunjucks template for the plain-text part (from the .txt.njk companion file); when empty the text part is converted from the HTML.'
+			),
 		filename: z
 			.string()
 			.default('')
@@ -80,7 +90,11 @@ export const api_form_schema = z
 			.default([])
 			.describe(
 				'Derived list of template-referenced assets (inline cids and external links) resolved during preprocessing/import.'
-			)
+			),
+		draft: template_draft_schema
+			.nullable()
+			.default(null)
+			.describe('Draft awaiting publish; public submissions keep using the published fields above.')
 	})
 	.describe('Form configuration and template used by the public form submission endpoint.');
 
@@ -99,6 +113,7 @@ export class api_form extends Model<api_form_type, api_form_creation_type> {
 	declare recipient: string;
 	declare subject: string;
 	declare template: string;
+	declare text_template: string;
 	declare filename: string;
 	declare slug: string;
 	declare secret: string;
@@ -107,6 +122,8 @@ export class api_form extends Model<api_form_type, api_form_creation_type> {
 	declare allowed_fields: string[];
 	declare captcha_required: boolean;
 	declare files: StoredFile[];
+	declare draft: template_draft_type | null;
+	declare updatedAt: Date;
 }
 
 export async function init_api_form(api_db: Sequelize): Promise<typeof api_form> {
@@ -181,6 +198,11 @@ export async function init_api_form(api_db: Sequelize): Promise<typeof api_form>
 				allowNull: false,
 				defaultValue: ''
 			},
+			text_template: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
 			slug: {
 				type: DataTypes.STRING,
 				allowNull: false,
@@ -249,6 +271,29 @@ export async function init_api_form(api_db: Sequelize): Promise<typeof api_form>
 				set(value: StoredFile[] | null | undefined) {
 					this.setDataValue('files', JSON.stringify(value ?? []) as unknown as StoredFile[]);
 				}
+			},
+			draft: {
+				type: DataTypes.TEXT,
+				allowNull: true,
+				defaultValue: null,
+				get() {
+					const raw = this.getDataValue('draft') as unknown as string | null;
+					if (!raw) {
+						return null;
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+					} catch {
+						return null;
+					}
+				},
+				set(value: template_draft_type | null | undefined) {
+					this.setDataValue(
+						'draft',
+						(value ? JSON.stringify(value) : null) as unknown as template_draft_type | null
+					);
+				}
 			}
 		},
 		{
@@ -272,7 +317,7 @@ export async function init_api_form(api_db: Sequelize): Promise<typeof api_form>
 	return api_form;
 }
 
-export async function upsert_form(record: api_form_type): Promise<api_form> {
+export async function upsert_form(record: Omit<api_form_type, 'draft'>): Promise<api_form> {
 	const { domain } = await user_and_domain(record.domain_id);
 
 	const dname = normalizeSlug(domain.name);
@@ -0,0 +1,141 @@
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+export const api_idempotency_schema = z
+	.object({
+		idempotency_id: z.number().int().nonnegative().describe('Database primary key for the idempotency record.'),
+		user_id: z.number().int().nonnegative().describe('Owning user ID.'),
+		domain_id: z.number().int().nonnegative().describe('Domain the request was made for.'),
+		idem_key: z.string().min(1).describe('Client-supplied Idempotency-Key value.'),
+		route: z.string().default('').describe('Endpoint the key was first used on.'),
+		request_hash: z
+			.string()
+			.default('')
+			.describe('SHA-256 of the original request; a reuse with a different request is rejected.'),
+		status: z
+			.enum(['pending', 'complete'])
+			.default('pending')
+			.describe('pending while the original request is running; complete once its response is stored.'),
+		response_code: z.number().int().nonnegative().default(0).describe('HTTP status of the original response.'),
+		response: z
+			.record(z.string(), z.unknown())
+			.default({})
+			.describe('Response data returned by the original request.'),
+		expires_at: z.date().describe('Time after which the key may be reused for a new request.')
+	})
+	.describe('Stored result of a transactional send made with an Idempotency-Key.');
+
+export type api_idempotency_input = z.input<typeof api_idempotency_schema>;
+export type api_idempotency_type = z.output<typeof api_idempotency_schema>;
+export type api_idempotency_creation_type = Omit<api_idempotency_input, 'idempotency_id'> & {
+	idempotency_id?: number;
+};
+
+export class api_idempotency extends Model<api_idempotency_type, api_idempotency_creation_type> {
+	declare idempotency_id: number;
+	declare user_id: number;
+	declare domain_id: number;
+	declare idem_key: string;
+	declare route: string;
+	declare request_hash: string;
+	declare status: 'pending' | 'complete';
+	declare response_code: number;
+	declare response: Record<string, unknown>;
+	declare expires_at: Date;
+}
+
+export async function init_api_idempotency(api_db: Sequelize): Promise<typeof api_idempotency> {
+	api_idempotency.init(
+		{
+			idempotency_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			user_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'user',
+					key: 'user_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			idem_key: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			route: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			request_hash: {
+				type: DataTypes.STRING(64),
+				allowNull: false,
+				defaultValue: ''
+			},
+			status: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: 'pending'
+			},
+			response_code: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				defaultValue: 0
+			},
+			response: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: '{}',
+				get() {
+					// This column is stored as JSON text but exposed as an object via getter/setter.
+					const raw = this.getDataValue('response') as unknown as string | null;
+					if (!raw) {
+						return {};
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+					} catch {
+						return {};
+					}
+				},
+				set(value: Record<string, unknown> | null | undefined) {
+					this.setDataValue('response', JSON.stringify(value ?? {}) as unknown as Record<string, unknown>);
+				}
+			},
+			expires_at: {
+				type: DataTypes.DATE,
+				allowNull: false
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'idempotency',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					unique: true,
+					fields: ['user_id', 'domain_id', 'idem_key']
+				}
+			]
+		}
+	);
+
+	return api_idempotency;
+}
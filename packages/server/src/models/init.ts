@@ -5,19 +5,49 @@ import { z } from 'zod';
 
 import { mailStore } from '../store/store.js';
 import { StoredFile } from '../types.js';
+import { validateDkimConfig } from '../util/dkim.js';
 import { buildAssetUrl } from '../util/paths.js';
 import { MAIL_MAGIC_ASSET_ROUTE } from '../util/route.js';
 import { flattenTemplateWithAssets } from '../util/shared-template-flatten.js';
+import { recordTemplateVersion } from '../util/template-versions.js';
+import { compileVarsSchema } from '../util/vars-schema.js';
 import { user_and_domain } from '../util.js';
 
 import { api_domain, api_domain_schema } from './domain.js';
-import { api_form_schema, api_form_type, upsert_form } from './form.js';
-import { api_txmail_schema, api_txmail_type, upsert_txmail } from './txmail.js';
+import { api_form, api_form_schema, api_form_type, upsert_form } from './form.js';
+import { api_txmail, api_txmail_schema, api_txmail_type, txmail_filename, upsert_txmail } from './txmail.js';
 import { apiTokenToHmac, api_user, api_user_schema } from './user.js';
 
 interface LoadedTemplate {
 	html: string;
 	assets: StoredFile[];
+	/** Plain-text companion (`<name>.txt.njk`); undefined when the template has none. */
+	text?: string;
+	/** JSON Schema for the send vars (`<name>.vars.json`); tx templates only. */
+	varsSchema?: Record<string, unknown>;
+}
+
+/** Path of the optional plain-text companion of a `.njk` template file. */
+function textCompanionPath(templatePath: string): string {
+	return templatePath.replace(/\.njk$/, '') + '.txt.njk';
+}
+
+/** Path of the optional vars schema sidecar of a `.njk` template file. */
+function varsSchemaPath(templatePath: string): string {
+	return templatePath.replace(/\.njk$/, '') + '.vars.json';
+}
+
+function readVarsSchema(file: string): Record<string, unknown> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+	} catch (err) {
+		throw new Error(`Vars schema "${file}" is not valid JSON: ${(err as Error).message}`);
+	}
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error(`Vars schema "${file}" must be a JSON object`);
+	}
+	return parsed as Record<string, unknown>;
 }
 
 function buildInlineAssetCid(urlPath: string): string {
@@ -33,25 +63,25 @@ function buildInlineAssetCid(urlPath: string): string {
 const init_data_schema = z.object({
 	user: z.array(api_user_schema).default([]),
 	domain: z.array(api_domain_schema).default([]),
-	template: z.array(api_txmail_schema).default([]),
-	form: z.array(api_form_schema).default([])
+	// Drafts only exist in the database; an import never touches them.
+	template: z.array(api_txmail_schema.omit({ draft: true })).default([]),
+	form: z.array(api_form_schema.omit({ draft: true })).default([])
 });
 
 type InitData = z.infer<typeof init_data_schema>;
 
-async function _load_template(
+/** Absolute path of a stored template filename, kept inside the domain's template directory. */
+function templateFilePath(
 	store: mailStore,
 	filename: string,
 	pathname: string,
-	user: api_user,
-	domain: api_domain,
-	locale: string | null,
+	domainName: string,
 	type: 'form-template' | 'tx-template'
-): Promise<LoadedTemplate> {
-	const rootDir = path.join(store.configpath, domain.name, type);
+): string {
+	const rootDir = path.join(store.configpath, domainName, type);
 
 	let relFile = filename;
-	const prefix = path.join(domain.name, type) + path.sep;
+	const prefix = path.join(domainName, type) + path.sep;
 	if (filename.startsWith(prefix)) {
 		relFile = filename.slice(prefix.length);
 	}
@@ -63,36 +93,59 @@ async function _load_template(
 	if (!absPath.startsWith(normalizedRoot)) {
 		throw new Error(`Invalid template path "${filename}"`);
 	}
+	return absPath;
+}
+
+async function _load_template(
+	store: mailStore,
+	filename: string,
+	pathname: string,
+	user: api_user,
+	domain: api_domain,
+	locale: string | null,
+	type: 'form-template' | 'tx-template'
+): Promise<LoadedTemplate> {
+	const absPath = templateFilePath(store, filename, pathname, domain.name, type);
 	if (!fs.existsSync(absPath)) {
 		throw new Error(`Missing template file "${absPath}"`);
 	}
 
-	const raw = fs.readFileSync(absPath, 'utf8');
-	if (!raw.trim()) {
-		throw new Error(`Template file "${absPath}" is empty`);
-	}
+	const baseConfigPath = store.configpath;
+	const domainRoot = path.join(baseConfigPath, domain.name);
+	const assetBaseUrl = store.vars.ASSET_PUBLIC_BASE?.trim() ? store.vars.ASSET_PUBLIC_BASE : store.vars.API_URL;
 
-	try {
-		const baseConfigPath = store.configpath;
-		const domainRoot = path.join(baseConfigPath, domain.name);
-		const templateKey = path.relative(domainRoot, absPath);
-		if (!templateKey || templateKey.startsWith('..')) {
-			throw new Error(`Unable to resolve template path for "${absPath}"`);
+	const flatten = (file: string) => {
+		const raw = fs.readFileSync(file, 'utf8');
+		if (!raw.trim()) {
+			throw new Error(`Template file "${file}" is empty`);
 		}
 
-		const assetBaseUrl = store.vars.ASSET_PUBLIC_BASE?.trim() ? store.vars.ASSET_PUBLIC_BASE : store.vars.API_URL;
-		const { html, assets } = flattenTemplateWithAssets({
-			domainRoot,
-			templateKey,
-			baseUrl: assetBaseUrl,
-			assetFormatter: (urlPath) => buildAssetUrl(assetBaseUrl, MAIL_MAGIC_ASSET_ROUTE, domain.name, urlPath),
-			normalizeInlineCid: buildInlineAssetCid
-		});
+		try {
+			const templateKey = path.relative(domainRoot, file);
+			if (!templateKey || templateKey.startsWith('..')) {
+				throw new Error(`Unable to resolve template path for "${file}"`);
+			}
 
-		return { html, assets: assets as StoredFile[] };
-	} catch (err) {
-		throw new Error(`Template "${absPath}" failed to preprocess: ${(err as Error).message}`);
-	}
+			return flattenTemplateWithAssets({
+				domainRoot,
+				templateKey,
+				baseUrl: assetBaseUrl,
+				assetFormatter: (urlPath) => buildAssetUrl(assetBaseUrl, MAIL_MAGIC_ASSET_ROUTE, domain.name, urlPath),
+				normalizeInlineCid: buildInlineAssetCid
+			});
+		} catch (err) {
+			throw new Error(`Template "${file}" failed to preprocess: ${(err as Error).message}`);
+		}
+	};
+
+	const { html, assets } = flatten(absPath);
+	// Assets referenced only from the text companion are linked by URL, never attached.
+	const textPath = textCompanionPath(absPath);
+	const text = fs.existsSync(textPath) ? flatten(textPath).html : undefined;
+	const schemaPath = varsSchemaPath(absPath);
+	const varsSchema = type === 'tx-template' && fs.existsSync(schemaPath) ? readVarsSchema(schemaPath) : undefined;
+
+	return { html, assets: assets as StoredFile[], text, varsSchema };
 }
 export async function loadFormTemplate(store: mailStore, form: api_form_type): Promise<LoadedTemplate> {
 	const { user, domain } = await user_and_domain(form.domain_id);
@@ -108,6 +161,14 @@ export async function loadTxTemplate(store: mailStore, template: api_txmail_type
 	return _load_template(store, template.filename, '', user, domain, locale, 'tx-template');
 }
 
+function assertVarsSchema(name: string, schema: Record<string, unknown>): void {
+	try {
+		compileVarsSchema(schema);
+	} catch (err) {
+		throw new Error(`Template "${name}": ${(err as Error).message}`);
+	}
+}
+
 export async function importData(store: mailStore, options?: { force?: boolean }) {
 	const initfile = path.join(store.configpath, 'init-data.json');
 	if (fs.existsSync(initfile)) {
@@ -122,6 +183,30 @@ export async function importData(store: mailStore, options?: { force?: boolean }
 			return;
 		}
 
+		// Check DKIM keys and vars schemas (inline and .vars.json sidecars) before touching the database so a
+		// bad one fails the whole load.
+		for (const record of records.domain) {
+			if (record.dkim) {
+				validateDkimConfig(store.configpath, record.name, record.dkim);
+			}
+		}
+		for (const record of records.template) {
+			if (record.vars_schema) {
+				assertVarsSchema(record.name, record.vars_schema);
+			}
+			// The sidecar replaces the inline schema when the template is loaded below.
+			const domain =
+				records.domain.find((entry) => entry.domain_id === record.domain_id) ??
+				(await api_domain.findByPk(record.domain_id));
+			if (domain) {
+				const filename = txmail_filename(record, domain);
+				const schemaPath = varsSchemaPath(templateFilePath(store, filename, '', domain.name, 'tx-template'));
+				if (fs.existsSync(schemaPath)) {
+					assertVarsSchema(record.name, readVarsSchema(schemaPath));
+				}
+			}
+		}
+
 		const pendingUserDomains: Array<{ user_id: number; domain: number }> = [];
 		if (records.user) {
 			store.print_debug('Creating user records');
@@ -160,8 +245,18 @@ export async function importData(store: mailStore, options?: { force?: boolean }
 			for (const record of records.template) {
 				const fixed = await upsert_txmail(record);
 				if (!fixed.template || options?.force) {
-					const { html, assets } = await loadTxTemplate(store, fixed);
-					await fixed.update({ template: html, files: assets });
+					const { html, assets, text, varsSchema } = await loadTxTemplate(store, fixed);
+					// A sidecar schema overrides one given inline in init-data.
+					await fixed.update({
+						template: html,
+						files: assets,
+						text_template: text ?? fixed.text_template,
+						vars_schema: varsSchema ?? fixed.vars_schema
+					});
+				}
+				const stored = await api_txmail.findByPk(fixed.template_id);
+				if (stored) {
+					await recordTemplateVersion('tx', stored, { user_id: null, source: 'import' });
 				}
 			}
 		}
@@ -170,11 +265,17 @@ export async function importData(store: mailStore, options?: { force?: boolean }
 			for (const record of records.form) {
 				const fixed = await upsert_form(record);
 				if (!fixed.template || options?.force) {
-					const { html, assets } = await loadFormTemplate(store, fixed);
-					await fixed.update({ template: html, files: assets });
+					const { html, assets, text } = await loadFormTemplate(store, fixed);
+					await fixed.update({ template: html, files: assets, text_template: text ?? fixed.text_template });
+				}
+				const stored = await api_form.findByPk(fixed.form_id);
+				if (stored) {
+					await recordTemplateVersion('form', stored, { user_id: null, source: 'import' });
 				}
 			}
 		}
+		// Records were rewritten from the config tree; start from an empty compiled-template cache.
+		store.templateCache.clear();
 		store.print_debug('Initdata upserted successfully.');
 	} else {
 		store.print_debug(`No init data file, tried ${initfile}`);
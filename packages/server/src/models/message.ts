@@ -0,0 +1,181 @@
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+export const MESSAGE_STATUSES = ['queued', 'sent', 'failed', 'cancelled', 'bounced', 'complained'] as const;
+export type MessageStatus = (typeof MESSAGE_STATUSES)[number];
+
+export const api_message_schema = z
+	.object({
+		log_id: z.number().int().nonnegative().describe('Database primary key for the message log record.'),
+		message_id: z.string().min(1).describe('Public message identifier (matches the outbox record).'),
+		user_id: z.number().int().nonnegative().describe('Owning user ID.'),
+		domain_id: z.number().int().nonnegative().describe('Owning domain ID.'),
+		kind: z.enum(['tx', 'form']).describe('Which send path produced the message.'),
+		template: z
+			.string()
+			.default('')
+			.describe('Transactional template name or form idname used to render the message.'),
+		rcpt: z.string().default('').describe('Recipient address(es) the message was addressed to.'),
+		original_rcpt: z
+			.string()
+			.default('')
+			.describe('Recipient address(es) requested by the caller when sandbox mode rewrote them.'),
+		subject: z.string().default('').describe('Rendered subject line.'),
+		status: z.enum(MESSAGE_STATUSES).default('queued').describe('Delivery status of the message.'),
+		attempts: z.number().int().nonnegative().default(0).describe('Number of delivery attempts made so far.'),
+		smtp_message_id: z.string().default('').describe('Message-ID reported by the transport after delivery.'),
+		smtp_response: z
+			.string()
+			.default('')
+			.describe('Transport response text from the most recent delivery attempt.'),
+		transport: z.string().default('').describe('Name of the transport that delivered the message.'),
+		error: z.string().default('').describe('Error text from the most recent failed delivery attempt.'),
+		send_at: z.date().nullable().default(null).describe('Requested delivery time for scheduled sends.'),
+		sent_at: z.date().nullable().default(null).describe('Time the message was accepted by the transport.')
+	})
+	.describe('Delivery history entry for a message sent through mail-magic.');
+
+export type api_message_input = z.input<typeof api_message_schema>;
+export type api_message_type = z.output<typeof api_message_schema>;
+export type api_message_creation_type = Omit<api_message_input, 'log_id'> & { log_id?: number };
+
+export class api_message extends Model<api_message_type, api_message_creation_type> {
+	declare log_id: number;
+	declare message_id: string;
+	declare user_id: number;
+	declare domain_id: number;
+	declare kind: 'tx' | 'form';
+	declare template: string;
+	declare rcpt: string;
+	declare original_rcpt: string;
+	declare subject: string;
+	declare status: MessageStatus;
+	declare attempts: number;
+	declare smtp_message_id: string;
+	declare smtp_response: string;
+	declare transport: string;
+	declare error: string;
+	declare send_at: Date | null;
+	declare sent_at: Date | null;
+	declare createdAt: Date;
+	declare updatedAt: Date;
+}
+
+export async function init_api_message(api_db: Sequelize): Promise<typeof api_message> {
+	api_message.init(
+		{
+			log_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			message_id: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			user_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'user',
+					key: 'user_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			kind: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: 'tx'
+			},
+			template: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			rcpt: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			original_rcpt: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			subject: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			status: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: 'queued'
+			},
+			attempts: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				defaultValue: 0
+			},
+			smtp_message_id: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			smtp_response: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			transport: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			error: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			send_at: {
+				type: DataTypes.DATE,
+				allowNull: true,
+				defaultValue: null
+			},
+			sent_at: {
+				type: DataTypes.DATE,
+				allowNull: true,
+				defaultValue: null
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'message',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					unique: true,
+					fields: ['message_id']
+				},
+				{
+					fields: ['domain_id', 'createdAt']
+				}
+			]
+		}
+	);
+
+	return api_message;
+}
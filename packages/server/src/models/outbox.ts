@@ -0,0 +1,181 @@
+import { nanoid } from 'nanoid';
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+import type { QueuedMail } from '../types.js';
+
+export const OUTBOX_STATUSES = ['queued', 'sending', 'sent', 'dead', 'cancelled'] as const;
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+export const api_outbox_schema = z
+	.object({
+		outbox_id: z.number().int().nonnegative().describe('Database primary key for the outbox record.'),
+		message_id: z
+			.string()
+			.min(1)
+			.default(() => nanoid())
+			.describe('Public message identifier returned to API callers (globally unique).'),
+		user_id: z.number().int().nonnegative().describe('Owning user ID.'),
+		domain_id: z.number().int().nonnegative().describe('Owning domain ID.'),
+		kind: z.enum(['tx', 'form']).describe('Which send path queued the message.'),
+		name: z.string().default('').describe('Transactional template name or form idname used to render the message.'),
+		rcpt: z.string().default('').describe('Recipient address(es) the message is addressed to.'),
+		payload: z
+			.record(z.string(), z.unknown())
+			.describe('Fully rendered message (nodemailer options) including serialized attachments.'),
+		status: z.enum(OUTBOX_STATUSES).default('queued').describe('Delivery state of the queued message.'),
+		attempts: z.number().int().nonnegative().default(0).describe('Number of delivery attempts made so far.'),
+		max_attempts: z
+			.number()
+			.int()
+			.positive()
+			.describe('Delivery attempts allowed before the message is moved to the dead-letter state.'),
+		next_attempt_at: z
+			.date()
+			.describe('Earliest time the worker may attempt (re)delivery; the requested send_at for scheduled sends.'),
+		last_error: z.string().default('').describe('Error text from the most recent failed delivery attempt.'),
+		sent_at: z.date().nullable().default(null).describe('Time the message was accepted by the transport.')
+	})
+	.describe('Outbound message queued for delivery by the outbox worker.');
+
+export type api_outbox_input = z.input<typeof api_outbox_schema>;
+export type api_outbox_type = z.output<typeof api_outbox_schema>;
+export type api_outbox_creation_type = Omit<api_outbox_input, 'outbox_id'> & { outbox_id?: number };
+
+export class api_outbox extends Model<api_outbox_type, api_outbox_creation_type> {
+	declare outbox_id: number;
+	declare message_id: string;
+	declare user_id: number;
+	declare domain_id: number;
+	declare kind: 'tx' | 'form';
+	declare name: string;
+	declare rcpt: string;
+	declare payload: QueuedMail;
+	declare status: OutboxStatus;
+	declare attempts: number;
+	declare max_attempts: number;
+	declare next_attempt_at: Date;
+	declare last_error: string;
+	declare sent_at: Date | null;
+}
+
+export async function init_api_outbox(api_db: Sequelize): Promise<typeof api_outbox> {
+	api_outbox.init(
+		{
+			outbox_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			message_id: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: () => nanoid()
+			},
+			user_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'user',
+					key: 'user_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			kind: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: 'tx'
+			},
+			name: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			rcpt: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			payload: {
+				type: DataTypes.TEXT('long'),
+				allowNull: false,
+				defaultValue: '{}',
+				get() {
+					// This column is stored as JSON text but exposed as `QueuedMail` via getter/setter.
+					const raw = this.getDataValue('payload') as unknown as string | null;
+					if (!raw) {
+						return {};
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+					} catch {
+						return {};
+					}
+				},
+				set(value: QueuedMail | null | undefined) {
+					this.setDataValue('payload', JSON.stringify(value ?? {}) as unknown as Record<string, unknown>);
+				}
+			},
+			status: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: 'queued'
+			},
+			attempts: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				defaultValue: 0
+			},
+			max_attempts: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				defaultValue: 1
+			},
+			next_attempt_at: {
+				type: DataTypes.DATE,
+				allowNull: false,
+				defaultValue: DataTypes.NOW
+			},
+			last_error: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			sent_at: {
+				type: DataTypes.DATE,
+				allowNull: true,
+				defaultValue: null
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'outbox',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					unique: true,
+					fields: ['message_id']
+				},
+				{
+					fields: ['status', 'next_attempt_at']
+				}
+			]
+		}
+	);
+
+	return api_outbox;
+}
@@ -0,0 +1,92 @@
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+export const SUPPRESSION_REASONS = ['bounce', 'complaint', 'unsubscribe', 'manual'] as const;
+export type SuppressionReason = (typeof SUPPRESSION_REASONS)[number];
+
+export const api_suppression_schema = z
+	.object({
+		suppression_id: z.number().int().nonnegative().describe('Database primary key for the suppression record.'),
+		domain_id: z.number().int().nonnegative().describe('Domain the suppression applies to.'),
+		email: z.string().email().describe('Suppressed recipient address, stored lowercased.'),
+		reason: z.enum(SUPPRESSION_REASONS).default('manual').describe('Why the address is suppressed.'),
+		category: z
+			.string()
+			.default('')
+			.describe('Mail category the entry applies to (see txmail.category); empty for all mail.'),
+		note: z.string().default('').describe('Free-form note, e.g. the bounce text or who added the entry.')
+	})
+	.describe('Recipient address that transactional sends for the domain must skip.');
+
+export type api_suppression_input = z.input<typeof api_suppression_schema>;
+export type api_suppression_type = z.output<typeof api_suppression_schema>;
+export type api_suppression_creation_type = Omit<api_suppression_input, 'suppression_id'> & {
+	suppression_id?: number;
+};
+
+export class api_suppression extends Model<api_suppression_type, api_suppression_creation_type> {
+	declare suppression_id: number;
+	declare domain_id: number;
+	declare email: string;
+	declare reason: SuppressionReason;
+	declare category: string;
+	declare note: string;
+	declare createdAt: Date;
+	declare updatedAt: Date;
+}
+
+export async function init_api_suppression(api_db: Sequelize): Promise<typeof api_suppression> {
+	api_suppression.init(
+		{
+			suppression_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			email: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			reason: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: 'manual'
+			},
+			category: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			note: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'suppression',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					unique: true,
+					fields: ['domain_id', 'email', 'category']
+				}
+			]
+		}
+	);
+
+	return api_suppression;
+}
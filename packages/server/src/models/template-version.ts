@@ -0,0 +1,194 @@
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+import { StoredFile } from '../types.js';
+
+export const TEMPLATE_VERSION_KINDS = ['tx', 'form'] as const;
+export type TemplateVersionKind = (typeof TEMPLATE_VERSION_KINDS)[number];
+
+export const TEMPLATE_VERSION_SOURCES = ['api', 'import', 'rollback', 'publish'] as const;
+export type TemplateVersionSource = (typeof TEMPLATE_VERSION_SOURCES)[number];
+
+export const template_draft_schema = z
+	.object({
+		template: z.string().describe('Nunjucks template content of the draft.'),
+		text_template: z.string().default('').describe('Plain-text template content of the draft.'),
+		subject: z.string().default('').describe('Subject of the draft.'),
+		sender: z.string().default('').describe('Sender of the draft.'),
+		files: z
+			.array(
+				z.object({
+					filename: z.string().describe('Asset filename (relative to the domain assets directory).'),
+					path: z.string().describe('Absolute path on disk where the asset is stored.'),
+					cid: z.string().optional().describe('Content-ID used for inline attachments when set.')
+				})
+			)
+			.default([])
+			.describe('Template-referenced assets of the draft.'),
+		user_id: z.number().int().nonnegative().describe('User who uploaded the draft.'),
+		updated_at: z.string().describe('ISO timestamp of the draft upload.')
+	})
+	.describe('Unpublished template content; only previews and test sends render it.');
+
+export type template_draft_type = z.output<typeof template_draft_schema>;
+
+export const api_template_version_schema = z
+	.object({
+		version_id: z.number().int().nonnegative().describe('Database primary key for the version record.'),
+		kind: z.enum(TEMPLATE_VERSION_KINDS).describe('Whether the version belongs to a tx template or a form.'),
+		record_id: z
+			.number()
+			.int()
+			.nonnegative()
+			.describe('template_id of the tx template, or form_id of the form, the version belongs to.'),
+		domain_id: z.number().int().nonnegative().describe('Owning domain ID.'),
+		version: z.number().int().positive().describe('Version number, counting from 1 for each template.'),
+		user_id: z
+			.number()
+			.int()
+			.nonnegative()
+			.nullable()
+			.default(null)
+			.describe('User whose request created the version; null for config-tree imports.'),
+		source: z
+			.enum(TEMPLATE_VERSION_SOURCES)
+			.describe(
+				'What created the version: an API upload, an import of the config tree, a rollback or a published draft.'
+			),
+		template: z.string().default('').describe('Nunjucks template content of this version.'),
+		text_template: z.string().default('').describe('Plain-text template content of this version.'),
+		subject: z.string().default('').describe('Subject of this version.'),
+		sender: z.string().default('').describe('Sender of this version.'),
+		files: z
+			.array(
+				z.object({
+					filename: z.string().describe('Asset filename (relative to the domain assets directory).'),
+					path: z.string().describe('Absolute path on disk where the asset is stored.'),
+					cid: z.string().optional().describe('Content-ID used for inline attachments when set.')
+				})
+			)
+			.default([])
+			.describe('Template-referenced assets of this version.')
+	})
+	.describe('Snapshot of a tx template or form each time its content changes.');
+
+export type api_template_version_input = z.input<typeof api_template_version_schema>;
+export type api_template_version_type = z.output<typeof api_template_version_schema>;
+export type api_template_version_creation_type = Omit<api_template_version_input, 'version_id'> & {
+	version_id?: number;
+};
+
+export class api_template_version extends Model<api_template_version_type, api_template_version_creation_type> {
+	declare version_id: number;
+	declare kind: TemplateVersionKind;
+	declare record_id: number;
+	declare domain_id: number;
+	declare version: number;
+	declare user_id: number | null;
+	declare source: TemplateVersionSource;
+	declare template: string;
+	declare text_template: string;
+	declare subject: string;
+	declare sender: string;
+	declare files: StoredFile[];
+	declare createdAt: Date;
+	declare updatedAt: Date;
+}
+
+export async function init_api_template_version(api_db: Sequelize): Promise<typeof api_template_version> {
+	api_template_version.init(
+		{
+			version_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			kind: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			record_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			version: {
+				type: DataTypes.INTEGER,
+				allowNull: false
+			},
+			user_id: {
+				type: DataTypes.INTEGER,
+				allowNull: true,
+				defaultValue: null
+			},
+			source: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			template: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			text_template: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			subject: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			sender: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			files: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: '[]',
+				get() {
+					const raw = this.getDataValue('files') as unknown as string | null;
+					if (!raw) {
+						return [];
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return Array.isArray(parsed) ? (parsed as StoredFile[]) : [];
+					} catch {
+						return [];
+					}
+				},
+				set(value: StoredFile[] | null | undefined) {
+					this.setDataValue('files', JSON.stringify(value ?? []) as unknown as StoredFile[]);
+				}
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'template_version',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					unique: true,
+					fields: ['kind', 'record_id', 'version']
+				}
+			]
+		}
+	);
+
+	return api_template_version;
+}
@@ -7,6 +7,10 @@ import { StoredFile } from '../types.js';
 import { assertSafeRelativePath } from '../util/paths.js';
 import { user_and_domain, normalizeSlug } from '../util.js';
 
+import { template_draft_schema } from './template-version.js';
+
+import type { template_draft_type } from './template-version.js';
+
 export const api_txmail_schema = z
 	.object({
 		template_id: z.number().int().nonnegative().describe('Database primary key for the template record.'),
@@ -15,9 +19,30 @@ export const api_txmail_schema = z
 		name: z.string().min(1).describe('Template name within the domain.'),
 		locale: z.string().default('').describe('Locale for this template configuration.'),
 		template: z.string().default('').describe('Nunjucks template content used for rendering.'),
+		text_template: z
+			.string()
+			.default('')
+			.describe(
+				'Optional Nunjucks template for the plain-text part (from the .txt.njk companion file); when empty the text part is converted from the HTML.'
+			),
 		filename: z.string().default('').describe('Relative path of the source .njk template file.'),
 		sender: z.string().min(1).describe('Email From header used when delivering this template.'),
 		subject: z.string().describe('Email subject used when delivering this template.'),
+		bcc: z
+			.string()
+			.default('')
+			.describe('Default Bcc address(es), comma-separated, added to every send of this template.'),
+		category: z
+			.string()
+			.default('')
+			.describe(
+				'Mailing category for unsubscribe handling. When set, sends carry List-Unsubscribe headers and skip recipients who opted out of it.'
+			),
+		track: z
+			.boolean()
+			.nullable()
+			.default(null)
+			.describe('Open/click tracking for sends of this template; null follows the domain setting.'),
 		slug: z.string().default('').describe('Generated slug for this template record (domain + locale + name).'),
 		part: z.boolean().default(false).describe('If true, template is a partial (not a standalone send).'),
 		files: z
@@ -29,7 +54,18 @@ export const api_txmail_schema = z
 				})
 			)
 			.default([])
-			.describe('Derived list of template-referenced assets resolved during preprocessing/import.')
+			.describe('Derived list of template-referenced assets resolved during preprocessing/import.'),
+		vars_schema: z
+			.record(z.string(), z.unknown())
+			.nullable()
+			.default(null)
+			.describe(
+				'JSON Schema that the vars of every send must match (from init-data or the .vars.json sidecar); null accepts any vars.'
+			),
+		draft: template_draft_schema
+			.nullable()
+			.default(null)
+			.describe('Draft awaiting publish; sends keep using the published fields above.')
 	})
 	.describe('Transactional email template configuration.');
 
@@ -44,15 +80,47 @@ export class api_txmail extends Model<api_txmail_type, api_txmail_creation_type>
 	declare name: string;
 	declare locale: string;
 	declare template: string;
+	declare text_template: string;
 	declare filename: string;
 	declare sender: string;
 	declare subject: string;
+	declare bcc: string;
+	declare category: string;
+	declare track: boolean | null;
 	declare slug: string;
 	declare part: boolean;
 	declare files: StoredFile[];
+	declare vars_schema: Record<string, unknown> | null;
+	declare draft: template_draft_type | null;
+	declare updatedAt: Date;
+}
+
+/**
+ * Config-relative path of a template's source file (`<domain>/tx-template/[<locale>/]<name>.njk`), as
+ * upsert_txmail stores it. A `filename` given in the record is taken relative to the tx-template dir.
+ */
+export function txmail_filename(
+	record: Pick<api_txmail_type, 'name' | 'locale' | 'filename'>,
+	domain: { name: string; locale?: string | null }
+): string {
+	const dname = normalizeSlug(domain.name);
+	let filename: string;
+	if (!record.filename) {
+		const parts = [dname, 'tx-template'];
+		const locale = normalizeSlug(record.locale || domain.locale || '');
+		if (locale) parts.push(locale);
+		parts.push(normalizeSlug(record.name));
+		filename = path.join(...parts);
+	} else {
+		filename = path.join(dname, 'tx-template', record.filename);
+	}
+	if (!filename.endsWith('.njk')) {
+		filename += '.njk';
+	}
+	return assertSafeRelativePath(filename, 'Template filename');
 }
 
-export async function upsert_txmail(record: api_txmail_type): Promise<api_txmail> {
+export async function upsert_txmail(record: Omit<api_txmail_type, 'draft'>): Promise<api_txmail> {
 	const { domain } = await user_and_domain(record.domain_id);
 
 	const dname = normalizeSlug(domain.name);
@@ -63,18 +131,8 @@ export async function upsert_txmail(record: api_txmail_type): Promise<api_txmail
 		record.slug = `${dname}${locale ? '-' + locale : ''}-${name}`;
 	}
 
-	if (!record.filename) {
-		const parts = [dname, 'tx-template'];
-		if (locale) parts.push(locale);
-		parts.push(name);
-		record.filename = path.join(...parts);
-	} else {
-		record.filename = path.join(dname, 'tx-template', record.filename);
-	}
-	if (!record.filename.endsWith('.njk')) {
-		record.filename += '.njk';
-	}
-	record.filename = assertSafeRelativePath(record.filename, 'Template filename');
+	record.filename = txmail_filename(record, domain);
+	record.category = normalizeSlug(record.category ?? '');
 
 	const [instance] = await api_txmail.upsert(record);
 	return instance;
@@ -127,6 +185,11 @@ export async function init_api_txmail(api_db: Sequelize): Promise<typeof api_txm
 				allowNull: false,
 				defaultValue: ''
 			},
+			text_template: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
 			filename: {
 				type: DataTypes.STRING,
 				allowNull: false,
@@ -141,6 +204,21 @@ export async function init_api_txmail(api_db: Sequelize): Promise<typeof api_txm
 				allowNull: false,
 				defaultValue: ''
 			},
+			bcc: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			category: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			track: {
+				type: DataTypes.BOOLEAN,
+				allowNull: true,
+				defaultValue: null
+			},
 			slug: {
 				type: DataTypes.STRING,
 				allowNull: false,
@@ -170,6 +248,52 @@ export async function init_api_txmail(api_db: Sequelize): Promise<typeof api_txm
 				set(value: StoredFile[] | null | undefined) {
 					this.setDataValue('files', JSON.stringify(value ?? []) as unknown as StoredFile[]);
 				}
+			},
+			vars_schema: {
+				type: DataTypes.TEXT,
+				allowNull: true,
+				defaultValue: null,
+				get() {
+					const raw = this.getDataValue('vars_schema') as unknown as string | null;
+					if (!raw) {
+						return null;
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+					} catch {
+						return null;
+					}
+				},
+				set(value: Record<string, unknown> | null | undefined) {
+					this.setDataValue(
+						'vars_schema',
+						(value ? JSON.stringify(value) : null) as unknown as Record<string, unknown> | null
+					);
+				}
+			},
+			draft: {
+				type: DataTypes.TEXT,
+				allowNull: true,
+				defaultValue: null,
+				get() {
+					const raw = this.getDataValue('draft') as unknown as string | null;
+					if (!raw) {
+						return null;
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+					} catch {
+						return null;
+					}
+				},
+				set(value: template_draft_type | null | undefined) {
+					this.setDataValue(
+						'draft',
+						(value ? JSON.stringify(value) : null) as unknown as template_draft_type | null
+					);
+				}
 			}
 		},
 		{
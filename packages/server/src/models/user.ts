@@ -3,6 +3,22 @@ import { createHmac } from 'node:crypto';
 import { Sequelize, Model, DataTypes, Op } from 'sequelize';
 import { z } from 'zod';
 
+export const user_sandbox_schema = z
+	.object({
+		catch_all: z
+			.string()
+			.email()
+			.optional()
+			.describe('Address that receives mail for recipients outside allow_domains.'),
+		allow_domains: z
+			.array(z.string().min(1))
+			.default([])
+			.describe('Recipient domains that are delivered to unchanged.')
+	})
+	.describe('Sandbox mode: mail from the user only reaches allowed domains or the catch-all address.');
+
+export type user_sandbox_type = z.output<typeof user_sandbox_schema>;
+
 export const api_user_schema = z
 	.object({
 		user_id: z.number().int().nonnegative().describe('Database primary key for the user record.'),
@@ -12,7 +28,11 @@ export const api_user_schema = z
 		name: z.string().min(1).describe('Display name for the user.'),
 		email: z.string().email().describe('User email address.'),
 		domain: z.number().int().nonnegative().nullable().optional().describe('Default domain ID for the user.'),
-		locale: z.string().default('').describe('Reserved. Locale resolution uses the domain locale.')
+		locale: z.string().default('').describe('Reserved. Locale resolution uses the domain locale.'),
+		sandbox: user_sandbox_schema
+			.nullable()
+			.default(null)
+			.describe('Sandbox settings; when set, recipients are rewritten before mail is queued.')
 	})
 	.describe('User account record and API credentials.');
 
@@ -29,6 +49,7 @@ export class api_user extends Model<api_user_type, api_user_creation_type> {
 	declare email: string;
 	declare domain: number | null | undefined;
 	declare locale: string;
+	declare sandbox: user_sandbox_type | null;
 }
 
 export function apiTokenToHmac(token: string, pepper: string): string {
@@ -109,6 +130,29 @@ export async function init_api_user(api_db: Sequelize): Promise<typeof api_user>
 				type: DataTypes.STRING,
 				allowNull: false,
 				defaultValue: ''
+			},
+			sandbox: {
+				type: DataTypes.TEXT,
+				allowNull: true,
+				defaultValue: null,
+				get() {
+					const raw = this.getDataValue('sandbox') as unknown as string | null;
+					if (!raw) {
+						return null;
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+					} catch {
+						return null;
+					}
+				},
+				set(value: user_sandbox_type | null | undefined) {
+					this.setDataValue(
+						'sandbox',
+						(value ? JSON.stringify(value) : null) as unknown as user_sandbox_type | null
+					);
+				}
 			}
 		},
 		{
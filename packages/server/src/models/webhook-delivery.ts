@@ -0,0 +1,183 @@
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+import { WEBHOOK_EVENTS } from './webhook.js';
+
+import type { WebhookEventType } from './webhook.js';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['queued', 'sending', 'delivered', 'failed'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export type WebhookPayload = {
+	id: string;
+	type: WebhookEventType;
+	created_at: string;
+	domain: string;
+	data: Record<string, unknown>;
+};
+
+export const api_webhook_delivery_schema = z
+	.object({
+		delivery_id: z.number().int().nonnegative().describe('Database primary key for the delivery record.'),
+		webhook_id: z.number().int().nonnegative().describe('Webhook the event is delivered to.'),
+		domain_id: z.number().int().nonnegative().describe('Owning domain ID.'),
+		event_id: z
+			.string()
+			.min(1)
+			.describe('Event identifier sent as `id`; the same for every webhook notified of one event.'),
+		type: z.enum(WEBHOOK_EVENTS).describe('Event type.'),
+		payload: z.record(z.string(), z.unknown()).describe('JSON body POSTed to the webhook URL.'),
+		status: z.enum(WEBHOOK_DELIVERY_STATUSES).default('queued').describe('Delivery state.'),
+		attempts: z.number().int().nonnegative().default(0).describe('Number of delivery attempts made so far.'),
+		max_attempts: z.number().int().positive().describe('Attempts allowed before the delivery is marked failed.'),
+		next_attempt_at: z.date().describe('Earliest time the worker may attempt (re)delivery.'),
+		response_code: z.number().int().nonnegative().default(0).describe('HTTP status of the last attempt (0: none).'),
+		response_body: z.string().default('').describe('Start of the response body of the last attempt.'),
+		last_error: z.string().default('').describe('Error text from the most recent failed attempt.'),
+		delivered_at: z.date().nullable().default(null).describe('Time the endpoint accepted the event.')
+	})
+	.describe('One event queued for, and logged against, one webhook.');
+
+export type api_webhook_delivery_input = z.input<typeof api_webhook_delivery_schema>;
+export type api_webhook_delivery_type = z.output<typeof api_webhook_delivery_schema>;
+export type api_webhook_delivery_creation_type = Omit<api_webhook_delivery_input, 'delivery_id'> & {
+	delivery_id?: number;
+};
+
+export class api_webhook_delivery extends Model<api_webhook_delivery_type, api_webhook_delivery_creation_type> {
+	declare delivery_id: number;
+	declare webhook_id: number;
+	declare domain_id: number;
+	declare event_id: string;
+	declare type: WebhookEventType;
+	declare payload: WebhookPayload;
+	declare status: WebhookDeliveryStatus;
+	declare attempts: number;
+	declare max_attempts: number;
+	declare next_attempt_at: Date;
+	declare response_code: number;
+	declare response_body: string;
+	declare last_error: string;
+	declare delivered_at: Date | null;
+	declare createdAt: Date;
+	declare updatedAt: Date;
+}
+
+export async function init_api_webhook_delivery(api_db: Sequelize): Promise<typeof api_webhook_delivery> {
+	api_webhook_delivery.init(
+		{
+			delivery_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			webhook_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'webhook',
+					key: 'webhook_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			event_id: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			type: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			payload: {
+				type: DataTypes.TEXT('long'),
+				allowNull: false,
+				defaultValue: '{}',
+				get() {
+					// This column is stored as JSON text but exposed as `WebhookPayload` via getter/setter.
+					const raw = this.getDataValue('payload') as unknown as string | null;
+					if (!raw) {
+						return {};
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+					} catch {
+						return {};
+					}
+				},
+				set(value: WebhookPayload | null | undefined) {
+					this.setDataValue('payload', JSON.stringify(value ?? {}) as unknown as Record<string, unknown>);
+				}
+			},
+			status: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: 'queued'
+			},
+			attempts: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				defaultValue: 0
+			},
+			max_attempts: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				defaultValue: 1
+			},
+			next_attempt_at: {
+				type: DataTypes.DATE,
+				allowNull: false,
+				defaultValue: DataTypes.NOW
+			},
+			response_code: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				defaultValue: 0
+			},
+			response_body: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			last_error: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: ''
+			},
+			delivered_at: {
+				type: DataTypes.DATE,
+				allowNull: true,
+				defaultValue: null
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'webhook_delivery',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					unique: true,
+					fields: ['webhook_id', 'event_id']
+				},
+				{
+					fields: ['status', 'next_attempt_at']
+				}
+			]
+		}
+	);
+
+	return api_webhook_delivery;
+}
@@ -0,0 +1,114 @@
+import { Sequelize, Model, DataTypes } from 'sequelize';
+import { z } from 'zod';
+
+export const WEBHOOK_EVENTS = [
+	'message.sent',
+	'message.failed',
+	'message.bounced',
+	'message.complained',
+	'form.submitted'
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export const api_webhook_schema = z
+	.object({
+		webhook_id: z.number().int().nonnegative().describe('Database primary key for the webhook record.'),
+		domain_id: z.number().int().nonnegative().describe('Domain whose events are sent to the webhook.'),
+		url: z.string().url().describe('http(s) endpoint the signed JSON payloads are POSTed to.'),
+		events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).describe('Event types the webhook is subscribed to.'),
+		secret: z.string().min(1).describe('Shared secret used to sign payloads (X-Mail-Magic-Signature).'),
+		description: z.string().default('').describe('Free-form label, e.g. the receiving system.'),
+		enabled: z.boolean().default(true).describe('Disabled webhooks receive no new events.')
+	})
+	.describe('Per-domain subscription to outbound event notifications.');
+
+export type api_webhook_input = z.input<typeof api_webhook_schema>;
+export type api_webhook_type = z.output<typeof api_webhook_schema>;
+export type api_webhook_creation_type = Omit<api_webhook_input, 'webhook_id'> & { webhook_id?: number };
+
+export class api_webhook extends Model<api_webhook_type, api_webhook_creation_type> {
+	declare webhook_id: number;
+	declare domain_id: number;
+	declare url: string;
+	declare events: WebhookEventType[];
+	declare secret: string;
+	declare description: string;
+	declare enabled: boolean;
+	declare createdAt: Date;
+	declare updatedAt: Date;
+}
+
+export async function init_api_webhook(api_db: Sequelize): Promise<typeof api_webhook> {
+	api_webhook.init(
+		{
+			webhook_id: {
+				type: DataTypes.INTEGER,
+				autoIncrement: true,
+				allowNull: false,
+				primaryKey: true
+			},
+			domain_id: {
+				type: DataTypes.INTEGER,
+				allowNull: false,
+				references: {
+					model: 'domain',
+					key: 'domain_id'
+				},
+				onDelete: 'CASCADE',
+				onUpdate: 'CASCADE'
+			},
+			url: {
+				type: DataTypes.TEXT,
+				allowNull: false
+			},
+			events: {
+				type: DataTypes.TEXT,
+				allowNull: false,
+				defaultValue: '[]',
+				get() {
+					// Stored as JSON text; malformed values read as "no events".
+					const raw = this.getDataValue('events') as unknown as string | null;
+					if (!raw) {
+						return [];
+					}
+					try {
+						const parsed = JSON.parse(raw) as unknown;
+						return Array.isArray(parsed) ? parsed : [];
+					} catch {
+						return [];
+					}
+				},
+				set(value: WebhookEventType[] | null | undefined) {
+					this.setDataValue('events', JSON.stringify(value ?? []) as unknown as WebhookEventType[]);
+				}
+			},
+			secret: {
+				type: DataTypes.STRING,
+				allowNull: false
+			},
+			description: {
+				type: DataTypes.STRING,
+				allowNull: false,
+				defaultValue: ''
+			},
+			enabled: {
+				type: DataTypes.BOOLEAN,
+				allowNull: false,
+				defaultValue: true
+			}
+		},
+		{
+			sequelize: api_db,
+			tableName: 'webhook',
+			charset: 'utf8mb4',
+			collate: 'utf8mb4_unicode_ci',
+			indexes: [
+				{
+					fields: ['domain_id']
+				}
+			]
+		}
+	);
+
+	return api_webhook;
+}
@@ -0,0 +1,94 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { createTransport } from 'nodemailer';
+
+import { buildMailPreview } from '../util/preview.js';
+
+import type { OutboxDeliveryInfo } from './outbox.js';
+import type { MailPreview, QueuedMail } from '../types.js';
+import type { SendMailOptions, Transporter } from 'nodemailer';
+import type StreamTransport from 'nodemailer/lib/stream-transport';
+
+export type CaptureMode = 'file' | 'memory';
+
+/** A message taken by MAIL_TRANSPORT=file|memory instead of being handed to an SMTP server. */
+export type CapturedMail = MailPreview & {
+	/** Outbox/message log id, when the message came through the outbox. */
+	message_id: string;
+	domain_id: number | null;
+	captured_at: string;
+	/** Message-ID header of the generated message. */
+	smtp_message_id: string;
+	envelope: { from: string; to: string[] };
+	/** Full RFC 822 source, including any DKIM signature (memory mode only; file mode writes it as .eml). */
+	raw?: string;
+};
+
+/**
+ * Generates complete messages with nodemailer's stream transport (so DKIM signing and MIME encoding
+ * match a real send) and keeps them instead of delivering them: `file` writes `<id>.eml` plus a
+ * `<id>.json` metadata file into `dir`, `memory` keeps the newest `max` messages in a ring buffer.
+ */
+export class MailCapture {
+	private transport: Transporter<StreamTransport.SentMessageInfo>;
+	private entries: CapturedMail[] = [];
+
+	constructor(
+		readonly mode: CaptureMode,
+		private options: { dir: string; max: number }
+	) {
+		this.transport = createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+	}
+
+	async send(
+		mail: QueuedMail,
+		message: SendMailOptions,
+		meta: { message_id?: string; domain_id?: number }
+	): Promise<OutboxDeliveryInfo> {
+		const info = await this.transport.sendMail(message);
+		const raw = (info.message as Buffer).toString('utf8');
+		const entry: CapturedMail = {
+			message_id: meta.message_id || randomUUID(),
+			domain_id: meta.domain_id ?? null,
+			captured_at: new Date().toISOString(),
+			smtp_message_id: info.messageId,
+			envelope: {
+				from: String(info.envelope.from || ''),
+				to: info.envelope.to
+			},
+			...buildMailPreview(mail)
+		};
+
+		if (this.mode === 'file') {
+			fs.mkdirSync(this.options.dir, { recursive: true });
+			const base = path.join(this.options.dir, entry.message_id);
+			fs.writeFileSync(`${base}.eml`, raw);
+			fs.writeFileSync(`${base}.json`, JSON.stringify(entry, null, 2));
+		} else {
+			this.entries.push({ ...entry, raw });
+			const overflow = this.entries.length - Math.max(1, this.options.max);
+			if (overflow > 0) {
+				this.entries.splice(0, overflow);
+			}
+		}
+		return { messageId: info.messageId, response: `250 captured (${this.mode})`, transport: this.mode };
+	}
+
+	/** Captured messages, newest first. Only populated in memory mode. */
+	list(filter: { domain_id?: number; rcpt?: string } = {}): CapturedMail[] {
+		const rcpt = filter.rcpt?.toLowerCase();
+		return this.entries
+			.filter((entry) => filter.domain_id === undefined || entry.domain_id === filter.domain_id)
+			.filter((entry) => !rcpt || entry.envelope.to.some((address) => address.toLowerCase() === rcpt))
+			.reverse();
+	}
+
+	/** Drop captured messages (for one domain, or all); returns how many were removed. */
+	clear(domain_id?: number): number {
+		const before = this.entries.length;
+		this.entries = this.entries.filter((entry) => domain_id !== undefined && entry.domain_id !== domain_id);
+		return before - this.entries.length;
+	}
+}
@@ -100,6 +100,26 @@ export const envOptions = defineEnvOptions({
 		default: true,
 		type: 'boolean'
 	},
+	TEMPLATE_CACHE_MAX: {
+		description: 'Number of compiled templates kept in memory (least recently used are dropped first; 0 disables)',
+		default: 500,
+		type: 'number'
+	},
+	MAIL_TRANSPORT: {
+		description:
+			'How mail leaves the server: smtp delivers via SMTP_HOST; file writes .eml + JSON per message to MAIL_CAPTURE_PATH; memory keeps recent messages for GET /v1/debug/outbox',
+		options: ['smtp', 'file', 'memory'],
+		default: 'smtp'
+	},
+	MAIL_CAPTURE_PATH: {
+		description: 'Directory for captured messages when MAIL_TRANSPORT=file',
+		default: './mail-capture'
+	},
+	MAIL_CAPTURE_MAX: {
+		description: 'Number of messages kept in memory when MAIL_TRANSPORT=memory (oldest are dropped first)',
+		default: 100,
+		type: 'number'
+	},
 	SMTP_HOST: {
 		description: 'Hostname of SMTP sending host',
 		default: 'localhost'
@@ -133,6 +153,73 @@ export const envOptions = defineEnvOptions({
 		description: 'Password for SMTP host',
 		default: ''
 	},
+	SMTP_FAILOVER_URLS: {
+		description:
+			'Comma-separated SMTP connection URLs (smtp[s]://user:pass@host:port) tried in order when SMTP_HOST fails',
+		default: ''
+	},
+	SMTP_BREAKER_THRESHOLD: {
+		description:
+			'Consecutive failures after which a transport is skipped for SMTP_BREAKER_COOLDOWN_MS (0 disables)',
+		default: 3,
+		type: 'number'
+	},
+	SMTP_BREAKER_COOLDOWN_MS: {
+		description: 'How long a tripped transport is skipped before one trial send is allowed again',
+		default: 60000,
+		type: 'number'
+	},
+	OUTBOX_MAX_ATTEMPTS: {
+		description: 'Delivery attempts per queued message before it is moved to the dead-letter state',
+		default: 5,
+		type: 'number'
+	},
+	OUTBOX_RETRY_BASE_MS: {
+		description: 'Initial retry delay in milliseconds after a failed delivery; doubles on each attempt',
+		default: 30000,
+		type: 'number'
+	},
+	OUTBOX_RETRY_MAX_MS: {
+		description: 'Upper bound in milliseconds for the exponential retry delay',
+		default: 3600000,
+		type: 'number'
+	},
+	OUTBOX_POLL_MS: {
+		description: 'How often in milliseconds the outbox worker checks for due messages',
+		default: 1000,
+		type: 'number'
+	},
+	WEBHOOK_MAX_ATTEMPTS: {
+		description: 'Delivery attempts per webhook event before it is marked failed',
+		default: 8,
+		type: 'number'
+	},
+	WEBHOOK_RETRY_BASE_MS: {
+		description: 'Initial retry delay in milliseconds after a failed webhook delivery; doubles on each attempt',
+		default: 30000,
+		type: 'number'
+	},
+	WEBHOOK_RETRY_MAX_MS: {
+		description: 'Upper bound in milliseconds for the webhook retry delay',
+		default: 3600000,
+		type: 'number'
+	},
+	WEBHOOK_TIMEOUT_MS: {
+		description: 'How long in milliseconds a webhook endpoint may take to answer before the attempt fails',
+		default: 10000,
+		type: 'number'
+	},
+	IDEMPOTENCY_WINDOW_SEC: {
+		description:
+			'How long (seconds) an Idempotency-Key on /v1/tx/message replays the original response (0 disables)',
+		default: 86400,
+		type: 'number'
+	},
+	TX_BATCH_MAX: {
+		description: 'Maximum number of entries accepted by /v1/tx/batch (0 for no limit)',
+		default: 1000,
+		type: 'number'
+	},
 	UPLOAD_PATH: {
 		description: 'Path for attached files. Use {domain} to scope per domain.',
 		default: './{domain}/uploads'
@@ -187,5 +274,15 @@ export const envOptions = defineEnvOptions({
 			}
 			return value;
 		}
+	},
+	BOUNCE_VERP_ADDRESS: {
+		description:
+			'Bounce mailbox used as a VERP envelope sender (bounces@example.com sends as bounces+<message_id>@example.com); empty keeps the From address',
+		default: ''
+	},
+	UNSUBSCRIBE_SECRET: {
+		description:
+			'Secret used to sign unsubscribe links (derived from API_TOKEN_PEPPER when empty). Changing it invalidates links in mail already sent.',
+		default: ''
 	}
 });
@@ -0,0 +1,225 @@
+import { Op } from 'sequelize';
+
+import { api_message } from '../models/message.js';
+import { api_outbox } from '../models/outbox.js';
+
+import type { QueuedMail } from '../types.js';
+
+export type OutboxDeliveryInfo = {
+	messageId?: string;
+	response?: string;
+	/** Name of the transport that accepted the message. */
+	transport?: string;
+};
+
+export type OutboxAttemptResult = {
+	status: 'sent' | 'queued' | 'dead';
+	response?: string;
+	transport?: string;
+	error?: string;
+};
+
+type OutboxContext = {
+	vars: {
+		OUTBOX_POLL_MS: number;
+		OUTBOX_RETRY_BASE_MS: number;
+		OUTBOX_RETRY_MAX_MS: number;
+	};
+	deliver: (mail: QueuedMail, record: api_outbox) => Promise<OutboxDeliveryInfo>;
+	// Called once a message reaches a final state (webhook events).
+	notify?: (record: api_outbox, status: 'sent' | 'dead') => Promise<void>;
+	print_debug: (msg: string) => void;
+};
+
+const OUTBOX_BATCH_SIZE = 20;
+
+/**
+ * Delay before the next attempt after `attempt` failed attempts: base * 2^(attempt - 1), capped at max.
+ */
+export function outboxRetryDelay(attempt: number, baseMs: number, maxMs: number): number {
+	const exponent = Math.max(0, attempt - 1);
+	const delay = Math.max(0, baseMs) * Math.pow(2, exponent);
+	return Math.min(delay, Math.max(0, maxMs));
+}
+
+/**
+ * SMTP 5xx replies are permanent rejections; retrying them only delays the dead-letter state.
+ * Connection errors, timeouts and 4xx replies are treated as transient.
+ */
+export function isPermanentSendError(err: unknown): boolean {
+	const code = (err as { responseCode?: unknown } | null)?.responseCode;
+	return typeof code === 'number' && code >= 500 && code < 600;
+}
+
+export class OutboxWorker {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running: Promise<void> | null = null;
+	private rerun = false;
+	private stopped = true;
+
+	constructor(private ctx: OutboxContext) {}
+
+	/**
+	 * Requeue rows left in `sending` by an interrupted process and start polling for due messages.
+	 */
+	async start(): Promise<void> {
+		if (!this.stopped) {
+			return;
+		}
+		this.stopped = false;
+		const [reset] = await api_outbox.update({ status: 'queued' }, { where: { status: 'sending' } });
+		if (reset) {
+			this.ctx.print_debug(`Requeued ${reset} outbox message(s) interrupted while sending`);
+		}
+		const pollMs = Math.max(50, this.ctx.vars.OUTBOX_POLL_MS);
+		this.timer = setInterval(() => this.kick(), pollMs);
+		this.timer.unref?.();
+		this.kick();
+	}
+
+	/**
+	 * Stop polling and wait for an in-flight run to finish.
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.rerun = false;
+		await this.running;
+	}
+
+	/**
+	 * Process due messages now. If a run is already in progress another one is queued (at most one)
+	 * so messages enqueued mid-run are not left waiting for the next poll.
+	 */
+	kick(): void {
+		if (this.stopped) {
+			return;
+		}
+		if (this.running) {
+			this.rerun = true;
+			return;
+		}
+		this.running = this.processDue()
+			.then(() => undefined)
+			.catch((err) => this.ctx.print_debug(`Outbox run failed: ${err}`))
+			.finally(() => {
+				this.running = null;
+				if (this.rerun) {
+					this.rerun = false;
+					this.kick();
+				}
+			});
+	}
+
+	/**
+	 * Make the first delivery attempt for a freshly queued row right away and report the outcome.
+	 * Returns null when the row was already claimed elsewhere (or the worker is stopped); it is then
+	 * delivered by the regular poll.
+	 */
+	async deliverNow(record: api_outbox): Promise<OutboxAttemptResult | null> {
+		if (this.stopped) {
+			return null;
+		}
+		const [claimed] = await api_outbox.update(
+			{ status: 'sending' },
+			{ where: { outbox_id: record.outbox_id, status: 'queued' } }
+		);
+		if (!claimed) {
+			return null;
+		}
+		return this.attempt(record);
+	}
+
+	async processDue(): Promise<number> {
+		let processed = 0;
+		for (;;) {
+			const due = await api_outbox.findAll({
+				where: { status: 'queued', next_attempt_at: { [Op.lte]: new Date() } },
+				order: [
+					['next_attempt_at', 'ASC'],
+					['outbox_id', 'ASC']
+				],
+				limit: OUTBOX_BATCH_SIZE
+			});
+			if (due.length === 0 || this.stopped) {
+				return processed;
+			}
+			for (const record of due) {
+				if (this.stopped) {
+					return processed;
+				}
+				// Claim the row; skip it if another run got to it first.
+				const [claimed] = await api_outbox.update(
+					{ status: 'sending' },
+					{ where: { outbox_id: record.outbox_id, status: 'queued' } }
+				);
+				if (!claimed) {
+					continue;
+				}
+				await this.attempt(record);
+				processed += 1;
+			}
+		}
+	}
+
+	private async attempt(record: api_outbox): Promise<OutboxAttemptResult> {
+		const attempts = record.attempts + 1;
+		try {
+			const info = await this.ctx.deliver(record.payload, record);
+			const sent_at = new Date();
+			await record.update({ status: 'sent', attempts, sent_at, last_error: '' });
+			await api_message.update(
+				{
+					status: 'sent',
+					attempts,
+					sent_at,
+					smtp_message_id: info.messageId ?? '',
+					smtp_response: info.response ?? '',
+					transport: info.transport ?? '',
+					error: ''
+				},
+				{ where: { message_id: record.message_id } }
+			);
+			this.ctx.print_debug(`Outbox message ${record.message_id} sent: ${info.response ?? ''}`);
+			await this.ctx.notify?.(record, 'sent');
+			return { status: 'sent', response: info.response ?? '', transport: info.transport ?? '' };
+		} catch (err: unknown) {
+			const message = err instanceof Error ? err.message : String(err);
+			const rawResponse = (err as { response?: unknown } | null)?.response;
+			const response = typeof rawResponse === 'string' ? rawResponse : '';
+			const dead = isPermanentSendError(err) || attempts >= record.max_attempts;
+			if (dead) {
+				await record.update({ status: 'dead', attempts, last_error: message });
+				await api_message.update(
+					{ status: 'failed', attempts, error: message, smtp_response: response },
+					{ where: { message_id: record.message_id } }
+				);
+				this.ctx.print_debug(`Outbox message ${record.message_id} moved to dead-letter: ${message}`);
+				await this.ctx.notify?.(record, 'dead');
+				return { status: 'dead', response, error: message };
+			}
+			const delay = outboxRetryDelay(
+				attempts,
+				this.ctx.vars.OUTBOX_RETRY_BASE_MS,
+				this.ctx.vars.OUTBOX_RETRY_MAX_MS
+			);
+			// The claim was a static update, so the instance still reads 'queued' and record.update()
+			// would skip the status column; write by id instead.
+			await api_outbox.update(
+				{ status: 'queued', attempts, last_error: message, next_attempt_at: new Date(Date.now() + delay) },
+				{ where: { outbox_id: record.outbox_id } }
+			);
+			await api_message.update(
+				{ attempts, error: message, smtp_response: response },
+				{ where: { message_id: record.message_id } }
+			);
+			this.ctx.print_debug(
+				`Outbox message ${record.message_id} failed (attempt ${attempts}); retry in ${delay}ms`
+			);
+			return { status: 'queued', response, error: message };
+		}
+	}
+}
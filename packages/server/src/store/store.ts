@@ -3,14 +3,36 @@ import path from 'path';
 
 import { EnvLoader, envConfig } from '@technomoron/env-loader';
 import { watch as chokidarWatch } from 'chokidar';
+import { nanoid } from 'nanoid';
 import { createTransport, Transporter } from 'nodemailer';
 import { Sequelize } from 'sequelize';
 
 import { connect_api_db } from '../models/db.js';
+import { api_domain } from '../models/domain.js';
 import { importData } from '../models/init.js';
+import { api_message } from '../models/message.js';
+import { api_outbox } from '../models/outbox.js';
+import { api_user } from '../models/user.js';
+import { verpAddress } from '../util/bounce.js';
+import { DkimKeyCache } from '../util/dkim.js';
+import { applySandbox } from '../util/sandbox.js';
+import { messageEventData, queueWebhookEvent } from '../util/webhooks.js';
 
+import { CaptureMode, MailCapture } from './capture.js';
 import { envOptions } from './envloader.js';
+import { OutboxDeliveryInfo, OutboxWorker } from './outbox.js';
+import { TemplateCache } from './template-cache.js';
+import {
+	CircuitBreaker,
+	createFailoverTransports,
+	DomainTransportCache,
+	NamedTransport,
+	sendWithFailover
+} from './transport.js';
+import { WebhookWorker } from './webhooks.js';
 
+import type { WebhookEventType } from '../models/webhook.js';
+import type { QueuedMail } from '../types.js';
 import type SMTPTransport from 'nodemailer/lib/smtp-transport';
 
 type UploadedFile = {
@@ -31,6 +53,22 @@ type AutoReloadContext = {
 	print_debug: (msg: string) => void;
 };
 
+function addressList(value: QueuedMail['to'] | undefined): string {
+	const list = Array.isArray(value) ? value : value ? [value] : [];
+	return list.map((entry) => (typeof entry === 'string' ? entry : entry.address)).join(', ');
+}
+
+// SMTP envelope for a VERP send. Nodemailer takes the recipients from the envelope once one is set,
+// so they are carried over from the message.
+function verpEnvelope(mail: QueuedMail, base: string, message_id: string) {
+	return {
+		from: verpAddress(base, message_id),
+		to: addressList(mail.to),
+		cc: addressList(mail.cc),
+		bcc: addressList(mail.bcc)
+	};
+}
+
 function create_mail_transport(vars: MailStoreVars): Transporter {
 	const args: SMTPTransport.Options = {
 		host: vars.SMTP_HOST,
@@ -135,11 +173,19 @@ export class mailStore {
 	private env!: envConfig<typeof envOptions>;
 	vars!: MailStoreVars;
 	transport?: Transporter<SMTPTransport.SentMessageInfo>;
+	failoverTransports: NamedTransport[] = [];
+	domainTransports: DomainTransportCache | null = null;
+	breaker = new CircuitBreaker(0, 0);
+	dkimKeys: DkimKeyCache | null = null;
+	templateCache = new TemplateCache(0);
+	capture: MailCapture | null = null;
 	api_db: Sequelize | null = null;
 	configpath = '';
 	uploadTemplate?: string;
 	uploadStagingPath?: string;
 	autoReloadHandle: AutoReloadHandle | null = null;
+	outboxWorker: OutboxWorker | null = null;
+	webhookWorker: WebhookWorker | null = null;
 	private reloadInProgress = false;
 	private reloadQueued = false;
 	private reloadQueuedForce = false;
@@ -183,6 +229,124 @@ export class mailStore {
 		return 'triggered';
 	}
 
+	/**
+	 * Persist a fully rendered message to the outbox, open its message log entry and wake the worker.
+	 * Recipients are rewritten here when the sending user is in sandbox mode, so every send path is
+	 * covered.
+	 * Delivery, retries and the dead-letter state are handled by OutboxWorker; callers get the record
+	 * (and its message_id) back as soon as it is stored. With `send_at` the message is held until then.
+	 */
+	async enqueueMail(entry: {
+		user_id: number;
+		domain_id: number;
+		kind: 'tx' | 'form';
+		name: string;
+		rcpt: string;
+		mail: QueuedMail;
+		send_at?: Date | null;
+		// The caller makes the first attempt itself via outboxWorker.deliverNow(); don't wake the worker.
+		inline?: boolean;
+		// Chosen by the caller when the rendered message has to refer to it (tracking links).
+		message_id?: string;
+	}): Promise<api_outbox> {
+		const user = await api_user.findByPk(entry.user_id);
+		const sandboxed = applySandbox(user?.sandbox ?? null, entry.mail);
+		const mail = sandboxed?.mail ?? entry.mail;
+		const rcpt = sandboxed?.rcpt ?? entry.rcpt;
+
+		// The log row goes in first: once the outbox row exists the worker may deliver it at any time, and
+		// the delivery update and message.sent/failed webhook need the log row to be there.
+		const message = await api_message.create({
+			message_id: entry.message_id ?? nanoid(),
+			user_id: entry.user_id,
+			domain_id: entry.domain_id,
+			kind: entry.kind,
+			template: entry.name,
+			rcpt,
+			original_rcpt: sandboxed?.original_rcpt ?? '',
+			subject: mail.subject,
+			send_at: entry.send_at ?? null
+		});
+		let record: api_outbox;
+		try {
+			record = await api_outbox.create({
+				message_id: message.message_id,
+				user_id: entry.user_id,
+				domain_id: entry.domain_id,
+				kind: entry.kind,
+				name: entry.name,
+				rcpt,
+				payload: mail as unknown as Record<string, unknown>,
+				max_attempts: Math.max(1, this.vars.OUTBOX_MAX_ATTEMPTS),
+				next_attempt_at: entry.send_at ?? new Date()
+			});
+		} catch (err) {
+			// Nothing will be sent, so don't leave a log row stuck in 'queued'.
+			await message.destroy().catch(() => undefined);
+			throw err;
+		}
+		if (!entry.inline) {
+			this.outboxWorker?.kick();
+		}
+		return record;
+	}
+
+	/**
+	 * Queue a webhook event for the domain's subscribers and wake the webhook worker. Failures are only
+	 * logged: a webhook problem must never fail the send, submission or report that raised the event.
+	 */
+	async emitWebhookEvent(domain_id: number, type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+		try {
+			const queued = await queueWebhookEvent({
+				domain_id,
+				type,
+				data,
+				max_attempts: this.vars.WEBHOOK_MAX_ATTEMPTS
+			});
+			if (queued) {
+				this.webhookWorker?.kick();
+			}
+		} catch (err) {
+			this.print_debug(
+				`Failed to queue ${type} webhook event: ${err instanceof Error ? err.message : String(err)}`
+			);
+		}
+	}
+
+	/**
+	 * Send through the domain's own transport chain when it has one configured, otherwise through the
+	 * global SMTP_* transport followed by SMTP_FAILOVER_URLS. The returned info names the transport
+	 * that accepted the message. With MAIL_TRANSPORT=file|memory the message is captured instead and
+	 * no SMTP server is contacted.
+	 * Mail for domains with DKIM settings is signed here, so tx and form sends are covered alike and
+	 * the private key never enters the outbox payload.
+	 * With BOUNCE_VERP_ADDRESS set the envelope sender encodes the message id, so bounces can be
+	 * matched to the message (see POST /v1/bounces).
+	 */
+	async deliverMail(mail: QueuedMail, domain_id?: number, message_id?: string): Promise<OutboxDeliveryInfo> {
+		const domain = domain_id ? await api_domain.findByPk(domain_id) : null;
+		const dkim = domain && this.dkimKeys ? this.dkimKeys.options(domain) : null;
+		const envelope =
+			this.vars.BOUNCE_VERP_ADDRESS && message_id
+				? verpEnvelope(mail, this.vars.BOUNCE_VERP_ADDRESS, message_id)
+				: null;
+		const message = { ...mail, ...(dkim ? { dkim } : {}), ...(envelope ? { envelope } : {}) };
+
+		if (this.capture) {
+			return this.capture.send(mail, message, { message_id, domain_id });
+		}
+
+		const domainChain = domain && this.domainTransports ? this.domainTransports.get(domain) : null;
+		if (domainChain) {
+			return sendWithFailover(domainChain, message, this.breaker, `domain/${domain_id}`);
+		}
+		if (!this.transport) {
+			throw new Error('Mail transport is not available');
+		}
+		const primary = { name: `${this.vars.SMTP_HOST}:${this.vars.SMTP_PORT}`, transport: this.transport };
+		return sendWithFailover([primary, ...this.failoverTransports], message, this.breaker, 'global');
+	}
+
 	resolveUploadPath(domainName?: string): string {
 		const raw = this.vars.UPLOAD_PATH ?? '';
 		const hasDomainToken = raw.includes('{domain}');
@@ -300,9 +464,53 @@ export class mailStore {
 		}
 
 		this.transport = await create_mail_transport(this.vars);
+		for (const entry of this.failoverTransports) {
+			entry.transport.close();
+		}
+		this.failoverTransports = createFailoverTransports(this.vars);
+		this.domainTransports?.clear();
+		this.domainTransports = new DomainTransportCache(this.vars);
+		this.dkimKeys = new DkimKeyCache(this.configpath);
+		this.templateCache = new TemplateCache(Math.max(0, this.vars.TEMPLATE_CACHE_MAX));
+		this.breaker = new CircuitBreaker(this.vars.SMTP_BREAKER_THRESHOLD, this.vars.SMTP_BREAKER_COOLDOWN_MS);
+		// A reload keeps the in-memory capture buffer as long as the mode does not change.
+		const captureMode = this.vars.MAIL_TRANSPORT === 'smtp' ? null : (this.vars.MAIL_TRANSPORT as CaptureMode);
+		if (this.capture?.mode !== captureMode) {
+			this.capture = captureMode
+				? new MailCapture(captureMode, {
+						dir: path.resolve(this.vars.MAIL_CAPTURE_PATH),
+						max: this.vars.MAIL_CAPTURE_MAX
+					})
+				: null;
+		}
 
 		this.api_db = await connect_api_db(this);
 
+		await this.outboxWorker?.stop();
+		this.outboxWorker = new OutboxWorker({
+			vars: this.vars,
+			deliver: (mail, record) => this.deliverMail(mail, record.domain_id, record.message_id),
+			notify: async (record, status) => {
+				const message = await api_message.findOne({ where: { message_id: record.message_id } });
+				if (message) {
+					await this.emitWebhookEvent(
+						record.domain_id,
+						status === 'sent' ? 'message.sent' : 'message.failed',
+						messageEventData(message)
+					);
+				}
+			},
+			print_debug: (msg) => this.print_debug(msg)
+		});
+		await this.outboxWorker.start();
+
+		await this.webhookWorker?.stop();
+		this.webhookWorker = new WebhookWorker({
+			vars: this.vars,
+			print_debug: (msg) => this.print_debug(msg)
+		});
+		await this.webhookWorker.start();
+
 		this.autoReloadHandle?.close();
 		this.autoReloadHandle = enableInitDataAutoReload(
 			this,
@@ -0,0 +1,113 @@
+import { compileTemplate } from '../util/txmail.js';
+import { templateVarsValidator } from '../util/vars-schema.js';
+
+import type { api_form } from '../models/form.js';
+import type { api_txmail } from '../models/txmail.js';
+import type { CompiledTemplate } from '../util/txmail.js';
+import type { VarsValidator } from '../util/vars-schema.js';
+
+export type TemplateCacheStats = {
+	size: number;
+	max: number;
+	hits: number;
+	misses: number;
+};
+
+type TemplateKind = 'tx' | 'form';
+
+/**
+ * Least-recently-used cache of compiled tx and form templates. Entries are keyed by record id plus
+ * its `updatedAt` revision, so a changed record never hits a stale entry; writes and reloads also
+ * evict explicitly to free the memory. A max of 0 disables caching. Pass `draft` when the record
+ * carries its applied draft (see applyTemplateDraft) so it is cached apart from the published content.
+ * Compiled vars schemas for tx templates are kept alongside under the same keys and limit.
+ */
+export class TemplateCache {
+	private entries = new Map<string, CompiledTemplate>();
+	private validators = new Map<string, VarsValidator | null>();
+	private hits = 0;
+	private misses = 0;
+
+	constructor(private max: number) {}
+
+	tx(template: api_txmail, autoescape: boolean, draft = false): CompiledTemplate {
+		return this.lookup('tx', template.template_id, template.updatedAt, autoescape, draft, () =>
+			compileTemplate(template.template, template.text_template, autoescape)
+		);
+	}
+
+	form(form: api_form, autoescape: boolean, draft = false): CompiledTemplate {
+		return this.lookup('form', form.form_id, form.updatedAt, autoescape, draft, () =>
+			compileTemplate(form.template, form.text_template, autoescape)
+		);
+	}
+
+	/** Validator for the template's vars schema, or null when it has none. */
+	varsValidator(template: api_txmail): VarsValidator | null {
+		const key = `tx:${template.template_id}:${template.updatedAt?.getTime() ?? 0}`;
+		if (this.validators.has(key)) {
+			const cached = this.validators.get(key) ?? null;
+			this.validators.delete(key);
+			this.validators.set(key, cached);
+			return cached;
+		}
+		const validator = templateVarsValidator(template);
+		if (this.max > 0) {
+			this.validators.set(key, validator);
+			while (this.validators.size > this.max) {
+				this.validators.delete(this.validators.keys().next().value as string);
+			}
+		}
+		return validator;
+	}
+
+	/** Drop every cached revision of one record. */
+	invalidate(kind: TemplateKind, id: number): void {
+		const prefix = `${kind}:${id}:`;
+		for (const map of [this.entries, this.validators]) {
+			for (const key of [...map.keys()]) {
+				if (key.startsWith(prefix)) {
+					map.delete(key);
+				}
+			}
+		}
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.validators.clear();
+	}
+
+	stats(): TemplateCacheStats {
+		return { size: this.entries.size, max: this.max, hits: this.hits, misses: this.misses };
+	}
+
+	private lookup(
+		kind: TemplateKind,
+		id: number,
+		revision: Date | undefined,
+		autoescape: boolean,
+		draft: boolean,
+		compile: () => CompiledTemplate
+	): CompiledTemplate {
+		const slot = draft ? 'draft' : 'published';
+		const key = `${kind}:${id}:${revision?.getTime() ?? 0}:${slot}:${autoescape ? 'escaped' : 'plain'}`;
+		const cached = this.entries.get(key);
+		if (cached) {
+			this.hits += 1;
+			// Re-insert so the entry becomes the most recently used.
+			this.entries.delete(key);
+			this.entries.set(key, cached);
+			return cached;
+		}
+		this.misses += 1;
+		const compiled = compile();
+		if (this.max > 0) {
+			this.entries.set(key, compiled);
+			while (this.entries.size > this.max) {
+				this.entries.delete(this.entries.keys().next().value as string);
+			}
+		}
+		return compiled;
+	}
+}
@@ -0,0 +1,250 @@
+import { createTransport, SendMailOptions, Transporter } from 'nodemailer';
+
+import { isPermanentSendError } from './outbox.js';
+
+import type { OutboxDeliveryInfo } from './outbox.js';
+import type { MailStoreVars } from './store.js';
+import type { api_domain, domain_transport_type } from '../models/domain.js';
+import type SMTPPool from 'nodemailer/lib/smtp-pool';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+export type MailTransport = Transporter<SMTPTransport.SentMessageInfo>;
+
+/** A transport plus the label recorded in the message log for messages it delivers. */
+export type NamedTransport = {
+	name: string;
+	transport: MailTransport;
+};
+
+type TransportDefaults = Pick<MailStoreVars, 'SMTP_TLS_REJECT' | 'SMTP_REQUIRE_TLS' | 'DEBUG'>;
+
+/**
+ * Tracks consecutive failures per transport. After `threshold` failures in a row the transport is
+ * skipped for `cooldownMs`; then a single trial send is let through, which closes the breaker on
+ * success or re-opens it for another cooldown on failure. A threshold of 0 disables the breaker.
+ */
+export class CircuitBreaker {
+	private states = new Map<string, { failures: number; openUntil: number; trial: boolean }>();
+
+	constructor(
+		private threshold: number,
+		private cooldownMs: number,
+		private now: () => number = Date.now
+	) {}
+
+	allow(key: string): boolean {
+		const state = this.states.get(key);
+		if (this.threshold <= 0 || !state || state.failures < this.threshold) {
+			return true;
+		}
+		if (this.now() < state.openUntil || state.trial) {
+			return false;
+		}
+		state.trial = true;
+		return true;
+	}
+
+	isOpen(key: string): boolean {
+		const state = this.states.get(key);
+		return this.threshold > 0 && !!state && state.failures >= this.threshold && this.now() < state.openUntil;
+	}
+
+	success(key: string): void {
+		this.states.delete(key);
+	}
+
+	failure(key: string): void {
+		const state = this.states.get(key) ?? { failures: 0, openUntil: 0, trial: false };
+		state.failures += 1;
+		state.trial = false;
+		if (this.threshold > 0 && state.failures >= this.threshold) {
+			state.openUntil = this.now() + Math.max(0, this.cooldownMs);
+		}
+		this.states.set(key, state);
+	}
+}
+
+/**
+ * Try each transport in order. Connection errors, timeouts and 4xx replies count against the
+ * transport's breaker and move on to the next one; a 5xx reply is a verdict on the message itself,
+ * so it is thrown straight away. When every transport fails the last error is thrown (the outbox
+ * then retries the message later).
+ */
+export async function sendWithFailover(
+	chain: NamedTransport[],
+	mail: SendMailOptions,
+	breaker: CircuitBreaker,
+	scope: string
+): Promise<OutboxDeliveryInfo> {
+	let lastError: unknown = null;
+	for (const entry of chain) {
+		const key = `${scope}/${entry.name}`;
+		if (!breaker.allow(key)) {
+			continue;
+		}
+		try {
+			const info = await entry.transport.sendMail(mail);
+			breaker.success(key);
+			return { messageId: info.messageId, response: info.response, transport: entry.name };
+		} catch (err: unknown) {
+			if (isPermanentSendError(err)) {
+				breaker.success(key);
+				throw err;
+			}
+			breaker.failure(key);
+			lastError = err;
+		}
+	}
+	if (lastError) {
+		throw lastError;
+	}
+	throw new Error('No mail transport available: all transports are temporarily disabled after repeated failures');
+}
+
+function transportLabel(host: string, port: number): string {
+	return `${host}:${port}`;
+}
+
+/**
+ * Build the global failover transports from SMTP_FAILOVER_URLS. Each URL is a nodemailer connection
+ * URL; TLS behaviour follows the global SMTP_* settings.
+ */
+export function createFailoverTransports(vars: TransportDefaults & { SMTP_FAILOVER_URLS: string }): NamedTransport[] {
+	return vars.SMTP_FAILOVER_URLS.split(',')
+		.map((url) => url.trim())
+		.filter((url) => url !== '')
+		.map((url) => {
+			let parsed: URL;
+			try {
+				parsed = new URL(url);
+			} catch {
+				throw new Error('SMTP_FAILOVER_URLS contains an invalid URL');
+			}
+			const port = Number(parsed.port) || (parsed.protocol === 'smtps:' ? 465 : 587);
+			const transport = createTransport({
+				url,
+				tls: { rejectUnauthorized: vars.SMTP_TLS_REJECT },
+				requireTLS: vars.SMTP_REQUIRE_TLS,
+				logger: vars.DEBUG,
+				debug: vars.DEBUG
+			}) as MailTransport;
+			return { name: transportLabel(parsed.hostname, port), transport };
+		});
+}
+
+function resolveSecret(
+	value: string | undefined,
+	envName: string | undefined,
+	env: NodeJS.ProcessEnv,
+	label: string
+): string {
+	if (envName) {
+		const resolved = env[envName];
+		if (resolved === undefined || resolved === '') {
+			throw new Error(`${label} env var "${envName}" is not set`);
+		}
+		return resolved;
+	}
+	return value ?? '';
+}
+
+/**
+ * Translate a domain's transport settings into nodemailer options. Credentials given as `*_env`
+ * references are read from the environment here, so they never have to live in init-data.json or
+ * the database. Unset TLS/STARTTLS options inherit the global SMTP_* behaviour.
+ */
+export function domainTransportOptions(
+	config: domain_transport_type,
+	defaults: TransportDefaults,
+	env: NodeJS.ProcessEnv = process.env
+): SMTPTransport.Options | SMTPPool.Options {
+	const options: SMTPTransport.Options = {
+		host: config.host,
+		port: config.port ?? (config.secure ? 465 : 587),
+		secure: config.secure,
+		requireTLS: config.require_tls ?? defaults.SMTP_REQUIRE_TLS,
+		tls: {
+			rejectUnauthorized: config.tls?.reject_unauthorized ?? defaults.SMTP_TLS_REJECT,
+			...(config.tls?.servername ? { servername: config.tls.servername } : {}),
+			...(config.tls?.min_version ? { minVersion: config.tls.min_version as 'TLSv1.2' } : {})
+		},
+		logger: defaults.DEBUG,
+		debug: defaults.DEBUG
+	};
+	if (config.auth) {
+		const user = resolveSecret(config.auth.user, config.auth.user_env, env, 'SMTP user');
+		const pass = resolveSecret(config.auth.pass, config.auth.pass_env, env, 'SMTP password');
+		if (user && pass) {
+			options.auth = { user, pass };
+		}
+	}
+	if (!config.pool) {
+		return options;
+	}
+	return {
+		...options,
+		pool: true,
+		...(config.max_connections ? { maxConnections: config.max_connections } : {}),
+		...(config.max_messages ? { maxMessages: config.max_messages } : {})
+	};
+}
+
+/**
+ * The transport chain for each domain with its own transport settings. Entries are keyed by the
+ * resolved options, so a changed domain record or rotated env secret builds fresh transports (and
+ * closes the old ones) on the next send.
+ */
+export class DomainTransportCache {
+	private entries = new Map<number, { key: string; chain: NamedTransport[] }>();
+
+	constructor(private defaults: TransportDefaults) {}
+
+	/**
+	 * Transport chain for the domain, or null when the domain has no override and the global
+	 * transports should be used.
+	 */
+	get(domain: api_domain): NamedTransport[] | null {
+		if (!domain.transport) {
+			this.evict(domain.domain_id);
+			return null;
+		}
+		const configs = Array.isArray(domain.transport) ? domain.transport : [domain.transport];
+		let resolved: Array<{ name: string; options: SMTPTransport.Options | SMTPPool.Options }>;
+		try {
+			resolved = configs.map((config) => {
+				const options = domainTransportOptions(config, this.defaults);
+				return { name: config.name || transportLabel(config.host, Number(options.port)), options };
+			});
+		} catch (err) {
+			throw new Error(`Transport for domain ${domain.name}: ${(err as Error).message}`);
+		}
+		const key = JSON.stringify(resolved);
+		const cached = this.entries.get(domain.domain_id);
+		if (cached?.key === key) {
+			return cached.chain;
+		}
+		this.evict(domain.domain_id);
+		const chain = resolved.map(({ name, options }) => ({
+			name,
+			transport: createTransport(options) as MailTransport
+		}));
+		this.entries.set(domain.domain_id, { key, chain });
+		return chain;
+	}
+
+	evict(domain_id: number): void {
+		const cached = this.entries.get(domain_id);
+		if (cached) {
+			for (const entry of cached.chain) {
+				entry.transport.close();
+			}
+			this.entries.delete(domain_id);
+		}
+	}
+
+	clear(): void {
+		for (const domain_id of [...this.entries.keys()]) {
+			this.evict(domain_id);
+		}
+	}
+}
@@ -0,0 +1,204 @@
+import { Op } from 'sequelize';
+
+import { api_webhook_delivery } from '../models/webhook-delivery.js';
+import { api_webhook } from '../models/webhook.js';
+import { webhookSignature } from '../util/webhooks.js';
+
+import { outboxRetryDelay } from './outbox.js';
+
+type WebhookContext = {
+	vars: {
+		OUTBOX_POLL_MS: number;
+		WEBHOOK_RETRY_BASE_MS: number;
+		WEBHOOK_RETRY_MAX_MS: number;
+		WEBHOOK_TIMEOUT_MS: number;
+	};
+	print_debug: (msg: string) => void;
+};
+
+const WEBHOOK_BATCH_SIZE = 20;
+const RESPONSE_BODY_MAX = 1000;
+
+/**
+ * 4xx answers mean the endpoint rejected the event itself, so retrying will not help; 408 and 429 are
+ * the exceptions. Network errors, timeouts, redirects and 5xx answers are retried.
+ */
+export function isPermanentWebhookStatus(code: number): boolean {
+	return code >= 400 && code < 500 && code !== 408 && code !== 429;
+}
+
+class WebhookResponseError extends Error {
+	constructor(
+		readonly code: number,
+		readonly body: string
+	) {
+		super(`HTTP ${code}`);
+	}
+}
+
+export class WebhookWorker {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running: Promise<void> | null = null;
+	private rerun = false;
+	private stopped = true;
+
+	constructor(private ctx: WebhookContext) {}
+
+	/**
+	 * Requeue deliveries left in `sending` by an interrupted process and start polling for due ones.
+	 */
+	async start(): Promise<void> {
+		if (!this.stopped) {
+			return;
+		}
+		this.stopped = false;
+		const [reset] = await api_webhook_delivery.update({ status: 'queued' }, { where: { status: 'sending' } });
+		if (reset) {
+			this.ctx.print_debug(`Requeued ${reset} webhook delivery(s) interrupted while sending`);
+		}
+		const pollMs = Math.max(50, this.ctx.vars.OUTBOX_POLL_MS);
+		this.timer = setInterval(() => this.kick(), pollMs);
+		this.timer.unref?.();
+		this.kick();
+	}
+
+	/**
+	 * Stop polling and wait for an in-flight run to finish.
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.rerun = false;
+		await this.running;
+	}
+
+	/**
+	 * Process due deliveries now; like OutboxWorker.kick(), at most one extra run is queued.
+	 */
+	kick(): void {
+		if (this.stopped) {
+			return;
+		}
+		if (this.running) {
+			this.rerun = true;
+			return;
+		}
+		this.running = this.processDue()
+			.then(() => undefined)
+			.catch((err) => this.ctx.print_debug(`Webhook run failed: ${err}`))
+			.finally(() => {
+				this.running = null;
+				if (this.rerun) {
+					this.rerun = false;
+					this.kick();
+				}
+			});
+	}
+
+	async processDue(): Promise<number> {
+		let processed = 0;
+		for (;;) {
+			const due = await api_webhook_delivery.findAll({
+				where: { status: 'queued', next_attempt_at: { [Op.lte]: new Date() } },
+				order: [
+					['next_attempt_at', 'ASC'],
+					['delivery_id', 'ASC']
+				],
+				limit: WEBHOOK_BATCH_SIZE
+			});
+			if (due.length === 0 || this.stopped) {
+				return processed;
+			}
+			for (const record of due) {
+				if (this.stopped) {
+					return processed;
+				}
+				const [claimed] = await api_webhook_delivery.update(
+					{ status: 'sending' },
+					{ where: { delivery_id: record.delivery_id, status: 'queued' } }
+				);
+				if (!claimed) {
+					continue;
+				}
+				await this.attempt(record);
+				processed += 1;
+			}
+		}
+	}
+
+	private async post(hook: api_webhook, record: api_webhook_delivery): Promise<{ code: number; body: string }> {
+		const body = JSON.stringify(record.payload);
+		const res = await fetch(hook.url, {
+			method: 'POST',
+			redirect: 'manual',
+			signal: AbortSignal.timeout(Math.max(1, this.ctx.vars.WEBHOOK_TIMEOUT_MS)),
+			headers: {
+				'content-type': 'application/json',
+				'user-agent': 'mail-magic-webhook',
+				'x-mail-magic-event': record.type,
+				'x-mail-magic-event-id': record.event_id,
+				'x-mail-magic-signature': webhookSignature(hook.secret, Math.floor(Date.now() / 1000), body)
+			},
+			body
+		});
+		const text = (await res.text().catch(() => '')).slice(0, RESPONSE_BODY_MAX);
+		if (res.status < 200 || res.status >= 300) {
+			throw new WebhookResponseError(res.status, text);
+		}
+		return { code: res.status, body: text };
+	}
+
+	private async attempt(record: api_webhook_delivery): Promise<void> {
+		const attempts = record.attempts + 1;
+		const hook = await api_webhook.findByPk(record.webhook_id);
+		if (!hook || !hook.enabled) {
+			await record.update({ status: 'failed', attempts, last_error: 'Webhook disabled' });
+			return;
+		}
+		try {
+			const res = await this.post(hook, record);
+			await record.update({
+				status: 'delivered',
+				attempts,
+				response_code: res.code,
+				response_body: res.body,
+				last_error: '',
+				delivered_at: new Date()
+			});
+			this.ctx.print_debug(`Webhook ${hook.webhook_id} accepted ${record.type} ${record.event_id}`);
+		} catch (err: unknown) {
+			const response_code = err instanceof WebhookResponseError ? err.code : 0;
+			const response_body = err instanceof WebhookResponseError ? err.body : '';
+			const message = err instanceof Error ? err.message : String(err);
+			if (isPermanentWebhookStatus(response_code) || attempts >= record.max_attempts) {
+				await record.update({ status: 'failed', attempts, response_code, response_body, last_error: message });
+				this.ctx.print_debug(`Webhook delivery ${record.delivery_id} failed for good: ${message}`);
+				return;
+			}
+			const delay = outboxRetryDelay(
+				attempts,
+				this.ctx.vars.WEBHOOK_RETRY_BASE_MS,
+				this.ctx.vars.WEBHOOK_RETRY_MAX_MS
+			);
+			// The claim was a static update, so the instance still reads 'queued' and record.update()
+			// would skip the status column; write by id instead.
+			await api_webhook_delivery.update(
+				{
+					status: 'queued',
+					attempts,
+					response_code,
+					response_body,
+					last_error: message,
+					next_attempt_at: new Date(Date.now() + delay)
+				},
+				{ where: { delivery_id: record.delivery_id } }
+			);
+			this.ctx.print_debug(
+				`Webhook delivery ${record.delivery_id} failed (attempt ${attempts}); retry in ${delay}ms`
+			);
+		}
+	}
+}
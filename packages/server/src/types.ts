@@ -41,3 +41,35 @@ export interface UploadedFile {
 	buffer?: Buffer;
 	filepath?: string;
 }
+
+export interface QueuedAttachment {
+	filename?: string;
+	path?: string;
+	cid?: string;
+	content?: string;
+	encoding?: 'base64';
+}
+
+// Fully rendered message as persisted in the outbox. Mirrors the nodemailer message options the
+// send paths build, with attachment buffers serialized so the record survives a restart.
+export interface QueuedMail {
+	from: string;
+	to: string | Array<string | { name: string; address: string }>;
+	cc?: string[];
+	bcc?: string[];
+	subject: string;
+	html: string;
+	text: string;
+	replyTo?: string | { name: string; address: string };
+	headers?: Record<string, string>;
+	attachments?: QueuedAttachment[];
+}
+
+// What a message would look like if sent: returned by the preview endpoints instead of queueing.
+export interface MailPreview {
+	subject: string;
+	html: string;
+	text: string;
+	attachments: Array<{ filename: string; cid?: string }>;
+	headers: Record<string, string>;
+}
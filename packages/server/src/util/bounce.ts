@@ -0,0 +1,217 @@
+export type BounceRecipient = {
+	email: string;
+	/** DSN Action (`failed`, `delayed`, `delivered`, ...), or `complaint` for feedback reports. */
+	action: string;
+	status: string;
+	diagnostic: string;
+};
+
+export type DeliveryReport = {
+	kind: 'dsn' | 'arf';
+	recipients: BounceRecipient[];
+	/** Message-ID of the original message, without angle brackets; empty when the report omits it. */
+	original_message_id: string;
+	/** Addresses the report was delivered to, plus the original Return-Path; candidates for VERP. */
+	addresses: string[];
+	feedback_type: string;
+};
+
+type MimePart = {
+	type: string;
+	headers: Record<string, string>;
+	body: string;
+};
+
+const MAX_MIME_DEPTH = 5;
+
+function splitHeaderBody(raw: string): { head: string; body: string } {
+	const match = /\r?\n\r?\n/.exec(raw);
+	if (!match) {
+		return { head: raw, body: '' };
+	}
+	return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+/** Header block to a map of lowercased names; folded lines are joined and the first occurrence wins. */
+function parseHeaderBlock(head: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+		const colon = line.indexOf(':');
+		if (colon <= 0) {
+			continue;
+		}
+		const key = line.slice(0, colon).trim().toLowerCase();
+		if (key && !(key in headers)) {
+			headers[key] = line.slice(colon + 1).trim();
+		}
+	}
+	return headers;
+}
+
+function parseContentType(value: string | undefined): { type: string; params: Record<string, string> } {
+	const [type, ...rest] = String(value || 'text/plain').split(';');
+	const params: Record<string, string> = {};
+	for (const param of rest) {
+		const eq = param.indexOf('=');
+		if (eq > 0) {
+			params[param.slice(0, eq).trim().toLowerCase()] = param
+				.slice(eq + 1)
+				.trim()
+				.replace(/^"(.*)"$/, '$1');
+		}
+	}
+	return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(body: string, encoding: string | undefined): string {
+	switch (String(encoding || '').toLowerCase()) {
+		case 'base64':
+			return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+		case 'quoted-printable': {
+			const bytes = body
+				.replace(/=\r?\n/g, '')
+				.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+			return Buffer.from(bytes, 'latin1').toString('utf8');
+		}
+		default:
+			return body;
+	}
+}
+
+/** Leaf parts of a MIME message; multiparts are flattened, message/rfc822 parts are kept whole. */
+function mimeParts(raw: string, depth = 0): MimePart[] {
+	const { head, body } = splitHeaderBody(raw);
+	const headers = parseHeaderBlock(head);
+	const { type, params } = parseContentType(headers['content-type']);
+	if (!type.startsWith('multipart/') || !params.boundary || depth >= MAX_MIME_DEPTH) {
+		return [{ type, headers, body: decodeBody(body, headers['content-transfer-encoding']) }];
+	}
+	const delimiter = `--${params.boundary}`;
+	const parts: MimePart[] = [];
+	let current: string[] | null = null;
+	for (const line of body.split(/\r?\n/)) {
+		if (line.startsWith(delimiter)) {
+			if (current) {
+				parts.push(...mimeParts(current.join('\n'), depth + 1));
+			}
+			current = line.startsWith(`${delimiter}--`) ? null : [];
+			if (!current) {
+				break;
+			}
+			continue;
+		}
+		current?.push(line);
+	}
+	return parts;
+}
+
+function stripTypePrefix(value: string | undefined): string {
+	const text = String(value ?? '').trim();
+	const semi = text.indexOf(';');
+	return semi >= 0 ? text.slice(semi + 1).trim() : text;
+}
+
+function stripAngles(value: string | undefined): string {
+	return String(value ?? '')
+		.trim()
+		.replace(/^<(.*)>$/, '$1')
+		.trim();
+}
+
+/** Bare addresses found in a header value such as `"Bounces" <bounces+id@example.test>`. */
+export function extractAddresses(value: string | undefined): string[] {
+	return String(value ?? '').match(/[^\s<>"',;:()]+@[^\s<>"',;:()]+/g) ?? [];
+}
+
+/**
+ * Read a raw RFC 3464 delivery status notification or RFC 5965 (ARF) complaint report. Returns null
+ * when the message is neither, so ordinary mail that reaches the bounce mailbox is not mistaken for
+ * a bounce.
+ */
+export function parseDeliveryReport(raw: string, extraAddresses: string[] = []): DeliveryReport | null {
+	const { head } = splitHeaderBody(raw);
+	const top = parseHeaderBlock(head);
+	const parts = mimeParts(raw);
+
+	const dsn = parts.find((part) => part.type === 'message/delivery-status');
+	const arf = parts.find((part) => part.type === 'message/feedback-report');
+	if (!dsn && !arf) {
+		return null;
+	}
+
+	const original = parts.find((part) => part.type === 'text/rfc822-headers' || part.type === 'message/rfc822');
+	const originalHeaders = original
+		? parseHeaderBlock(original.type === 'message/rfc822' ? splitHeaderBody(original.body).head : original.body)
+		: {};
+
+	const addresses = [
+		...extraAddresses,
+		...['to', 'delivered-to', 'x-original-to'].flatMap((key) => extractAddresses(top[key])),
+		...extractAddresses(originalHeaders['return-path'])
+	];
+
+	const recipients: BounceRecipient[] = [];
+	let feedback_type = '';
+	if (dsn) {
+		// The first field group is per-message; each following group describes one recipient.
+		const groups = dsn.body.split(/\r?\n\s*\r?\n/).map((group) => parseHeaderBlock(group.trim()));
+		for (const fields of groups.slice(1)) {
+			const email = stripAngles(stripTypePrefix(fields['final-recipient'] || fields['original-recipient']));
+			if (!email) {
+				continue;
+			}
+			recipients.push({
+				email: email.toLowerCase(),
+				action: String(fields['action'] ?? '')
+					.trim()
+					.toLowerCase(),
+				status: String(fields['status'] ?? '').trim(),
+				diagnostic: stripTypePrefix(fields['diagnostic-code'])
+			});
+		}
+	} else if (arf) {
+		const fields = parseHeaderBlock(arf.body.trim());
+		feedback_type = String(fields['feedback-type'] ?? '')
+			.trim()
+			.toLowerCase();
+		const rcpts = extractAddresses(fields['original-rcpt-to'] || originalHeaders['to']);
+		for (const email of rcpts) {
+			recipients.push({ email: email.toLowerCase(), action: 'complaint', status: '', diagnostic: feedback_type });
+		}
+	}
+
+	return {
+		kind: dsn ? 'dsn' : 'arf',
+		recipients,
+		original_message_id: stripAngles(originalHeaders['message-id']),
+		addresses,
+		feedback_type
+	};
+}
+
+/**
+ * VERP envelope sender for a message: `bounces@example.com` becomes
+ * `bounces+<message_id>@example.com`, so a bounce names the message it belongs to.
+ */
+export function verpAddress(base: string, message_id: string): string {
+	const at = base.lastIndexOf('@');
+	if (at <= 0) {
+		return base;
+	}
+	return `${base.slice(0, at)}+${message_id}@${base.slice(at + 1)}`;
+}
+
+/** Message id encoded in a VERP address built by verpAddress(), or null when `address` is not one. */
+export function verpMessageId(base: string, address: string): string | null {
+	const at = base.lastIndexOf('@');
+	if (at <= 0) {
+		return null;
+	}
+	const local = base.slice(0, at).toLowerCase();
+	const domain = base.slice(at + 1).toLowerCase();
+	const match = /^([^@]+)\+([A-Za-z0-9_-]+)@(.+)$/.exec(address.trim());
+	if (!match || match[1].toLowerCase() !== local || match[3].toLowerCase() !== domain) {
+		return null;
+	}
+	return match[2];
+}
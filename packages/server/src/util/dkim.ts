@@ -0,0 +1,78 @@
+import { createPrivateKey } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { assertSafeRelativePath } from './paths.js';
+
+import type { api_domain, domain_dkim_type } from '../models/domain.js';
+import type DKIM from 'nodemailer/lib/dkim';
+
+/**
+ * Resolve a DKIM key path inside `<configpath>/<domain>/`. Absolute paths and `..` segments are
+ * rejected so init-data cannot point the signer at arbitrary files.
+ */
+export function resolveDkimKeyPath(configpath: string, domainName: string, keyPath: string): string {
+	const relative = assertSafeRelativePath(keyPath, 'DKIM key');
+	return path.resolve(configpath, domainName, relative);
+}
+
+/**
+ * Read and parse a PEM private key, throwing a descriptive error when it is missing or invalid.
+ */
+export function readDkimPrivateKey(keyFile: string): string {
+	let pem: string;
+	try {
+		pem = fs.readFileSync(keyFile, 'utf8');
+	} catch {
+		throw new Error(`DKIM key file "${keyFile}" is not readable`);
+	}
+	try {
+		// nodemailer signs with rsa-sha256 only.
+		const key = createPrivateKey(pem);
+		if (key.asymmetricKeyType !== 'rsa') {
+			throw new Error(`unsupported key type ${key.asymmetricKeyType}; an RSA key is required`);
+		}
+	} catch (err) {
+		throw new Error(`DKIM key file "${keyFile}" is not a valid private key: ${(err as Error).message}`);
+	}
+	return pem;
+}
+
+/**
+ * Check a domain's DKIM settings at import time so a bad key fails the load instead of the send.
+ */
+export function validateDkimConfig(configpath: string, domainName: string, dkim: domain_dkim_type): void {
+	try {
+		readDkimPrivateKey(resolveDkimKeyPath(configpath, domainName, dkim.key_path));
+	} catch (err) {
+		throw new Error(`Invalid DKIM configuration for domain ${domainName}: ${(err as Error).message}`);
+	}
+}
+
+/**
+ * Builds nodemailer DKIM options per domain. Keys are re-read only when the key file changes.
+ */
+export class DkimKeyCache {
+	private keys = new Map<string, { mtimeMs: number; pem: string }>();
+
+	constructor(private configpath: string) {}
+
+	options(domain: api_domain): DKIM.SingleKeyOptions | null {
+		if (!domain.dkim) {
+			return null;
+		}
+		const keyFile = resolveDkimKeyPath(this.configpath, domain.name, domain.dkim.key_path);
+		const mtimeMs = fs.statSync(keyFile, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+		let cached = this.keys.get(keyFile);
+		if (!cached || cached.mtimeMs !== mtimeMs) {
+			cached = { mtimeMs, pem: readDkimPrivateKey(keyFile) };
+			this.keys.set(keyFile, cached);
+		}
+		return {
+			domainName: domain.dkim.domain_name || domain.name,
+			keySelector: domain.dkim.selector,
+			privateKey: cached.pem,
+			...(domain.dkim.headers?.length ? { headerFieldNames: domain.dkim.headers.join(':') } : {})
+		};
+	}
+}
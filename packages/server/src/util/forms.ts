@@ -303,6 +303,7 @@ export function parseAllowedFields(raw: unknown): string[] {
 
 export type FormTemplateInput = {
 	template: string;
+	text_template: string;
 	sender: string;
 	recipient: string;
 	idname: string;
@@ -317,6 +318,7 @@ export type FormTemplateInput = {
 
 export function parseFormTemplatePayload(body: Record<string, unknown>): FormTemplateInput {
 	const template = body.template ? String(body.template) : '';
+	const text_template = body.text_template ? String(body.text_template) : '';
 	const sender = body.sender ? String(body.sender) : '';
 	const recipient = body.recipient ? String(body.recipient) : '';
 	const idname = body.idname ? String(body.idname) : '';
@@ -330,6 +332,7 @@ export function parseFormTemplatePayload(body: Record<string, unknown>): FormTem
 
 	return {
 		template,
+		text_template,
 		sender,
 		recipient,
 		idname,
@@ -395,6 +398,21 @@ export async function resolveFormKeyForTemplate(params: {
 	return existing?.form_key || '';
 }
 
+/**
+ * Look up a form template by idname in the same locale order as tx templates: the requested locale,
+ * then the domain default locale, then the empty-locale fallback. Returns null when none exists.
+ */
+export async function findFormTemplate(domain: api_domain, idname: string, locale: string): Promise<api_form | null> {
+	const locales = [normalizeSlug(locale), normalizeSlug(domain.locale || ''), ''];
+	for (const candidate of locales.filter((value, index) => locales.indexOf(value) === index)) {
+		const form = await api_form.findOne({ where: { domain_id: domain.domain_id, idname, locale: candidate } });
+		if (form) {
+			return form;
+		}
+	}
+	return null;
+}
+
 export function buildFormTemplateRecord(params: {
 	form_key: string;
 	user_id: number;
@@ -414,6 +432,7 @@ export function buildFormTemplateRecord(params: {
 		recipient: params.payload.recipient,
 		subject: params.payload.subject,
 		template: params.payload.template,
+		text_template: params.payload.text_template,
 		slug: params.slug,
 		filename: params.filename,
 		secret: params.payload.secret,
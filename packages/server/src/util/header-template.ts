@@ -0,0 +1,51 @@
+import nunjucks from 'nunjucks';
+
+// Header values are plain text, so they are rendered without HTML autoescaping; the body keeps its
+// own environment settings.
+const headerEnv = new nunjucks.Environment(null, { autoescape: false });
+
+const TEMPLATE_SYNTAX = /\{[{%#]/;
+
+/** True when a header value contains nunjucks syntax and has to be rendered per message. */
+export function isHeaderTemplate(value: string): boolean {
+	return TEMPLATE_SYNTAX.test(value);
+}
+
+/**
+ * Collapse line breaks and other control characters to single spaces so a rendered value (or a
+ * variable pulled into it) cannot start a new header line.
+ */
+export function sanitizeHeaderText(value: string): string {
+	return value.replace(/[\x00-\x1f\x7f]+/g, ' ').trim();
+}
+
+/**
+ * Render a subject-like header value with the same context as the message body. Values without
+ * template syntax are returned as-is apart from the control-character clean-up.
+ */
+export function renderHeaderText(source: string, context: Record<string, unknown>): string {
+	if (!source || !isHeaderTemplate(source)) {
+		return sanitizeHeaderText(source ?? '');
+	}
+	return sanitizeHeaderText(headerEnv.renderString(source, context));
+}
+
+/**
+ * Render the display name of a `Name <address>` sender. The address itself is never templated, so a
+ * message always goes out from the configured mailbox.
+ */
+export function renderSender(sender: string, context: Record<string, unknown>): string {
+	const match = sender.match(/^\s*(.*?)\s*<([^<>]+)>\s*$/s);
+	if (!match || !isHeaderTemplate(match[1])) {
+		return sender;
+	}
+	let source = match[1];
+	if (source.length >= 2 && source.startsWith('"') && source.endsWith('"')) {
+		source = source.slice(1, -1).replace(/\\(.)/g, '$1');
+	}
+	const name = renderHeaderText(source, context);
+	if (!name) {
+		return match[2];
+	}
+	return `"${name.replace(/["\\]/g, '\\$&')}" <${match[2]}>`;
+}
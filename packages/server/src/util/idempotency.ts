@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+
+import { ApiError } from '@technomoron/api-server-base';
+import { Op, UniqueConstraintError } from 'sequelize';
+
+import { api_idempotency } from '../models/idempotency.js';
+
+const MAX_KEY_LENGTH = 255;
+
+export type IdempotencyClaim =
+	{ replay: [number, Record<string, unknown>]; record?: undefined } | { replay?: undefined; record: api_idempotency };
+
+/**
+ * Read the key from the `Idempotency-Key` header, falling back to an `idempotency_key` body field.
+ * Returns an empty string when the request does not use idempotency.
+ */
+export function getIdempotencyKey(headers: Record<string, unknown>, body: Record<string, unknown>): string {
+	const header = headers['idempotency-key'];
+	const raw = Array.isArray(header) ? header[0] : (header ?? body.idempotency_key);
+	const key = typeof raw === 'string' ? raw.trim() : '';
+	if (key.length > MAX_KEY_LENGTH || /[^\x21-\x7e]/.test(key)) {
+		throw new ApiError({
+			code: 400,
+			message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} printable ASCII characters`
+		});
+	}
+	return key;
+}
+
+function canonicalJson(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJson).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.keys(value)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprint of a request for comparing reuses of a key: the body (minus the key itself, which may
+ * come from the header or the body) with object keys sorted, plus the name and size of each upload.
+ */
+export function idempotencyRequestHash(
+	body: Record<string, unknown>,
+	files: Array<{ fieldname: string; originalname: string; size?: number }> = []
+): string {
+	const rest = { ...body };
+	delete rest.idempotency_key;
+	const uploads = files.map((file) => [file.fieldname, file.originalname, file.size ?? 0]);
+	return createHash('sha256')
+		.update(canonicalJson({ body: rest, uploads }))
+		.digest('hex');
+}
+
+/**
+ * Reserve a key before doing any work. A key already completed inside the window yields the stored
+ * response for replay; a key whose original request is still running is rejected with 409 so two
+ * concurrent retries cannot both send. Reusing a key on another route or with a different request
+ * (see idempotencyRequestHash) is rejected with 422.
+ */
+export async function claimIdempotencyKey(params: {
+	user_id: number;
+	domain_id: number;
+	key: string;
+	route: string;
+	request_hash: string;
+	windowSec: number;
+}): Promise<IdempotencyClaim> {
+	const { user_id, domain_id, key, route, request_hash } = params;
+	const now = new Date();
+
+	// Expired keys may be reused; drop them for this user/domain so the table does not grow unbounded.
+	await api_idempotency.destroy({ where: { user_id, domain_id, expires_at: { [Op.lte]: now } } });
+
+	try {
+		const record = await api_idempotency.create({
+			user_id,
+			domain_id,
+			idem_key: key,
+			route,
+			request_hash,
+			status: 'pending',
+			expires_at: new Date(now.getTime() + Math.max(0, params.windowSec) * 1000)
+		});
+		return { record };
+	} catch (error: unknown) {
+		if (!(error instanceof UniqueConstraintError)) {
+			throw error;
+		}
+	}
+
+	const existing = await api_idempotency.findOne({ where: { user_id, domain_id, idem_key: key } });
+	if (existing && (existing.route !== route || existing.request_hash !== request_hash)) {
+		throw new ApiError({
+			code: 422,
+			message: 'Idempotency-Key was already used for a different request'
+		});
+	}
+	if (existing?.status === 'complete') {
+		return { replay: [existing.response_code, existing.response] };
+	}
+	throw new ApiError({ code: 409, message: 'A request with this Idempotency-Key is still in progress' });
+}
+
+export async function completeIdempotencyKey(
+	record: api_idempotency,
+	[code, data]: [number, Record<string, unknown>]
+): Promise<void> {
+	await record.update({ status: 'complete', response_code: code, response: data });
+}
+
+/**
+ * Forget a reservation whose request failed, so the client can retry with the same key.
+ */
+export async function releaseIdempotencyKey(record: api_idempotency): Promise<void> {
+	await record.destroy();
+}
@@ -0,0 +1,37 @@
+import type { MailPreview, QueuedMail } from '../types.js';
+
+type Mailbox = string | { name: string; address: string };
+
+function formatMailbox(value: Mailbox): string {
+	return typeof value === 'string' ? value : `"${value.name.replace(/["\\]/g, '\\$&')}" <${value.address}>`;
+}
+
+/**
+ * Describe a rendered message the way it would go out, without the attachment contents. Used by
+ * the preview endpoints, which render through the same code as the send paths but never queue.
+ */
+export function buildMailPreview(mail: QueuedMail): MailPreview {
+	const headers: Record<string, string> = {
+		From: mail.from,
+		To: (Array.isArray(mail.to) ? mail.to : [mail.to]).map(formatMailbox).join(', '),
+		Subject: mail.subject
+	};
+	// Bcc is not a header on the sent message, so it is not listed here either.
+	if (mail.cc?.length) {
+		headers.Cc = mail.cc.join(', ');
+	}
+	if (mail.replyTo) {
+		headers['Reply-To'] = formatMailbox(mail.replyTo);
+	}
+	Object.assign(headers, mail.headers ?? {});
+	return {
+		subject: mail.subject,
+		html: mail.html,
+		text: mail.text,
+		attachments: (mail.attachments ?? []).map((attachment) => ({
+			filename: attachment.filename ?? '',
+			...(attachment.cid ? { cid: attachment.cid } : {})
+		})),
+		headers
+	};
+}
@@ -0,0 +1,74 @@
+import { ApiError } from '@technomoron/api-server-base';
+import emailAddresses, { ParsedMailbox } from 'email-addresses';
+
+import type { user_sandbox_type } from '../models/user.js';
+import type { QueuedMail } from '../types.js';
+
+type Mailbox = string | { name: string; address: string };
+
+function addressOf(entry: Mailbox): string {
+	return typeof entry === 'string' ? entry : entry.address;
+}
+
+function recipientList(to: QueuedMail['to']): Mailbox[] {
+	if (Array.isArray(to)) {
+		return to;
+	}
+	const parsed = emailAddresses.parseAddressList(to);
+	if (!parsed) {
+		return [to];
+	}
+	return parsed
+		.filter((entry): entry is ParsedMailbox => entry.type === 'mailbox')
+		.map((entry) => (entry.name ? { name: entry.name, address: entry.address } : entry.address));
+}
+
+/**
+ * Rewrite the recipients of a message for a user in sandbox mode. Recipients in `allow_domains` are
+ * kept, everyone else is replaced by the `catch_all` address (or dropped when there is none); cc and
+ * bcc addresses outside the allowed domains are dropped. The requested recipients are recorded in an
+ * `X-Original-To` header. Returns null when the message can go out unchanged, and throws when no
+ * recipient would be left.
+ */
+export function applySandbox(
+	sandbox: user_sandbox_type | null,
+	mail: QueuedMail
+): { mail: QueuedMail; rcpt: string; original_rcpt: string } | null {
+	if (!sandbox) {
+		return null;
+	}
+	const allowed = new Set(sandbox.allow_domains.map((domain) => domain.trim().toLowerCase()));
+	const isAllowed = (entry: Mailbox) => allowed.has((addressOf(entry).split('@').pop() ?? '').toLowerCase());
+
+	const original = recipientList(mail.to);
+	const kept = original.filter(isAllowed);
+	const cc = (mail.cc ?? []).filter(isAllowed);
+	const bcc = (mail.bcc ?? []).filter(isAllowed);
+	if (
+		kept.length === original.length &&
+		cc.length === (mail.cc ?? []).length &&
+		bcc.length === (mail.bcc ?? []).length
+	) {
+		return null;
+	}
+	const to: Mailbox[] = [...kept];
+	if (
+		kept.length < original.length &&
+		sandbox.catch_all &&
+		!to.some((entry) => addressOf(entry) === sandbox.catch_all)
+	) {
+		to.push(sandbox.catch_all);
+	}
+	const original_rcpt = original.map(addressOf).join(', ');
+	if (to.length === 0) {
+		throw new ApiError({
+			code: 403,
+			message: `Sandbox mode: recipient(s) ${original_rcpt} are not in the allowed domains`
+		});
+	}
+	return {
+		mail: { ...mail, to, cc, bcc, headers: { ...mail.headers, 'X-Original-To': original_rcpt } },
+		rcpt: to.map(addressOf).join(', '),
+		original_rcpt
+	};
+}
@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const SIGNATURE_BYTES = 16;
+
+/** Per-purpose signing secret derived from API_TOKEN_PEPPER, so each link type can be keyed separately. */
+export function deriveSecret(pepper: string, purpose: string): string {
+	return createHmac('sha256', pepper).update(`mail-magic:${purpose}`).digest('hex');
+}
+
+function sign(secret: string, body: string): Buffer {
+	return createHmac('sha256', secret).update(body).digest().subarray(0, SIGNATURE_BYTES);
+}
+
+/**
+ * URL-safe `<payload>.<signature>` token carrying a small JSON array. Links built from these tokens are
+ * stateless: nothing is stored per send, and a token stays valid for as long as the secret is unchanged.
+ */
+export function signToken(secret: string, payload: unknown[]): string {
+	const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+	return `${body}.${sign(secret, body).toString('base64url')}`;
+}
+
+/** Payload of a token signed with `secret`, or null when it is malformed or the signature does not match. */
+export function verifyToken(secret: string, token: string): unknown[] | null {
+	const [body, signature, ...rest] = token.split('.');
+	if (!body || !signature || rest.length) {
+		return null;
+	}
+	const expected = sign(secret, body);
+	const actual = Buffer.from(signature, 'base64url');
+	if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+		return null;
+	}
+	try {
+		const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as unknown;
+		return Array.isArray(payload) ? payload : null;
+	} catch {
+		return null;
+	}
+}
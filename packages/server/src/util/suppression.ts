@@ -0,0 +1,199 @@
+import { Op } from 'sequelize';
+
+import { api_suppression, SUPPRESSION_REASONS } from '../models/suppression.js';
+
+import { validateEmail } from './email.js';
+import { normalizeSlug } from './utils.js';
+
+import type { SuppressionReason } from '../models/suppression.js';
+
+export const SUPPRESSION_CSV_COLUMNS = ['email', 'reason', 'note', 'category', 'created_at'] as const;
+
+export type SuppressionCsvRow = {
+	line: number;
+	email: string;
+	reason: SuppressionReason;
+	note: string;
+	category: string;
+};
+export type SuppressionCsvError = { line: number; error: string };
+
+export function isSuppressionReason(value: string): value is SuppressionReason {
+	return (SUPPRESSION_REASONS as readonly string[]).includes(value);
+}
+
+/**
+ * Suppression entries for the given addresses, keyed by lowercased address. Addresses are compared
+ * case-insensitively; the list is stored lowercased. Use `suppressionFor` to pick the entry that
+ * applies to a send.
+ */
+export async function findSuppressions(domain_id: number, emails: string[]): Promise<Map<string, api_suppression[]>> {
+	const lookup = [...new Set(emails.map((email) => email.toLowerCase()))];
+	const found = new Map<string, api_suppression[]>();
+	if (!lookup.length) {
+		return found;
+	}
+	const rows = await api_suppression.findAll({ where: { domain_id, email: { [Op.in]: lookup } } });
+	for (const row of rows) {
+		found.set(row.email, [...(found.get(row.email) ?? []), row]);
+	}
+	return found;
+}
+
+/**
+ * The entry that blocks a send to `email` in `category`: entries without a category block all mail,
+ * the rest only mail in their own category.
+ */
+export function suppressionFor(
+	found: Map<string, api_suppression[]>,
+	email: string,
+	category: string
+): api_suppression | undefined {
+	const entries = found.get(email.toLowerCase()) ?? [];
+	return entries.find((entry) => entry.category === '') ?? entries.find((entry) => entry.category === category);
+}
+
+/** Add an address to the domain's list, or update the reason and note of an existing entry. */
+export async function upsertSuppression(params: {
+	domain_id: number;
+	email: string;
+	reason: SuppressionReason;
+	category?: string;
+	note?: string;
+}): Promise<{ record: api_suppression; created: boolean }> {
+	const email = params.email.trim().toLowerCase();
+	const category = params.category ?? '';
+	const existing = await api_suppression.findOne({ where: { domain_id: params.domain_id, email, category } });
+	if (existing) {
+		await existing.update({ reason: params.reason, note: params.note ?? existing.note });
+		return { record: existing, created: false };
+	}
+	const record = await api_suppression.create({
+		domain_id: params.domain_id,
+		email,
+		reason: params.reason,
+		category,
+		note: params.note ?? ''
+	});
+	return { record, created: true };
+}
+
+// RFC 4180 records: quoted fields may contain commas, doubled quotes and line breaks.
+function splitCsv(text: string): Array<{ line: number; fields: string[] }> {
+	const records: Array<{ line: number; fields: string[] }> = [];
+	let fields: string[] = [];
+	let field = '';
+	let quoted = false;
+	let line = 1;
+	let start = 1;
+	const endRecord = () => {
+		fields.push(field);
+		if (fields.some((value) => value.trim() !== '')) {
+			records.push({ line: start, fields });
+		}
+		fields = [];
+		field = '';
+	};
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (quoted) {
+			if (ch === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (ch === '"') {
+				quoted = false;
+			} else {
+				if (ch === '\n') {
+					line++;
+				}
+				field += ch;
+			}
+		} else if (ch === '"') {
+			quoted = true;
+		} else if (ch === ',') {
+			fields.push(field);
+			field = '';
+		} else if (ch === '\n' || ch === '\r') {
+			if (ch === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			endRecord();
+			line++;
+			start = line;
+		} else {
+			field += ch;
+		}
+	}
+	endRecord();
+	return records;
+}
+
+/**
+ * Parse a suppression CSV. A first row without an address is read as a header, and its `email`,
+ * `reason`, `note` and `category` columns are used wherever they appear (other columns are ignored,
+ * so exports from other providers can be loaded as they are). Without a header the columns are
+ * `email,reason,note,category`. Rows with an empty reason get `defaultReason`; bad rows are reported by line.
+ */
+export function parseSuppressionCsv(
+	text: string,
+	defaultReason: SuppressionReason
+): { rows: SuppressionCsvRow[]; errors: SuppressionCsvError[] } {
+	const records = splitCsv(text.replace(/^\uFEFF/, ''));
+	let columns = { email: 0, reason: 1, note: 2, category: 3 };
+	if (records.length && !records[0].fields.some((value) => value.includes('@'))) {
+		const header = records.shift()!.fields.map((value) => value.trim().toLowerCase());
+		columns = {
+			email: header.findIndex((name) => name === 'email' || name === 'email_address' || name === 'address'),
+			reason: header.indexOf('reason'),
+			note: header.indexOf('note'),
+			category: header.indexOf('category')
+		};
+		if (columns.email < 0) {
+			return { rows: [], errors: [{ line: 1, error: 'CSV header has no "email" column' }] };
+		}
+	}
+
+	const rows: SuppressionCsvRow[] = [];
+	const errors: SuppressionCsvError[] = [];
+	for (const { line, fields } of records) {
+		const cell = (index: number) => (index >= 0 ? (fields[index] ?? '').trim() : '');
+		const email = validateEmail(cell(columns.email));
+		if (!email) {
+			errors.push({ line, error: `Invalid email address: ${cell(columns.email)}` });
+			continue;
+		}
+		const reason = cell(columns.reason).toLowerCase() || defaultReason;
+		if (!isSuppressionReason(reason)) {
+			errors.push({
+				line,
+				error: `Invalid reason "${reason}"; must be one of: ${SUPPRESSION_REASONS.join(', ')}`
+			});
+			continue;
+		}
+		rows.push({
+			line,
+			email: email.toLowerCase(),
+			reason,
+			note: cell(columns.note),
+			category: normalizeSlug(cell(columns.category))
+		});
+	}
+	return { rows, errors };
+}
+
+function csvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Format suppression entries as CSV with a header row; the output can be imported again as-is. */
+export function formatSuppressionCsv(records: api_suppression[]): string {
+	const lines = [SUPPRESSION_CSV_COLUMNS.join(',')];
+	for (const record of records) {
+		lines.push(
+			[record.email, record.reason, record.note, record.category, record.createdAt.toISOString()]
+				.map(csvField)
+				.join(',')
+		);
+	}
+	return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,47 @@
+import { ApiError } from '@technomoron/api-server-base';
+
+import type { api_form } from '../models/form.js';
+import type { template_draft_type } from '../models/template-version.js';
+import type { api_txmail } from '../models/txmail.js';
+import type { StoredFile } from '../types.js';
+
+/**
+ * Draft of an uploaded template. `files` carries over the record's current assets, since an API
+ * upload does not rebuild them and previews, test-sends and publishing all need them.
+ */
+export function buildTemplateDraft(params: {
+	template: string;
+	text_template: string;
+	subject: string;
+	sender: string;
+	user_id: number;
+	files: StoredFile[];
+}): template_draft_type {
+	return { ...params, updated_at: new Date().toISOString() };
+}
+
+/**
+ * Swap the draft into the loaded record so the usual render path produces the draft. The record is
+ * only changed in memory and must not be saved afterwards. Throws 404 when there is no draft.
+ */
+export function applyTemplateDraft(record: api_txmail | api_form, label: string): void {
+	const draft = record.draft;
+	if (!draft) {
+		throw new ApiError({ code: 404, message: `${label} has no draft` });
+	}
+	record.template = draft.template;
+	record.text_template = draft.text_template;
+	record.subject = draft.subject;
+	record.sender = draft.sender;
+	// Drafts stored without assets keep the record's own rather than dropping them.
+	if (draft.files.length) {
+		record.files = draft.files;
+	}
+}
+
+/** Promote the draft to the published fields and clear it. Throws 404 when there is no draft. */
+export async function publishTemplateDraft(record: api_txmail | api_form, label: string): Promise<void> {
+	applyTemplateDraft(record, label);
+	record.draft = null;
+	await record.save();
+}
@@ -0,0 +1,180 @@
+import { api_template_version } from '../models/template-version.js';
+
+import type { api_form } from '../models/form.js';
+import type { TemplateVersionKind, TemplateVersionSource } from '../models/template-version.js';
+import type { api_txmail } from '../models/txmail.js';
+
+/** Above this many line pairs the diff gives up on matching and replaces the changed block whole. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type TemplateVersionSummary = {
+	version: number;
+	source: TemplateVersionSource;
+	user_id: number | null;
+	subject: string;
+	sender: string;
+	files: number;
+	created_at: string;
+};
+
+export type TemplateVersionDiff = {
+	from: number;
+	to: number;
+	/** Header fields whose value differs between the versions. */
+	changes: Record<string, { from: unknown; to: unknown }>;
+	/** Line diff of the HTML template; each line is prefixed with ' ', '-' or '+'. */
+	template: string[];
+	text_template: string[];
+};
+
+const VERSIONED_FIELDS = ['subject', 'sender', 'files'] as const;
+
+function contentOf(source: api_txmail | api_form | api_template_version) {
+	return {
+		template: source.template ?? '',
+		text_template: source.text_template ?? '',
+		subject: source.subject ?? '',
+		sender: source.sender ?? '',
+		files: Array.isArray(source.files) ? source.files : []
+	};
+}
+
+function recordIdOf(kind: TemplateVersionKind, record: api_txmail | api_form): number {
+	return kind === 'tx' ? (record as api_txmail).template_id : (record as api_form).form_id;
+}
+
+export function toTemplateVersionSummary(record: api_template_version): TemplateVersionSummary {
+	return {
+		version: record.version,
+		source: record.source,
+		user_id: record.user_id,
+		subject: record.subject,
+		sender: record.sender,
+		files: record.files.length,
+		created_at: record.createdAt.toISOString()
+	};
+}
+
+export async function latestTemplateVersion(
+	kind: TemplateVersionKind,
+	record_id: number
+): Promise<api_template_version | null> {
+	return api_template_version.findOne({ where: { kind, record_id }, order: [['version', 'DESC']] });
+}
+
+/**
+ * Snapshot a tx template or form after a write. Nothing is stored when the content, subject, sender
+ * and files match the latest version, so re-imports and repeated uploads do not pile up copies.
+ * Returns the version that now matches the record.
+ */
+export async function recordTemplateVersion(
+	kind: TemplateVersionKind,
+	record: api_txmail | api_form,
+	params: { user_id: number | null; source: TemplateVersionSource }
+): Promise<api_template_version> {
+	const record_id = recordIdOf(kind, record);
+	const content = contentOf(record);
+	const latest = await latestTemplateVersion(kind, record_id);
+	if (latest) {
+		const previous = contentOf(latest);
+		if (
+			previous.template === content.template &&
+			previous.text_template === content.text_template &&
+			previous.subject === content.subject &&
+			previous.sender === content.sender &&
+			JSON.stringify(previous.files) === JSON.stringify(content.files)
+		) {
+			return latest;
+		}
+	}
+	return api_template_version.create({
+		kind,
+		record_id,
+		domain_id: record.domain_id,
+		version: (latest?.version ?? 0) + 1,
+		user_id: params.user_id,
+		source: params.source,
+		...content
+	});
+}
+
+/**
+ * Line diff of two texts. Common leading and trailing lines are kept as context and the middle is
+ * matched with a longest-common-subsequence table.
+ */
+export function diffLines(before: string, after: string): string[] {
+	if (before === after) {
+		return [];
+	}
+	const a = before.split('\n');
+	const b = after.split('\n');
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const head = a.slice(0, start).map((line) => ` ${line}`);
+	const tail = a.slice(endA).map((line) => ` ${line}`);
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+	const n = midA.length;
+	const m = midB.length;
+
+	if (n * m > MAX_DIFF_CELLS) {
+		return [...head, ...midA.map((line) => `-${line}`), ...midB.map((line) => `+${line}`), ...tail];
+	}
+
+	// lcs[i][j] is the common subsequence length of midA[i..] and midB[j..].
+	const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+	const middle: string[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < n && j < m) {
+		if (midA[i] === midB[j]) {
+			middle.push(` ${midA[i]}`);
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			middle.push(`-${midA[i++]}`);
+		} else {
+			middle.push(`+${midB[j++]}`);
+		}
+	}
+	while (i < n) {
+		middle.push(`-${midA[i++]}`);
+	}
+	while (j < m) {
+		middle.push(`+${midB[j++]}`);
+	}
+	return [...head, ...middle, ...tail];
+}
+
+export function diffTemplateVersions(from: api_template_version, to: api_template_version): TemplateVersionDiff {
+	const before = contentOf(from);
+	const after = contentOf(to);
+	const changes: TemplateVersionDiff['changes'] = {};
+	for (const field of VERSIONED_FIELDS) {
+		if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+			changes[field] = { from: before[field], to: after[field] };
+		}
+	}
+	return {
+		from: from.version,
+		to: to.version,
+		changes,
+		template: diffLines(before.template, after.template),
+		text_template: diffLines(before.text_template, after.text_template)
+	};
+}
@@ -0,0 +1,73 @@
+import { MAIL_MAGIC_API_BASE_PATH } from './route.js';
+import { deriveSecret, signToken, verifyToken } from './signed-token.js';
+
+import type { api_domain } from '../models/domain.js';
+import type { api_txmail } from '../models/txmail.js';
+import type { MailStoreVars } from '../store/store.js';
+
+type TrackingVars = Pick<MailStoreVars, 'API_URL' | 'API_TOKEN_PEPPER'>;
+
+export function trackingSecret(vars: Pick<MailStoreVars, 'API_TOKEN_PEPPER'>): string {
+	return deriveSecret(vars.API_TOKEN_PEPPER, 'tracking');
+}
+
+/** Tracking is off unless the template turns it on, or leaves `track` unset on a domain that does. */
+export function isTrackingEnabled(template: Pick<api_txmail, 'track'>, domain: Pick<api_domain, 'track'>): boolean {
+	return template.track ?? domain.track;
+}
+
+function apiBase(vars: TrackingVars): string {
+	return `${String(vars.API_URL || '').replace(/\/+$/, '')}${MAIL_MAGIC_API_BASE_PATH}`;
+}
+
+/** Message id of an open-pixel token, or null when the token is not valid. */
+export function verifyOpenToken(secret: string, token: string): string | null {
+	const [message_id] = verifyToken(secret, token) ?? [];
+	return typeof message_id === 'string' && message_id ? message_id : null;
+}
+
+/** Message id and target of a click token, or null when the token is not valid. */
+export function verifyClickToken(secret: string, token: string): { message_id: string; url: string } | null {
+	const [message_id, url] = verifyToken(secret, token) ?? [];
+	if (typeof message_id !== 'string' || !message_id || typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+		return null;
+	}
+	return { message_id, url };
+}
+
+function decodeHtmlAttribute(value: string): string {
+	return value
+		.replace(/&amp;/gi, '&')
+		.replace(/&quot;/gi, '"')
+		.replace(/&#39;|&apos;/gi, "'")
+		.replace(/&lt;/gi, '<')
+		.replace(/&gt;/gi, '>');
+}
+
+/**
+ * Rewrite the http(s) links in rendered HTML to signed redirects through the click route and add an
+ * open pixel. mailto:/tel:/fragment links, unsubscribe links and links already pointing at the API are
+ * left alone, as is the plain-text part (which is not passed in here).
+ */
+export function addTracking(vars: TrackingVars, html: string, message_id: string): string {
+	const secret = trackingSecret(vars);
+	const base = apiBase(vars);
+
+	const rewritten = html.replace(
+		/(<a\b[^>]*?\shref\s*=\s*)(["'])(.*?)\2/gi,
+		(match: string, prefix: string, quote: string, href: string) => {
+			const url = decodeHtmlAttribute(href.trim());
+			if (!/^https?:\/\//i.test(url) || url.startsWith(`${base}/v1/`)) {
+				return match;
+			}
+			const token = signToken(secret, [message_id, url]);
+			return `${prefix}${quote}${base}/v1/track/click/${token}${quote}`;
+		}
+	);
+
+	const pixel =
+		`<img src="${base}/v1/track/open/${signToken(secret, [message_id])}" width="1" height="1" alt="" ` +
+		'style="display:block;width:1px;height:1px;border:0" />';
+	const close = rewritten.search(/<\/body\s*>(?![\s\S]*<\/body\s*>)/i);
+	return close >= 0 ? `${rewritten.slice(0, close)}${pixel}${rewritten.slice(close)}` : `${rewritten}${pixel}`;
+}
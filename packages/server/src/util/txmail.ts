@@ -0,0 +1,183 @@
+import { ApiError } from '@technomoron/api-server-base';
+import { convert } from 'html-to-text';
+import nunjucks from 'nunjucks';
+
+import { api_txmail } from '../models/txmail.js';
+
+import { validateEmail } from './email.js';
+import { isHeaderTemplate, renderHeaderText, renderSender } from './header-template.js';
+
+import type { api_domain } from '../models/domain.js';
+import type { api_user } from '../models/user.js';
+import type { RequestMeta } from '../types.js';
+
+export const ALLOWED_CUSTOM_HEADERS = new Set([
+	'x-mailer',
+	'x-priority',
+	'x-entity-ref-id',
+	'list-unsubscribe',
+	'list-unsubscribe-post',
+	'list-id',
+	'precedence',
+	'references',
+	'in-reply-to',
+	'message-id',
+	'importance'
+]);
+
+export function parseTemplateVars(vars: unknown): Record<string, unknown> {
+	let parsedVars: unknown = vars ?? {};
+	if (typeof vars === 'string') {
+		try {
+			parsedVars = JSON.parse(vars);
+		} catch {
+			throw new ApiError({ code: 400, message: 'Invalid JSON provided in "vars"' });
+		}
+	}
+	if (!parsedVars || typeof parsedVars !== 'object' || Array.isArray(parsedVars)) {
+		throw new ApiError({ code: 400, message: '"vars" must be a JSON object' });
+	}
+	return parsedVars as Record<string, unknown>;
+}
+
+export function normalizeCustomHeaders(headers: unknown): Record<string, string> | undefined {
+	if (headers === undefined) {
+		return undefined;
+	}
+	if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+		throw new ApiError({ code: 400, message: 'headers must be a key/value object' });
+	}
+	const normalized: Record<string, string> = {};
+	for (const [key, value] of Object.entries(headers as Record<string, unknown>)) {
+		if (typeof value !== 'string') {
+			throw new ApiError({ code: 400, message: `headers.${key} must be a string` });
+		}
+		if (!ALLOWED_CUSTOM_HEADERS.has(key.toLowerCase())) {
+			throw new ApiError({ code: 400, message: `Header "${key}" is not allowed` });
+		}
+		normalized[key] = value;
+	}
+	return normalized;
+}
+
+export function normalizeReplyTo(value: unknown): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const normalized = validateEmail(String(value));
+	if (!normalized) {
+		throw new ApiError({ code: 400, message: 'Invalid reply-to email address' });
+	}
+	return normalized;
+}
+
+/**
+ * Like normalizeReplyTo(), but a reply-to containing template syntax is kept as source and only
+ * validated once rendered for a recipient (see renderTxHeaders()).
+ */
+export function parseReplyToTemplate(value: unknown): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const source = String(value);
+	return isHeaderTemplate(source) ? source : normalizeReplyTo(source);
+}
+
+/**
+ * Look up a transactional template in deterministic locale order: the requested locale, then the
+ * domain default locale, then the empty-locale fallback. Returns null when none exists.
+ */
+export async function findTxTemplate(domain: api_domain, name: string, locale: string): Promise<api_txmail | null> {
+	const domain_id = domain.domain_id;
+	const deflocale = domain.locale || '';
+
+	// 1. Exact locale match
+	let template = await api_txmail.findOne({ where: { name, domain_id, locale } });
+	// 2. Domain/user default locale (if different from request locale)
+	if (!template && deflocale && deflocale !== locale) {
+		template = await api_txmail.findOne({ where: { name, domain_id, locale: deflocale } });
+	}
+	// 3. Empty-locale fallback (if not already tried above)
+	if (!template && locale !== '') {
+		template = await api_txmail.findOne({ where: { name, domain_id, locale: '' } });
+	}
+	return template;
+}
+
+export function resolveTxSender(template: api_txmail, domain: api_domain, user: api_user): string {
+	const sender = template.sender || domain.sender || user.email;
+	if (!sender) {
+		throw new ApiError({ code: 500, message: `Unable to locate sender for ${template.name}` });
+	}
+	return sender;
+}
+
+export type CompiledTemplate = {
+	html: nunjucks.Template;
+	/** Compiled text variant; null when the text part is converted from the HTML. */
+	text: nunjucks.Template | null;
+};
+
+// Environments without a loader keep no per-template state, so one per autoescape setting is shared
+// by every compile. The text part is not HTML and is never escaped.
+const environments = {
+	escaped: new nunjucks.Environment(null, { autoescape: true }),
+	plain: new nunjucks.Environment(null, { autoescape: false })
+};
+
+export function compileTemplate(html: string, text: string, autoescape: boolean): CompiledTemplate {
+	return {
+		html: nunjucks.compile(html, autoescape ? environments.escaped : environments.plain),
+		text: text ? nunjucks.compile(text, environments.plain) : null
+	};
+}
+
+export function compileTxTemplate(template: api_txmail, autoescape: boolean): CompiledTemplate {
+	return compileTemplate(template.template, template.text_template, autoescape);
+}
+
+export type TxRenderParams = {
+	vars: Record<string, unknown>;
+	rcpt: string;
+	attachmentMap: Record<string, string>;
+	meta: RequestMeta;
+	/** Signed unsubscribe link for templates with a category; empty otherwise. */
+	unsubscribeUrl?: string;
+};
+
+/** Variables available to the body, subject, sender name and reply-to templates. */
+export function buildTxContext(params: TxRenderParams): Record<string, unknown> {
+	return {
+		...params.vars,
+		_rcpt_email_: params.rcpt,
+		_attachments_: params.attachmentMap,
+		_vars_: params.vars,
+		_meta_: params.meta,
+		_unsubscribe_url_: params.unsubscribeUrl ?? ''
+	};
+}
+
+export async function renderTxBody(
+	compiled: CompiledTemplate,
+	params: TxRenderParams
+): Promise<{ html: string; text: string }> {
+	const context = buildTxContext(params);
+	const html = await compiled.html.render(context);
+	return { html, text: compiled.text ? compiled.text.render(context) : convert(html) };
+}
+
+/**
+ * Render the subject, the sender display name and the reply-to with the same context as the body.
+ * Line breaks are stripped from the results, and a rendered reply-to must be a valid address.
+ */
+export function renderTxHeaders(
+	headers: { subject: string; sender: string; replyTo?: string },
+	params: TxRenderParams
+): { subject: string; sender: string; replyTo?: string } {
+	const context = buildTxContext(params);
+	return {
+		subject: renderHeaderText(headers.subject, context),
+		sender: renderSender(headers.sender, context),
+		replyTo: headers.replyTo ? normalizeReplyTo(renderHeaderText(headers.replyTo, context)) : undefined
+	};
+}
@@ -0,0 +1,82 @@
+import { MAIL_MAGIC_API_BASE_PATH } from './route.js';
+import { deriveSecret, signToken, verifyToken } from './signed-token.js';
+
+import type { MailStoreVars } from '../store/store.js';
+
+export type UnsubscribePayload = { domain_id: number; email: string; category: string };
+
+type UnsubscribeVars = Pick<MailStoreVars, 'API_URL' | 'API_TOKEN_PEPPER' | 'UNSUBSCRIBE_SECRET'>;
+
+export function unsubscribeSecret(vars: Pick<MailStoreVars, 'API_TOKEN_PEPPER' | 'UNSUBSCRIBE_SECRET'>): string {
+	return vars.UNSUBSCRIBE_SECRET || deriveSecret(vars.API_TOKEN_PEPPER, 'unsubscribe');
+}
+
+/** Signed token naming the domain, recipient and category. */
+export function createUnsubscribeToken(secret: string, payload: UnsubscribePayload): string {
+	return signToken(secret, [payload.domain_id, payload.email.toLowerCase(), payload.category]);
+}
+
+/** Payload of a token signed with `secret`, or null when it is malformed or the signature does not match. */
+export function verifyUnsubscribeToken(secret: string, token: string): UnsubscribePayload | null {
+	const [domain_id, email, category] = verifyToken(secret, token) ?? [];
+	if (!Number.isInteger(domain_id) || typeof email !== 'string' || !email || typeof category !== 'string') {
+		return null;
+	}
+	return { domain_id: domain_id as number, email, category };
+}
+
+/**
+ * Unsubscribe URL for one recipient, plus the RFC 8058 headers that let mail clients offer a
+ * one-click unsubscribe (the client POSTs to the same URL).
+ */
+export function buildUnsubscribe(
+	vars: UnsubscribeVars,
+	payload: UnsubscribePayload
+): { url: string; headers: Record<string, string> } {
+	const base = String(vars.API_URL || '').replace(/\/+$/, '');
+	const token = createUnsubscribeToken(unsubscribeSecret(vars), payload);
+	const url = `${base}${MAIL_MAGIC_API_BASE_PATH}/v1/unsubscribe/${token}`;
+	return {
+		url,
+		headers: {
+			'List-Unsubscribe': `<${url}>`,
+			'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+		}
+	};
+}
+
+/** Add generated headers unless the caller already set the same header (in any letter case). */
+export function mergeHeaders(
+	generated: Record<string, string>,
+	custom: Record<string, string> | undefined
+): Record<string, string> | undefined {
+	const merged = { ...(custom ?? {}) };
+	const present = new Set(Object.keys(merged).map((key) => key.toLowerCase()));
+	for (const [key, value] of Object.entries(generated)) {
+		if (!present.has(key.toLowerCase())) {
+			merged[key] = value;
+		}
+	}
+	return Object.keys(merged).length ? merged : undefined;
+}
+
+function escapeHtml(value: string): string {
+	return value.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+/** Minimal standalone page for the unsubscribe endpoint; `confirm` adds a button that POSTs back to the same URL. */
+export function renderUnsubscribePage(params: { title: string; message: string; confirm?: boolean }): string {
+	return [
+		'<!doctype html>',
+		'<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">',
+		'<meta name="robots" content="noindex">',
+		`<title>${escapeHtml(params.title)}</title>`,
+		'<style>body{font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem;color:#222}',
+		'button{font-size:1rem;padding:.5rem 1.25rem;cursor:pointer}</style>',
+		'</head><body>',
+		`<h1>${escapeHtml(params.title)}</h1>`,
+		`<p>${escapeHtml(params.message)}</p>`,
+		params.confirm ? '<form method="post"><button type="submit">Unsubscribe</button></form>' : '',
+		'</body></html>'
+	].join('\n');
+}
@@ -5,7 +5,7 @@ import { ApiError } from '@technomoron/api-server-base';
 
 import { SEGMENT_PATTERN } from './paths.js';
 
-import type { UploadedFile } from '../types.js';
+import type { QueuedAttachment, UploadedFile } from '../types.js';
 
 export function buildAttachments(rawFiles: UploadedFile[]): {
 	attachments: Array<{ filename: string; path?: string; content?: Buffer }>;
@@ -22,6 +22,35 @@ export function buildAttachments(rawFiles: UploadedFile[]): {
 	return { attachments, attachmentMap };
 }
 
+/**
+ * Convert nodemailer attachment options into the JSON-safe shape stored in the outbox. Buffers are
+ * base64 encoded; with `inlineFiles` set, file paths are read as well so the queued message does not
+ * depend on files that are removed after the request.
+ */
+export async function serializeAttachments(
+	attachments: Array<{ filename?: string; path?: string; cid?: string; content?: Buffer }>,
+	inlineFiles = false
+): Promise<QueuedAttachment[]> {
+	const out: QueuedAttachment[] = [];
+	for (const attachment of attachments) {
+		const entry: QueuedAttachment = {
+			...(attachment.filename ? { filename: attachment.filename } : {}),
+			...(attachment.cid ? { cid: attachment.cid } : {})
+		};
+		if (attachment.content) {
+			entry.content = attachment.content.toString('base64');
+			entry.encoding = 'base64';
+		} else if (attachment.path && inlineFiles) {
+			entry.content = (await fs.promises.readFile(attachment.path)).toString('base64');
+			entry.encoding = 'base64';
+		} else if (attachment.path) {
+			entry.path = attachment.path;
+		}
+		out.push(entry);
+	}
+	return out;
+}
+
 export async function cleanupUploadedFiles(files: UploadedFile[]): Promise<void> {
 	await Promise.all(
 		files.map(async (file) => {
@@ -0,0 +1,77 @@
+import { ApiError } from '@technomoron/api-server-base';
+import { z } from 'zod';
+
+import type { api_txmail } from '../models/txmail.js';
+
+export type VarsValidator = z.ZodType;
+
+/** Compile a template's JSON Schema for `vars`. Throws when the schema uses unsupported keywords. */
+export function compileVarsSchema(schema: Record<string, unknown>): VarsValidator {
+	try {
+		return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+	} catch (err) {
+		throw new Error(`Invalid vars schema: ${(err as Error).message}`);
+	}
+}
+
+/** Validator for a template's vars, or null when the template declares no schema. */
+export function templateVarsValidator(template: api_txmail): VarsValidator | null {
+	if (!template.vars_schema) {
+		return null;
+	}
+	try {
+		return compileVarsSchema(template.vars_schema);
+	} catch (err) {
+		throw new ApiError({ code: 500, message: `Template "${template.name}": ${(err as Error).message}` });
+	}
+}
+
+function valueAt(vars: Record<string, unknown>, path: PropertyKey[]): unknown {
+	let value: unknown = vars;
+	for (const key of path) {
+		if (!value || typeof value !== 'object') {
+			return undefined;
+		}
+		value = (value as Record<PropertyKey, unknown>)[key];
+	}
+	return value;
+}
+
+/**
+ * Check send vars against the template's schema. Throws 422 naming each missing or invalid field;
+ * `errors` maps the field path (`vars.order.id`) to the reason.
+ */
+export function assertTemplateVars(validator: VarsValidator | null, vars: Record<string, unknown>, name: string): void {
+	if (!validator) {
+		return;
+	}
+	const result = validator.safeParse(vars);
+	if (result.success) {
+		return;
+	}
+	const missing: string[] = [];
+	const invalid: string[] = [];
+	const errors: Record<string, string> = {};
+	for (const issue of result.error.issues) {
+		const field = issue.path.map(String).join('.');
+		const key = field ? `vars.${field}` : 'vars';
+		if (errors[key]) {
+			continue;
+		}
+		if (field && valueAt(vars, issue.path) === undefined) {
+			missing.push(field);
+			errors[key] = 'Required';
+		} else {
+			invalid.push(field || 'vars');
+			errors[key] = issue.message;
+		}
+	}
+	const parts: string[] = [];
+	if (missing.length) {
+		parts.push(`missing ${missing.join(', ')}`);
+	}
+	if (invalid.length) {
+		parts.push(`invalid ${invalid.join(', ')}`);
+	}
+	throw new ApiError({ code: 422, message: `Invalid vars for template "${name}": ${parts.join('; ')}`, errors });
+}
@@ -0,0 +1,80 @@
+import { createHmac, randomBytes } from 'crypto';
+
+import { nanoid } from 'nanoid';
+
+import { api_domain } from '../models/domain.js';
+import { api_webhook_delivery } from '../models/webhook-delivery.js';
+import { api_webhook } from '../models/webhook.js';
+
+import type { api_message } from '../models/message.js';
+import type { WebhookEventType } from '../models/webhook.js';
+
+/** Random secret for webhooks created without one. */
+export function generateWebhookSecret(): string {
+	return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Value of the X-Mail-Magic-Signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Receivers recompute the HMAC over the raw body and should reject old timestamps to stop replays.
+ */
+export function webhookSignature(secret: string, timestamp: number, body: string): string {
+	const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+	return `t=${timestamp},v1=${digest}`;
+}
+
+/** Message fields included in `data` for message.* events. */
+export function messageEventData(record: api_message): Record<string, unknown> {
+	return {
+		message_id: record.message_id,
+		kind: record.kind,
+		template: record.template,
+		rcpt: record.rcpt,
+		subject: record.subject,
+		status: record.status,
+		attempts: record.attempts,
+		smtp_message_id: record.smtp_message_id,
+		smtp_response: record.smtp_response,
+		error: record.error,
+		sent_at: record.sent_at ? record.sent_at.toISOString() : null
+	};
+}
+
+/**
+ * Queue one event for every enabled webhook of the domain subscribed to its type. All deliveries share
+ * the event id so receivers can de-duplicate retries. Returns the number of deliveries queued.
+ */
+export async function queueWebhookEvent(params: {
+	domain_id: number;
+	type: WebhookEventType;
+	data: Record<string, unknown>;
+	max_attempts: number;
+}): Promise<number> {
+	const hooks = (await api_webhook.findAll({ where: { domain_id: params.domain_id, enabled: true } })).filter(
+		(hook) => hook.events.includes(params.type)
+	);
+	if (!hooks.length) {
+		return 0;
+	}
+	const domain = await api_domain.findByPk(params.domain_id);
+	const event_id = nanoid();
+	const payload = {
+		id: event_id,
+		type: params.type,
+		created_at: new Date().toISOString(),
+		domain: domain?.name ?? '',
+		data: params.data
+	};
+	for (const hook of hooks) {
+		await api_webhook_delivery.create({
+			webhook_id: hook.webhook_id,
+			domain_id: params.domain_id,
+			event_id,
+			type: params.type,
+			payload,
+			max_attempts: Math.max(1, params.max_attempts),
+			next_attempt_at: new Date()
+		});
+	}
+	return hooks.length;
+}
@@ -0,0 +1,122 @@
+import request from 'supertest';
+
+import { api_outbox } from '../src/models/outbox.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('tx batch send', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+
+		const storeRes = await api
+			.post('/api/v1/tx/template')
+			.set('Authorization', `Bearer apikey-${ctx.userToken}`)
+			.send({
+				domain: ctx.domainName,
+				name: 'batch-note',
+				sender: 'sender@example.test',
+				subject: 'Batch note',
+				template: '<p>Hi {{ first_name }} ({{ _rcpt_email_ }})</p>'
+			});
+		expect(storeRes.status).toBe(200);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	test('renders each entry with its own vars and reports per-entry results', async () => {
+		const res = await api
+			.post('/api/v1/tx/batch')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'batch-note',
+				entries: [
+					{ rcpt: 'ada@example.test', vars: { first_name: 'Ada' } },
+					{ rcpt: 'not-an-email', vars: { first_name: 'Nobody' } },
+					{ rcpt: 'grace@example.test', vars: { first_name: 'Grace' }, headers: { 'X-Entity-Ref-ID': 'g-1' } }
+				]
+			});
+
+		expect(res.status).toBe(207);
+		const data = res.body.data;
+		expect(data.Status).toBe('PARTIAL');
+		expect(data.queued).toBe(2);
+		expect(data.failed).toBe(1);
+		expect(data.results.map((r: { status: string }) => r.status)).toEqual(['queued', 'failed', 'queued']);
+		expect(data.results[1].error).toContain('Invalid email address');
+
+		const grace = await api_outbox.findOne({ where: { message_id: data.results[2].message_id } });
+		expect(grace?.payload.html).toContain('Hi Grace (grace@example.test)');
+		expect(grace?.payload.headers).toEqual({ 'X-Entity-Ref-ID': 'g-1' });
+
+		const first = await ctx!.smtp.waitForMessage();
+		const second = await ctx!.smtp.waitForMessage();
+		const bodies = [first, second].map((message) => String(message.html ?? ''));
+		expect(bodies.some((html) => html.includes('Hi Ada'))).toBe(true);
+		expect(bodies.some((html) => html.includes('Hi Grace'))).toBe(true);
+	});
+
+	test('rejects disallowed headers per entry without failing the batch', async () => {
+		const res = await api
+			.post('/api/v1/tx/batch')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'batch-note',
+				entries: [
+					{ rcpt: 'ok@example.test', vars: { first_name: 'Ok' } },
+					{ rcpt: 'bad-header@example.test', headers: { Bcc: 'spy@example.test' } }
+				]
+			});
+
+		expect(res.status).toBe(207);
+		expect(res.body.data.results[0].status).toBe('queued');
+		expect(res.body.data.results[1]).toMatchObject({ status: 'failed', error: 'Header "Bcc" is not allowed' });
+	});
+
+	test('fails the whole request for an unknown template or empty entries', async () => {
+		const missing = await api
+			.post('/api/v1/tx/batch')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'no-such-template', entries: [{ rcpt: 'a@example.test' }] });
+		expect(missing.status).toBe(404);
+
+		const empty = await api
+			.post('/api/v1/tx/batch')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'batch-note', entries: [] });
+		expect(empty.status).toBe(400);
+	});
+
+	test('enforces TX_BATCH_MAX', async () => {
+		const original = ctx!.store.vars.TX_BATCH_MAX;
+		ctx!.store.vars.TX_BATCH_MAX = 1;
+		try {
+			const res = await api
+				.post('/api/v1/tx/batch')
+				.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+				.send({
+					domain: ctx!.domainName,
+					name: 'batch-note',
+					entries: [{ rcpt: 'a@example.test' }, { rcpt: 'b@example.test' }]
+				});
+			expect(res.status).toBe(413);
+		} finally {
+			ctx!.store.vars.TX_BATCH_MAX = original;
+		}
+	});
+});
@@ -0,0 +1,229 @@
+import request from 'supertest';
+
+import { api_message } from '../src/models/message.js';
+import { api_suppression } from '../src/models/suppression.js';
+import { parseDeliveryReport, verpAddress, verpMessageId } from '../src/util/bounce.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+function dsn(params: { to?: string; messageId?: string; rcpt: string; action?: string; status?: string }): string {
+	return [
+		'From: MAILER-DAEMON@mx.example.test',
+		`To: ${params.to ?? 'bounces@example.test'}`,
+		'Subject: Undelivered Mail Returned to Sender',
+		'MIME-Version: 1.0',
+		'Content-Type: multipart/report; report-type=delivery-status;',
+		'\tboundary="dsn-boundary"',
+		'',
+		'--dsn-boundary',
+		'Content-Type: text/plain; charset=us-ascii',
+		'',
+		'Your message could not be delivered.',
+		'',
+		'--dsn-boundary',
+		'Content-Type: message/delivery-status',
+		'',
+		'Reporting-MTA: dns; mx.example.test',
+		'',
+		`Final-Recipient: rfc822; ${params.rcpt}`,
+		`Action: ${params.action ?? 'failed'}`,
+		`Status: ${params.status ?? '5.1.1'}`,
+		'Diagnostic-Code: smtp; 550 5.1.1 <' + params.rcpt + '>: Recipient address rejected',
+		'',
+		'--dsn-boundary',
+		'Content-Type: text/rfc822-headers',
+		'',
+		'From: sender@example.test',
+		`To: ${params.rcpt}`,
+		...(params.messageId ? [`Message-ID: ${params.messageId}`] : []),
+		'Subject: Welcome',
+		'',
+		'--dsn-boundary--',
+		''
+	].join('\r\n');
+}
+
+function arf(params: { messageId: string; rcpt: string }): string {
+	return [
+		'From: feedback@isp.example.test',
+		'To: abuse@example.test',
+		'Subject: Complaint',
+		'MIME-Version: 1.0',
+		'Content-Type: multipart/report; report-type=feedback-report; boundary="arf"',
+		'',
+		'--arf',
+		'Content-Type: text/plain',
+		'',
+		'This is an email abuse report.',
+		'--arf',
+		'Content-Type: message/feedback-report',
+		'',
+		'Feedback-Type: abuse',
+		'Version: 1',
+		`Original-Rcpt-To: ${params.rcpt}`,
+		'',
+		'--arf',
+		'Content-Type: message/rfc822',
+		'',
+		'From: sender@example.test',
+		`To: ${params.rcpt}`,
+		`Message-ID: ${params.messageId}`,
+		'',
+		'Body',
+		'--arf--',
+		''
+	].join('\r\n');
+}
+
+describe('delivery report parsing', () => {
+	test('reads recipients, status and the original Message-ID from a DSN', () => {
+		const report = parseDeliveryReport(dsn({ rcpt: 'Gone@Example.test', messageId: '<abc@mx.example.test>' }));
+		expect(report).toMatchObject({
+			kind: 'dsn',
+			original_message_id: 'abc@mx.example.test',
+			addresses: ['bounces@example.test'],
+			recipients: [
+				{
+					email: 'gone@example.test',
+					action: 'failed',
+					status: '5.1.1',
+					diagnostic: '550 5.1.1 <Gone@Example.test>: Recipient address rejected'
+				}
+			]
+		});
+	});
+
+	test('reads ARF complaints and ignores ordinary mail', () => {
+		const report = parseDeliveryReport(arf({ rcpt: 'reader@example.test', messageId: '<m1@example.test>' }));
+		expect(report).toMatchObject({
+			kind: 'arf',
+			feedback_type: 'abuse',
+			original_message_id: 'm1@example.test',
+			recipients: [{ email: 'reader@example.test', action: 'complaint' }]
+		});
+		expect(parseDeliveryReport('From: a@example.test\r\nSubject: hi\r\n\r\nHello')).toBeNull();
+	});
+
+	test('round-trips message ids through VERP addresses', () => {
+		const address = verpAddress('bounces@example.test', 'Ab_c-12');
+		expect(address).toBe('bounces+Ab_c-12@example.test');
+		expect(verpMessageId('bounces@example.test', address)).toBe('Ab_c-12');
+		expect(verpMessageId('bounces@example.test', 'bounces+x@other.test')).toBeNull();
+		expect(verpMessageId('bounces@example.test', 'bounces@example.test')).toBeNull();
+	});
+});
+
+describe('bounce ingestion', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext({ env: { BOUNCE_VERP_ADDRESS: 'bounces@example.test' } });
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	async function send(rcpt: string): Promise<string> {
+		const res = await api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt });
+		expect(res.status).toBe(200);
+		await ctx!.smtp.waitForMessage();
+		return res.body.data.results[0].message_id;
+	}
+
+	function ingest(body: Record<string, unknown>) {
+		return api
+			.post('/api/v1/bounces')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, ...body });
+	}
+
+	test('matches a DSN by Message-ID, marks the message bounced and suppresses the address', async () => {
+		const message_id = await send('gone@example.test');
+		const logged = await api_message.findOne({ where: { message_id } });
+
+		const res = await ingest({ message: dsn({ rcpt: 'gone@example.test', messageId: logged!.smtp_message_id }) });
+		expect(res.status).toBe(200);
+		expect(res.body.data).toMatchObject({ kind: 'dsn', matched: true });
+		expect(res.body.data.message).toMatchObject({ message_id, status: 'bounced' });
+		expect(res.body.data.recipients[0]).toMatchObject({ email: 'gone@example.test', suppressed: true });
+
+		const entry = await api_suppression.findOne({ where: { email: 'gone@example.test' } });
+		expect(entry).toMatchObject({ reason: 'bounce', category: '' });
+		expect(entry!.note).toContain('5.1.1');
+	});
+
+	test('matches by VERP recipient and can skip the suppression', async () => {
+		const message_id = await send('verp@example.test');
+
+		const res = await ingest({
+			message: dsn({ rcpt: 'verp@example.test', to: 'MAILER <nobody@example.test>' }),
+			recipient: verpAddress('bounces@example.test', message_id),
+			suppress: false
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.message).toMatchObject({ message_id, status: 'bounced' });
+		expect(await api_suppression.count({ where: { email: 'verp@example.test' } })).toBe(0);
+	});
+
+	test('records complaints and leaves delays alone', async () => {
+		const message_id = await send('complainer@example.test');
+		const logged = await api_message.findOne({ where: { message_id } });
+
+		const delayed = await ingest({
+			message: dsn({
+				rcpt: 'complainer@example.test',
+				messageId: logged!.smtp_message_id,
+				action: 'delayed',
+				status: '4.4.1'
+			})
+		});
+		expect(delayed.body.data.message.status).toBe('sent');
+
+		const res = await ingest({
+			message: arf({ rcpt: 'complainer@example.test', messageId: logged!.smtp_message_id })
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.message.status).toBe('complained');
+		expect(await api_suppression.findOne({ where: { email: 'complainer@example.test' } })).toMatchObject({
+			reason: 'complaint'
+		});
+	});
+
+	test('accepts unmatched reports without side effects and rejects non-reports', async () => {
+		const unmatched = await ingest({ message: dsn({ rcpt: 'stranger@example.test', messageId: '<nope@x>' }) });
+		expect(unmatched.status).toBe(200);
+		expect(unmatched.body.data).toMatchObject({ matched: false, message: null });
+		expect(await api_suppression.count({ where: { email: 'stranger@example.test' } })).toBe(0);
+
+		const plain = await ingest({ message: 'From: a@example.test\r\n\r\nHello' });
+		expect(plain.status).toBe(422);
+	});
+
+	test("does not match messages from another user's domain", async () => {
+		const message_id = await send('scoped@example.test');
+		const res = await api
+			.post('/api/v1/bounces')
+			.set('Authorization', `Bearer apikey-${ctx!.otherUserToken}`)
+			.send({
+				domain: ctx!.otherDomainName,
+				message: dsn({ rcpt: 'scoped@example.test' }),
+				recipient: verpAddress('bounces@example.test', message_id)
+			});
+		expect(res.status).toBe(200);
+		expect(res.body.data.matched).toBe(false);
+	});
+});
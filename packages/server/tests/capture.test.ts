@@ -0,0 +1,124 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import request from 'supertest';
+
+import { MailCapture } from '../src/store/capture.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+const mail = (to: string) => ({ from: 'a@example.test', to, subject: `To ${to}`, html: '<p>Hi</p>', text: 'Hi' });
+
+describe('MailCapture', () => {
+	test('keeps the newest messages in memory', async () => {
+		const capture = new MailCapture('memory', { dir: '', max: 2 });
+		for (const rcpt of ['one@example.test', 'two@example.test', 'three@example.test']) {
+			const info = await capture.send(mail(rcpt), mail(rcpt), { domain_id: 1 });
+			expect(info.transport).toBe('memory');
+		}
+
+		const entries = capture.list();
+		expect(entries.map((entry) => entry.envelope.to)).toEqual([['three@example.test'], ['two@example.test']]);
+		expect(entries[0].raw).toContain('Subject: To three@example.test');
+		expect(capture.list({ rcpt: 'TWO@example.test' })).toHaveLength(1);
+		expect(capture.list({ domain_id: 2 })).toHaveLength(0);
+		expect(capture.clear(1)).toBe(2);
+	});
+});
+
+describe('MAIL_TRANSPORT capture modes', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	afterEach(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+			ctx = null;
+		}
+	});
+
+	async function start(env: Record<string, string | number>) {
+		ctx = await createTestContext({ env });
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	}
+
+	function send(rcpt: string) {
+		return api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'welcome',
+				rcpt,
+				vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' }
+			});
+	}
+
+	test('memory mode captures messages and serves them on the debug outbox', async () => {
+		await start({ MAIL_TRANSPORT: 'memory' });
+
+		const res = await send('captured@example.test');
+		expect(res.status).toBe(200);
+		expect(res.body.data.results[0]).toMatchObject({ status: 'sent', transport: 'memory' });
+		const { message_id } = res.body.data.results[0];
+
+		const outbox = await api
+			.get('/api/v1/debug/outbox')
+			.query({ domain: ctx!.domainName, rcpt: 'captured@example.test' })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(outbox.status).toBe(200);
+		expect(outbox.body.data.messages).toHaveLength(1);
+		const [captured] = outbox.body.data.messages;
+		expect(captured).toMatchObject({
+			message_id,
+			subject: 'Welcome!',
+			envelope: { to: ['captured@example.test'] }
+		});
+		expect(captured.html).toContain('Hello Jane');
+		expect(captured.raw).toContain('Subject: Welcome!');
+
+		const other = await api
+			.get('/api/v1/debug/outbox')
+			.query({ domain: ctx!.otherDomainName })
+			.set('Authorization', `Bearer apikey-${ctx!.otherUserToken}`);
+		expect(other.body.data.messages).toHaveLength(0);
+
+		const cleared = await api
+			.delete('/api/v1/debug/outbox')
+			.query({ domain: ctx!.domainName })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(cleared.body.data.removed).toBe(1);
+		expect(ctx!.smtp.messages).toHaveLength(0);
+	});
+
+	test('file mode writes .eml and JSON metadata per message', async () => {
+		const captureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-capture-'));
+		try {
+			await start({ MAIL_TRANSPORT: 'file', MAIL_CAPTURE_PATH: captureDir });
+
+			const res = await send('filed@example.test');
+			const { message_id } = res.body.data.results[0];
+			expect(res.body.data.results[0].transport).toBe('file');
+
+			const eml = fs.readFileSync(path.join(captureDir, `${message_id}.eml`), 'utf8');
+			expect(eml).toContain('To: filed@example.test');
+			const meta = JSON.parse(fs.readFileSync(path.join(captureDir, `${message_id}.json`), 'utf8'));
+			expect(meta).toMatchObject({ message_id, subject: 'Welcome!' });
+			expect(ctx!.smtp.messages).toHaveLength(0);
+		} finally {
+			fs.rmSync(captureDir, { recursive: true, force: true });
+		}
+	});
+
+	test('the debug outbox is unavailable with the smtp transport', async () => {
+		await start({});
+		const res = await api
+			.get('/api/v1/debug/outbox')
+			.query({ domain: ctx!.domainName })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(res.status).toBe(404);
+	});
+});
@@ -0,0 +1,80 @@
+import request from 'supertest';
+
+import { api_txmail } from '../src/models/txmail.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('tx cc/bcc', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		// Capture in memory so the SMTP envelope (which is where bcc lives) can be inspected.
+		ctx = await createTestContext({ env: { MAIL_TRANSPORT: 'memory' } });
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.store.capture?.clear();
+	});
+
+	function send(body: Record<string, unknown>) {
+		return api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt: 'user@example.test', ...body });
+	}
+
+	test('adds cc as a header and bcc only to the envelope', async () => {
+		const res = await send({ cc: 'manager@example.test', bcc: 'archive@example.test, archive@example.test' });
+		expect(res.status).toBe(200);
+
+		const [captured] = ctx!.store.capture!.list();
+		expect(captured.headers.Cc).toBe('manager@example.test');
+		expect(captured.envelope.to).toEqual(['user@example.test', 'manager@example.test', 'archive@example.test']);
+		expect(captured.raw).toContain('Cc: manager@example.test');
+		expect(captured.raw).not.toMatch(/^Bcc:/im);
+	});
+
+	test('rejects invalid cc/bcc addresses', async () => {
+		const res = await send({ cc: 'manager@example.test, nope' });
+		expect(res.status).toBe(400);
+		expect(ctx!.store.capture!.list()).toHaveLength(0);
+	});
+
+	test('adds the template default bcc to every send', async () => {
+		await api_txmail.update({ bcc: 'compliance@example.test' }, { where: { name: 'welcome' } });
+		try {
+			await send({ bcc: 'extra@example.test' });
+			const [captured] = ctx!.store.capture!.list();
+			expect(captured.envelope.to).toEqual([
+				'user@example.test',
+				'extra@example.test',
+				'compliance@example.test'
+			]);
+		} finally {
+			await api_txmail.update({ bcc: '' }, { where: { name: 'welcome' } });
+		}
+	});
+
+	test('stores a default bcc with the template', async () => {
+		const res = await api.post('/api/v1/tx/template').set('Authorization', `Bearer apikey-${ctx!.userToken}`).send({
+			domain: ctx!.domainName,
+			name: 'archived',
+			template: '<p>Hi</p>',
+			sender: 'sender@example.test',
+			bcc: 'archive@example.test'
+		});
+		expect(res.status).toBe(200);
+		const template = await api_txmail.findOne({ where: { name: 'archived' } });
+		expect(template?.bcc).toBe('archive@example.test');
+	});
+});
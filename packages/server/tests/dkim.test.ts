@@ -0,0 +1,128 @@
+import { generateKeyPairSync } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import request from 'supertest';
+
+import { api_domain } from '../src/models/domain.js';
+import { importData } from '../src/models/init.js';
+import { validateDkimConfig } from '../src/util/dkim.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+import type { ParsedMail } from 'mailparser';
+
+function dkimHeader(message: ParsedMail): string {
+	// Unfold the header so tag checks do not depend on where nodemailer wrapped it.
+	const line = message.headerLines.find((header) => header.key === 'dkim-signature')?.line ?? '';
+	return line.replace(/\s+/g, '');
+}
+
+describe('per-domain DKIM signing', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+
+		const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+		const keyDir = path.join(ctx.configPath, ctx.domainName, 'dkim');
+		fs.mkdirSync(keyDir, { recursive: true });
+		fs.writeFileSync(path.join(keyDir, 'mail.pem'), privateKey.export({ type: 'pkcs8', format: 'pem' }));
+		fs.writeFileSync(path.join(keyDir, 'broken.pem'), 'not a key');
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	test('validates key files relative to the domain directory', () => {
+		const { configPath, domainName } = ctx!;
+		expect(() =>
+			validateDkimConfig(configPath, domainName, { selector: 'mail', key_path: 'dkim/mail.pem' })
+		).not.toThrow();
+		expect(() =>
+			validateDkimConfig(configPath, domainName, { selector: 'mail', key_path: 'dkim/broken.pem' })
+		).toThrow('not a valid private key');
+		expect(() =>
+			validateDkimConfig(configPath, domainName, { selector: 'mail', key_path: 'dkim/missing.pem' })
+		).toThrow('not readable');
+		expect(() =>
+			validateDkimConfig(configPath, domainName, { selector: 'mail', key_path: '../other.test/dkim/mail.pem' })
+		).toThrow("cannot include '..'");
+
+		const { privateKey } = generateKeyPairSync('ed25519');
+		fs.writeFileSync(
+			path.join(configPath, domainName, 'dkim', 'ed25519.pem'),
+			privateKey.export({ type: 'pkcs8', format: 'pem' })
+		);
+		expect(() =>
+			validateDkimConfig(configPath, domainName, { selector: 'mail', key_path: 'dkim/ed25519.pem' })
+		).toThrow('an RSA key is required');
+	});
+
+	test('signs tx and form mail for domains with DKIM settings', async () => {
+		await api_domain.update(
+			{ dkim: { selector: 'mail', key_path: 'dkim/mail.pem', headers: ['From', 'To', 'Subject'] } },
+			{ where: { name: ctx!.domainName } }
+		);
+		try {
+			const tx = await api
+				.post('/api/v1/tx/message')
+				.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+				.send({
+					domain: ctx!.domainName,
+					name: 'welcome',
+					rcpt: 'signed@example.test',
+					vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' }
+				});
+			expect(tx.status).toBe(200);
+			const txHeader = dkimHeader(await ctx!.smtp.waitForMessage());
+			expect(txHeader).toContain('d=example.test');
+			expect(txHeader).toContain('s=mail');
+			expect(txHeader).toContain('h=from:to:subject');
+
+			const form = await api.post('/api/v1/form/message').send({
+				_mm_form_key: ctx!.contactFormKey,
+				name: 'Ada',
+				email: 'ada@example.test'
+			});
+			expect(form.status).toBe(200);
+			const formMessage = await ctx!.smtp.waitForMessage();
+			expect(dkimHeader(formMessage)).toContain('s=mail');
+		} finally {
+			await api_domain.update({ dkim: null }, { where: { name: ctx!.domainName } });
+		}
+	});
+
+	test('sends unsigned mail when the domain has no DKIM settings', async () => {
+		await api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt: 'unsigned@example.test' });
+		expect(dkimHeader(await ctx!.smtp.waitForMessage())).toBe('');
+	});
+
+	test('fails the import when a domain references an invalid key', async () => {
+		const initFile = path.join(ctx!.configPath, 'init-data.json');
+		const original = fs.readFileSync(initFile, 'utf8');
+		const data = JSON.parse(original);
+		data.domain[0].dkim = { selector: 'mail', key_path: 'dkim/broken.pem' };
+		fs.writeFileSync(initFile, JSON.stringify(data));
+		try {
+			await expect(importData(ctx!.store)).rejects.toThrow('Invalid DKIM configuration for domain example.test');
+			const domain = await api_domain.findOne({ where: { name: ctx!.domainName } });
+			expect(domain?.dkim).toBeNull();
+		} finally {
+			fs.writeFileSync(initFile, original);
+		}
+	});
+});
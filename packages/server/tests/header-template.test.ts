@@ -0,0 +1,140 @@
+import request from 'supertest';
+
+import { renderHeaderText, renderSender } from '../src/util/header-template.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('header templates', () => {
+	test('renders subjects without escaping and strips line breaks', () => {
+		expect(renderHeaderText('Hi {{ name }} & co', { name: "O'Brien <ob>" })).toBe("Hi O'Brien <ob> & co");
+		expect(renderHeaderText('Hi {{ name }}', { name: 'x\r\nBcc: victim@example.test' })).toBe(
+			'Hi x Bcc: victim@example.test'
+		);
+		expect(renderHeaderText('Plain subject', {})).toBe('Plain subject');
+	});
+
+	test('only templates the sender display name', () => {
+		expect(renderSender('{{ team }} <noreply@example.test>', { team: 'Billing "EU"' })).toBe(
+			'"Billing \\"EU\\"" <noreply@example.test>'
+		);
+		expect(renderSender('"{{ team }}" <noreply@example.test>', { team: 'Ops' })).toBe(
+			'"Ops" <noreply@example.test>'
+		);
+		expect(renderSender('{{ team }} <noreply@example.test>', {})).toBe('noreply@example.test');
+		expect(renderSender('Team <noreply@example.test>', { team: 'x' })).toBe('Team <noreply@example.test>');
+		expect(renderSender('{{ addr }}@example.test', { addr: 'ceo' })).toBe('{{ addr }}@example.test');
+	});
+});
+
+describe('templated subject, sender and reply-to', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+
+		const stored = await authed('post', '/api/v1/tx/template').send({
+			domain: ctx.domainName,
+			name: 'order',
+			sender: '{{ shop }} Orders <orders@example.test>',
+			subject: 'Order {{ order_id }} for {{ _rcpt_email_ }}',
+			template: '<p>Order {{ order_id }}</p>'
+		});
+		expect(stored.status).toBe(200);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	function authed(method: 'post', path: string) {
+		return api[method](path).set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+	}
+
+	test('renders the headers with the message vars', async () => {
+		const res = await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'order',
+			rcpt: 'buyer@example.test',
+			replyTo: '{{ agent }}',
+			vars: { shop: 'Acme', order_id: 'A-17', agent: 'agent@example.test' }
+		});
+		expect(res.status).toBe(200);
+
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.subject).toBe('Order A-17 for buyer@example.test');
+		expect(message.from?.value[0]).toMatchObject({ name: 'Acme Orders', address: 'orders@example.test' });
+		expect(message.replyTo?.value[0].address).toBe('agent@example.test');
+	});
+
+	test('keeps injected line breaks out of the headers', async () => {
+		const res = await authed('post', '/api/v1/tx/preview').send({
+			domain: ctx!.domainName,
+			name: 'order',
+			rcpt: 'buyer@example.test',
+			vars: { shop: 'Acme\r\nBcc: victim@example.test', order_id: '1\nX-Injected: yes' }
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.subject).toBe('Order 1 X-Injected: yes for buyer@example.test');
+		expect(res.body.data.headers.From).toBe('"Acme Bcc: victim@example.test Orders" <orders@example.test>');
+		expect(res.body.data.headers['X-Injected']).toBeUndefined();
+	});
+
+	test('rejects a reply-to that does not render to an address', async () => {
+		const res = await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'order',
+			rcpt: 'buyer@example.test',
+			replyTo: '{{ agent }}',
+			vars: { agent: 'not an address' }
+		});
+		expect(res.status).toBe(400);
+
+		const batch = await authed('post', '/api/v1/tx/batch').send({
+			domain: ctx!.domainName,
+			name: 'order',
+			replyTo: '{{ agent }}',
+			entries: [
+				{ rcpt: 'one@example.test', vars: { agent: 'agent@example.test', order_id: '1' } },
+				{ rcpt: 'two@example.test', vars: { agent: 'nope' } }
+			]
+		});
+		expect(batch.body.data.results.map((result: { status: string }) => result.status)).toEqual([
+			'queued',
+			'failed'
+		]);
+	});
+
+	test('renders form subjects with the submitted fields', async () => {
+		const stored = await authed('post', '/api/v1/form/template').send({
+			domain: ctx!.domainName,
+			idname: 'callback',
+			sender: '{{ _fields_.name }} via site <forms@example.test>',
+			recipient: 'owner@example.test',
+			subject: 'Callback request: {{ _fields_.topic }}',
+			template: '<p>{{ _fields_.topic }}</p>'
+		});
+		expect(stored.status).toBe(200);
+
+		const res = await api.post('/api/v1/form/message').send({
+			_mm_form_key: stored.body.data.form_key,
+			name: 'Ada',
+			topic: 'Pricing\r\nBcc: victim@example.test'
+		});
+		expect(res.status).toBe(200);
+
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.subject).toBe('Callback request: Pricing Bcc: victim@example.test');
+		expect(message.from?.value[0]).toMatchObject({ name: 'Ada via site', address: 'forms@example.test' });
+		expect(message.bcc).toBeUndefined();
+	});
+});
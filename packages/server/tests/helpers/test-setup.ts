@@ -14,7 +14,7 @@ import type { mailStore } from '../../src/store/store.js';
 import type { ParsedMail } from 'mailparser';
 import type { AddressInfo } from 'node:net';
 
-type SmtpCapture = {
+export type SmtpCapture = {
 	server: SMTPServer;
 	port: number;
 	messages: ParsedMail[];
@@ -41,9 +41,18 @@ export type TestContext = {
 	cleanup: () => Promise<void>;
 };
 
+export type SmtpServerOptions = {
+	/** Require AUTH with these credentials (plain connections allow insecure auth). */
+	auth?: { user: string; pass: string };
+	/** Implicit TLS with the fixture certificate (default true); false serves plain SMTP without STARTTLS. */
+	secure?: boolean;
+};
+
 export type TestContextOptions = {
 	apiUrl?: string;
 	assetPublicBase?: string;
+	/** Extra env overrides applied on top of the test defaults. */
+	env?: Record<string, string | number | boolean>;
 };
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -182,16 +191,23 @@ function writeFixtureConfig(configPath: string, domainName: string, contactFormK
 	fs.writeFileSync(path.join(configPath, 'init-data.json'), JSON.stringify(initData, null, 2));
 }
 
-async function startSmtpServer(): Promise<SmtpCapture> {
-	const cert = fs.readFileSync(CERT_PATH);
-	const key = fs.readFileSync(KEY_PATH);
+export async function startSmtpServer(options: SmtpServerOptions = {}): Promise<SmtpCapture> {
+	const secure = options.secure ?? true;
 	const messages: ParsedMail[] = [];
+	const credentials = options.auth;
 
 	const server = new SMTPServer({
-		secure: true,
-		key,
-		cert,
-		authOptional: true,
+		...(secure
+			? { secure: true, key: fs.readFileSync(KEY_PATH), cert: fs.readFileSync(CERT_PATH) }
+			: { secure: false, disabledCommands: ['STARTTLS'], allowInsecureAuth: true }),
+		authOptional: !credentials,
+		onAuth(auth, _session, callback) {
+			if (credentials && auth.username === credentials.user && auth.password === credentials.pass) {
+				callback(null, { user: auth.username });
+				return;
+			}
+			callback(new Error('Invalid username or password'));
+		},
 		onData(stream, _session, callback) {
 			const chunks: Buffer[] = [];
 			stream.on('data', (chunk) => chunks.push(chunk));
@@ -291,12 +307,15 @@ export async function createTestContext(options: TestContextOptions = {}): Promi
 		SMTP_TLS_REJECT: false,
 		SMTP_USER: '',
 		SMTP_PASSWORD: '',
-		DEBUG: false
+		DEBUG: false,
+		...options.env
 	};
 
 	const bootstrap = await createMailMagicServer({}, envOverrides);
 
 	const cleanup = async () => {
+		await bootstrap.store.outboxWorker?.stop();
+		await bootstrap.store.webhookWorker?.stop();
 		await new Promise<void>((resolve) => {
 			smtp.server.close(() => resolve());
 		});
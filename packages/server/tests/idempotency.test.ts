@@ -0,0 +1,115 @@
+import request from 'supertest';
+
+import { api_idempotency } from '../src/models/idempotency.js';
+import { api_outbox } from '../src/models/outbox.js';
+import { idempotencyRequestHash } from '../src/util/idempotency.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('tx send idempotency', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	function send(rcpt: string, extra: Record<string, unknown> = {}, key?: string) {
+		const req = api.post('/api/v1/tx/message').set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		if (key) {
+			req.set('Idempotency-Key', key);
+		}
+		return req.send({
+			domain: ctx!.domainName,
+			name: 'welcome',
+			rcpt,
+			vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' },
+			...extra
+		});
+	}
+
+	test('replays the original response for a repeated Idempotency-Key header', async () => {
+		const first = await send('idem-header@example.test', {}, 'reset-header-1');
+		const second = await send('idem-header@example.test', {}, 'reset-header-1');
+
+		expect(first.status).toBe(200);
+		expect(second.status).toBe(200);
+		expect(second.body.data).toEqual(first.body.data);
+		expect(await api_outbox.count({ where: { rcpt: 'idem-header@example.test' } })).toBe(1);
+	});
+
+	test('accepts the key as an idempotency_key body field', async () => {
+		const first = await send('idem-body@example.test', { idempotency_key: 'reset-body-1' });
+		const second = await send('idem-body@example.test', { idempotency_key: 'reset-body-1' });
+
+		expect(second.body.data.results).toEqual(first.body.data.results);
+		expect(await api_outbox.count({ where: { rcpt: 'idem-body@example.test' } })).toBe(1);
+	});
+
+	test('sends again once the window has expired', async () => {
+		const first = await send('idem-expired@example.test', {}, 'reset-expired-1');
+		await api_idempotency.update(
+			{ expires_at: new Date(Date.now() - 1000) },
+			{ where: { idem_key: 'reset-expired-1' } }
+		);
+		const second = await send('idem-expired@example.test', {}, 'reset-expired-1');
+
+		expect(second.status).toBe(200);
+		expect(second.body.data.results[0].message_id).not.toBe(first.body.data.results[0].message_id);
+		expect(await api_outbox.count({ where: { rcpt: 'idem-expired@example.test' } })).toBe(2);
+	});
+
+	test('rejects a key whose original request is still in progress', async () => {
+		const first = await send('idem-pending@example.test', {}, 'reset-pending-1');
+		await api_idempotency.update({ status: 'pending' }, { where: { idem_key: 'reset-pending-1' } });
+
+		const second = await send('idem-pending@example.test', {}, 'reset-pending-1');
+		expect(first.status).toBe(200);
+		expect(second.status).toBe(409);
+	});
+
+	test('releases the key when the original request fails', async () => {
+		const failed = await send('idem-fail@example.test', { name: 'no-such-template' }, 'reset-fail-1');
+		expect(failed.status).toBe(404);
+		expect(await api_idempotency.count({ where: { idem_key: 'reset-fail-1' } })).toBe(0);
+
+		const retried = await send('idem-fail@example.test', {}, 'reset-fail-1');
+		expect(retried.status).toBe(200);
+	});
+
+	test('rejects a key reused for a different request or route', async () => {
+		const first = await send('idem-reuse@example.test', {}, 'reset-reuse-1');
+		expect(first.status).toBe(200);
+
+		const otherBody = await send('idem-other@example.test', {}, 'reset-reuse-1');
+		expect(otherBody.status).toBe(422);
+
+		const otherRoute = await api
+			.post('/api/v1/tx/batch')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.set('Idempotency-Key', 'reset-reuse-1')
+			.send({ domain: ctx!.domainName, name: 'welcome', entries: [{ rcpt: 'idem-reuse@example.test' }] });
+		expect(otherRoute.status).toBe(422);
+		expect(await api_outbox.count({ where: { rcpt: 'idem-reuse@example.test' } })).toBe(1);
+		expect(await api_outbox.count({ where: { rcpt: 'idem-other@example.test' } })).toBe(0);
+	});
+
+	test('fingerprints the request regardless of key order or where the key was sent', () => {
+		expect(idempotencyRequestHash({ a: 1, b: { c: 2, d: 3 } })).toBe(
+			idempotencyRequestHash({ b: { d: 3, c: 2 }, a: 1, idempotency_key: 'k' })
+		);
+		expect(idempotencyRequestHash({ a: 1 })).not.toBe(idempotencyRequestHash({ a: 2 }));
+		expect(idempotencyRequestHash({}, [{ fieldname: 'f', originalname: 'a.txt', size: 3 }])).not.toBe(
+			idempotencyRequestHash({})
+		);
+	});
+});
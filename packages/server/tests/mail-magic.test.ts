@@ -4,6 +4,7 @@ import path from 'node:path';
 import request from 'supertest';
 
 import { api_form } from '../src/models/form.js';
+import { api_outbox } from '../src/models/outbox.js';
 import { api_txmail } from '../src/models/txmail.js';
 
 import { createTestContext } from './helpers/test-setup.js';
@@ -397,7 +398,7 @@ describe('mail-magic API', () => {
 		expect(message.subject).toBe('Malformed JSON Form');
 	});
 
-	test('returns standardized ApiError response when form email sending fails', async () => {
+	test('queues form submissions and retries when the transport fails', async () => {
 		const transport = ctx!.store.transport!;
 		const originalSendMail = transport.sendMail.bind(transport);
 		transport.sendMail = (async () => {
@@ -411,12 +412,56 @@ describe('mail-magic API', () => {
 				email: 'ada@example.test'
 			});
 
-			expect(res.status).toBe(500);
-			expect(String(res.body?.message ?? '')).toContain('Error sending email: smtp-broken');
-			expect(res.body?.error).toBeUndefined();
+			expect(res.status).toBe(200);
+			const messageId = String(res.body?.data?.message_id ?? '');
+			expect(messageId).not.toBe('');
+
+			const record = await vi.waitFor(async () => {
+				const row = await api_outbox.findOne({ where: { message_id: messageId } });
+				expect(row?.attempts).toBe(1);
+				return row;
+			});
+			expect(record?.kind).toBe('form');
+			expect(record?.status).toBe('queued');
+			expect(record?.attempts).toBe(1);
+			expect(record?.last_error).toBe('smtp-broken');
+			expect(record!.next_attempt_at.getTime()).toBeGreaterThan(Date.now());
+		} finally {
+			transport.sendMail = originalSendMail;
+		}
+	});
+
+	test('redelivers a message whose first attempt failed', async () => {
+		const transport = ctx!.store.transport!;
+		const originalSendMail = transport.sendMail.bind(transport);
+		transport.sendMail = (async () => {
+			throw new Error('smtp-broken');
+		}) as typeof transport.sendMail;
+
+		let messageId = '';
+		try {
+			const res = await api.post('/api/v1/form/message').send({
+				_mm_form_key: ctx!.contactFormKey,
+				name: 'Grace',
+				email: 'grace@example.test'
+			});
+			expect(res.status).toBe(200);
+			messageId = String(res.body?.data?.message_id ?? '');
+			await vi.waitFor(async () => {
+				const row = await api_outbox.findOne({ where: { message_id: messageId } });
+				expect(row).toMatchObject({ status: 'queued', attempts: 1 });
+			});
 		} finally {
 			transport.sendMail = originalSendMail;
 		}
+
+		ctx!.smtp.reset();
+		await api_outbox.update({ next_attempt_at: new Date(0) }, { where: { message_id: messageId } });
+		await ctx!.store.outboxWorker!.processDue();
+
+		const row = await api_outbox.findOne({ where: { message_id: messageId } });
+		expect(row).toMatchObject({ status: 'sent', attempts: 2, last_error: '' });
+		expect((await ctx!.smtp.waitForMessage()).subject).toBe('Contact');
 	});
 
 	test('requires _mm_form_key for public form submissions', async () => {
@@ -0,0 +1,196 @@
+import request from 'supertest';
+
+import { api_message } from '../src/models/message.js';
+import { api_outbox } from '../src/models/outbox.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('message log API', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	async function sendWelcome(rcpt: string, send_at?: string): Promise<string> {
+		const res = await api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'welcome',
+				rcpt,
+				vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' },
+				...(send_at ? { send_at } : {})
+			});
+		expect(res.status).toBe(200);
+		const messageId = String(res.body?.data?.results?.[0]?.message_id ?? '');
+		expect(messageId).not.toBe('');
+		return messageId;
+	}
+
+	test('records delivery details for sent messages', async () => {
+		const messageId = await sendWelcome('log-one@example.test');
+		await ctx!.smtp.waitForMessage();
+		await vi.waitFor(async () => {
+			const row = await api_message.findOne({ where: { message_id: messageId } });
+			expect(row?.status).toBe('sent');
+		});
+
+		const res = await api
+			.get(`/api/v1/messages/${messageId}`)
+			.query({ domain: ctx!.domainName })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(res.status).toBe(200);
+		const message = res.body.data.message;
+		expect(message.kind).toBe('tx');
+		expect(message.template).toBe('welcome');
+		expect(message.rcpt).toBe('log-one@example.test');
+		expect(message.subject).toBe('Welcome!');
+		expect(message.attempts).toBe(1);
+		expect(message.smtp_message_id).not.toBe('');
+		expect(message.sent_at).toBeTruthy();
+	});
+
+	test('filters by recipient and paginates with a cursor', async () => {
+		const first = await sendWelcome('page@example.test');
+		const second = await sendWelcome('page@example.test');
+		const third = await sendWelcome('page@example.test');
+
+		const page1 = await api
+			.get('/api/v1/tx/messages')
+			.query({ domain: ctx!.domainName, rcpt: 'page@example.test', limit: 2 })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(page1.status).toBe(200);
+		expect(page1.body.data.messages.map((m: { message_id: string }) => m.message_id)).toEqual([third, second]);
+		expect(page1.body.data.next_cursor).toBeTruthy();
+
+		const page2 = await api
+			.get('/api/v1/tx/messages')
+			.query({
+				domain: ctx!.domainName,
+				rcpt: 'page@example.test',
+				limit: 2,
+				cursor: page1.body.data.next_cursor
+			})
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(page2.status).toBe(200);
+		expect(page2.body.data.messages.map((m: { message_id: string }) => m.message_id)).toEqual([first]);
+		expect(page2.body.data.next_cursor).toBeNull();
+	});
+
+	test('filters by template and time range', async () => {
+		await sendWelcome('range@example.test');
+
+		const future = new Date(Date.now() + 60_000).toISOString();
+		const none = await api
+			.get('/api/v1/tx/messages')
+			.query({ domain: ctx!.domainName, template: 'welcome', since: future })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(none.status).toBe(200);
+		expect(none.body.data.messages).toHaveLength(0);
+
+		const other = await api
+			.get('/api/v1/tx/messages')
+			.query({ domain: ctx!.domainName, template: 'no-such-template' })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(other.body.data.messages).toHaveLength(0);
+
+		const bad = await api
+			.get('/api/v1/tx/messages')
+			.query({ domain: ctx!.domainName, since: 'not-a-date' })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(bad.status).toBe(400);
+	});
+
+	test('does not expose messages from domains the caller does not own', async () => {
+		const messageId = await sendWelcome('scoped@example.test');
+
+		const res = await api
+			.get(`/api/v1/messages/${messageId}`)
+			.query({ domain: ctx!.otherDomainName })
+			.set('Authorization', `Bearer apikey-${ctx!.otherUserToken}`);
+		expect(res.status).toBe(404);
+
+		const forbidden = await api
+			.get('/api/v1/tx/messages')
+			.query({ domain: ctx!.domainName })
+			.set('Authorization', `Bearer apikey-${ctx!.otherUserToken}`);
+		expect(forbidden.status).toBe(403);
+	});
+
+	test('holds scheduled sends until send_at and delivers after a reschedule', async () => {
+		const later = new Date(Date.now() + 3_600_000);
+		const messageId = await sendWelcome('scheduled@example.test', later.toISOString());
+
+		const queued = await api_outbox.findOne({ where: { message_id: messageId } });
+		expect(queued?.next_attempt_at.getTime()).toBe(later.getTime());
+		await ctx!.store.outboxWorker!.processDue();
+		const held = await api_message.findOne({ where: { message_id: messageId } });
+		expect(held?.status).toBe('queued');
+		expect(held?.attempts).toBe(0);
+		expect(held?.send_at?.getTime()).toBe(later.getTime());
+
+		const res = await api
+			.put(`/api/v1/tx/message/${messageId}`)
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, send_at: new Date().toISOString() });
+		expect(res.status).toBe(200);
+
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.subject).toBe('Welcome!');
+		await vi.waitFor(async () => {
+			const row = await api_message.findOne({ where: { message_id: messageId } });
+			expect(row?.status).toBe('sent');
+		});
+	});
+
+	test('cancels pending scheduled sends', async () => {
+		const later = new Date(Date.now() + 3_600_000).toISOString();
+		const messageId = await sendWelcome('cancel@example.test', later);
+
+		const res = await api
+			.delete(`/api/v1/tx/message/${messageId}`)
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName });
+		expect(res.status).toBe(200);
+		expect(res.body.data.message.status).toBe('cancelled');
+
+		const outbox = await api_outbox.findOne({ where: { message_id: messageId } });
+		expect(outbox?.status).toBe('cancelled');
+
+		const again = await api
+			.delete(`/api/v1/tx/message/${messageId}`)
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName });
+		expect(again.status).toBe(409);
+
+		const reschedule = await api
+			.put(`/api/v1/tx/message/${messageId}`)
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, send_at: later });
+		expect(reschedule.status).toBe(409);
+	});
+
+	test('rejects invalid send_at values', async () => {
+		const res = await api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt: 'bad@example.test', send_at: 'tomorrow-ish' });
+		expect(res.status).toBe(400);
+	});
+});
@@ -0,0 +1,101 @@
+import request from 'supertest';
+
+import { api_message } from '../src/models/message.js';
+import { api_outbox } from '../src/models/outbox.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('preview endpoints', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	function post(path: string, body: Record<string, unknown>) {
+		return api
+			.post(`/api${path}`)
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, ...body });
+	}
+
+	async function queuedCounts() {
+		return [await api_outbox.count(), await api_message.count()];
+	}
+
+	test('renders a tx template without queueing it', async () => {
+		const before = await queuedCounts();
+		const res = await post('/v1/tx/preview', {
+			name: 'welcome',
+			rcpt: 'preview@example.test',
+			vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' },
+			replyTo: 'support@example.test',
+			headers: { 'X-Entity-Ref-ID': 'ref-1' }
+		});
+
+		expect(res.status).toBe(200);
+		const preview = res.body.data;
+		expect(preview.subject).toBe('Welcome!');
+		expect(preview.html).toContain('<h1>Mail Magic</h1>');
+		expect(preview.html).toContain('Hello Jane');
+		expect(preview.text).toContain('Hello Jane');
+		expect(preview.attachments).toEqual([expect.objectContaining({ filename: 'logo.png' })]);
+		expect(preview.attachments[0].cid).toBeTruthy();
+		expect(preview.headers).toMatchObject({
+			From: 'sender@example.test',
+			To: 'preview@example.test',
+			Subject: 'Welcome!',
+			'Reply-To': 'support@example.test',
+			'X-Entity-Ref-ID': 'ref-1'
+		});
+
+		expect(await queuedCounts()).toEqual(before);
+		expect(ctx!.smtp.messages).toHaveLength(0);
+	});
+
+	test('rejects unknown tx templates and invalid recipients', async () => {
+		expect((await post('/v1/tx/preview', { name: 'missing' })).status).toBe(404);
+		expect((await post('/v1/tx/preview', { name: 'welcome', rcpt: 'not-an-email' })).status).toBe(400);
+	});
+
+	test('renders a form template by idname with sample fields', async () => {
+		const before = await queuedCounts();
+		const res = await post('/v1/form/preview', {
+			idname: 'contact',
+			locale: 'fr',
+			fields: { name: 'Ada', email: 'ada@example.test' }
+		});
+
+		expect(res.status).toBe(200);
+		const preview = res.body.data;
+		expect(preview.subject).toBe('Contact');
+		expect(preview.html).toContain('Name: Ada');
+		expect(preview.headers).toMatchObject({ From: 'forms@example.test', To: 'owner@example.test' });
+		expect(preview.headers['Reply-To']).toContain('ada@example.test');
+		expect(preview.attachments.map((a: { filename: string }) => a.filename)).toEqual(['logo.png']);
+
+		expect(await queuedCounts()).toEqual(before);
+		expect(ctx!.smtp.messages).toHaveLength(0);
+	});
+
+	test('looks up forms by form_key within the caller domain only', async () => {
+		const res = await post('/v1/form/preview', { form_key: ctx!.contactFormKey });
+		expect(res.status).toBe(200);
+
+		const other = await api
+			.post('/api/v1/form/preview')
+			.set('Authorization', `Bearer apikey-${ctx!.otherUserToken}`)
+			.send({ domain: 'other.test', form_key: ctx!.contactFormKey });
+		expect(other.status).toBe(404);
+	});
+});
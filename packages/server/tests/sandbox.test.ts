@@ -0,0 +1,142 @@
+import request from 'supertest';
+
+import { api_message } from '../src/models/message.js';
+import { api_user } from '../src/models/user.js';
+import { applySandbox } from '../src/util/sandbox.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+const mail = (to: string | Array<string | { name: string; address: string }>) => ({
+	from: 'sender@example.test',
+	to,
+	subject: 'Hi',
+	html: '',
+	text: ''
+});
+
+describe('applySandbox', () => {
+	test('leaves mail alone without sandbox settings or when every recipient is allowed', () => {
+		expect(applySandbox(null, mail('a@prod.test'))).toBeNull();
+		expect(applySandbox({ allow_domains: ['qa.test'] }, mail('Kai <kai@QA.test>'))).toBeNull();
+	});
+
+	test('redirects other recipients to the catch-all and keeps allowed ones', () => {
+		const result = applySandbox(
+			{ catch_all: 'inbox@qa.test', allow_domains: ['qa.test'] },
+			mail([{ name: 'Tester', address: 'tester@qa.test' }, 'customer@prod.test'])
+		);
+		expect(result?.mail.to).toEqual([{ name: 'Tester', address: 'tester@qa.test' }, 'inbox@qa.test']);
+		expect(result?.rcpt).toBe('tester@qa.test, inbox@qa.test');
+		expect(result?.original_rcpt).toBe('tester@qa.test, customer@prod.test');
+		expect(result?.mail.headers).toEqual({ 'X-Original-To': 'tester@qa.test, customer@prod.test' });
+	});
+
+	test('drops cc/bcc addresses outside the allowed domains', () => {
+		const result = applySandbox(
+			{ catch_all: 'inbox@qa.test', allow_domains: ['qa.test'] },
+			{ ...mail('tester@qa.test'), cc: ['lead@qa.test', 'manager@prod.test'], bcc: ['archive@prod.test'] }
+		);
+		expect(result?.mail).toMatchObject({ to: ['tester@qa.test'], cc: ['lead@qa.test'], bcc: [] });
+	});
+
+	test('rejects mail that would have no recipient left', () => {
+		expect(() => applySandbox({ allow_domains: ['qa.test'] }, mail('customer@prod.test'))).toThrow(
+			'not in the allowed domains'
+		);
+	});
+});
+
+describe('sandboxed users', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(async () => {
+		ctx?.smtp.reset();
+		await api_user.update(
+			{ sandbox: { catch_all: 'qa-inbox@example.test', allow_domains: ['qa.test'] } },
+			{ where: { user_id: 1 } }
+		);
+	});
+
+	afterEach(async () => {
+		await api_user.update({ sandbox: null }, { where: { user_id: 1 } });
+	});
+
+	function send(rcpt: string) {
+		return api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'welcome',
+				rcpt,
+				vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' }
+			});
+	}
+
+	test('redirects tx mail to the catch-all and logs the original recipient', async () => {
+		const res = await send('customer@prod.test');
+		expect(res.status).toBe(200);
+		const [result] = res.body.data.results;
+
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.headers.get('x-original-to')).toBe('customer@prod.test');
+		expect(message.to && 'text' in message.to ? message.to.text : '').toBe('qa-inbox@example.test');
+
+		const logged = await api_message.findOne({ where: { message_id: result.message_id } });
+		expect(logged).toMatchObject({ rcpt: 'qa-inbox@example.test', original_rcpt: 'customer@prod.test' });
+
+		const list = await api
+			.get('/api/v1/tx/messages')
+			.query({ domain: ctx!.domainName, rcpt: 'customer@prod.test' })
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+		expect(list.body.data.messages.map((m: { message_id: string }) => m.message_id)).toContain(result.message_id);
+	});
+
+	test('delivers to allowed domains unchanged', async () => {
+		await send('tester@qa.test');
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.headers.get('x-original-to')).toBeUndefined();
+		expect(message.to && 'text' in message.to ? message.to.text : '').toBe('tester@qa.test');
+	});
+
+	test('applies to public form submissions of the form owner', async () => {
+		const res = await api.post('/api/v1/form/message').send({
+			_mm_form_key: ctx!.contactFormKey,
+			name: 'Ada',
+			email: 'ada@example.test'
+		});
+		expect(res.status).toBe(200);
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.headers.get('x-original-to')).toBe('owner@example.test');
+	});
+
+	test('fails recipients that cannot be redirected', async () => {
+		await api_user.update({ sandbox: { allow_domains: ['qa.test'] } }, { where: { user_id: 1 } });
+
+		const res = await send('customer@prod.test');
+		expect(res.status).toBe(207);
+		expect(res.body.data.results[0]).toMatchObject({ status: 'failed' });
+		expect(res.body.data.results[0].error).toContain('not in the allowed domains');
+
+		const form = await api.post('/api/v1/form/message').send({
+			_mm_form_key: ctx!.contactFormKey,
+			name: 'Ada',
+			email: 'ada@example.test'
+		});
+		expect(form.status).toBe(403);
+	});
+});
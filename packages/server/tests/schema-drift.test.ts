@@ -2,10 +2,26 @@ import { Sequelize } from 'sequelize';
 import { z } from 'zod';
 
 import { api_domain_schema, init_api_domain, api_domain } from '../src/models/domain.js';
+import { api_event_schema, init_api_event, api_event } from '../src/models/event.js';
 import { api_form_schema, init_api_form, api_form } from '../src/models/form.js';
+import { api_idempotency_schema, init_api_idempotency, api_idempotency } from '../src/models/idempotency.js';
+import { api_message_schema, init_api_message, api_message } from '../src/models/message.js';
+import { api_outbox_schema, init_api_outbox, api_outbox } from '../src/models/outbox.js';
 import { api_recipient_schema, init_api_recipient, api_recipient } from '../src/models/recipient.js';
+import { api_suppression_schema, init_api_suppression, api_suppression } from '../src/models/suppression.js';
+import {
+	api_template_version_schema,
+	init_api_template_version,
+	api_template_version
+} from '../src/models/template-version.js';
 import { api_txmail_schema, init_api_txmail, api_txmail } from '../src/models/txmail.js';
 import { api_user_schema, init_api_user, api_user } from '../src/models/user.js';
+import {
+	api_webhook_delivery_schema,
+	init_api_webhook_delivery,
+	api_webhook_delivery
+} from '../src/models/webhook-delivery.js';
+import { api_webhook_schema, init_api_webhook, api_webhook } from '../src/models/webhook.js';
 
 import type { ModelStatic, Model } from 'sequelize';
 
@@ -32,6 +48,14 @@ describe('schema/model consistency', () => {
 		await init_api_form(db);
 		await init_api_txmail(db);
 		await init_api_recipient(db);
+		await init_api_outbox(db);
+		await init_api_message(db);
+		await init_api_idempotency(db);
+		await init_api_suppression(db);
+		await init_api_event(db);
+		await init_api_webhook(db);
+		await init_api_webhook_delivery(db);
+		await init_api_template_version(db);
 	});
 
 	afterAll(async () => {
@@ -57,4 +81,40 @@ describe('schema/model consistency', () => {
 	test('api_recipient schema keys match Sequelize attributes', () => {
 		expect(modelKeys(api_recipient as unknown as ModelStatic<Model>)).toEqual(schemaKeys(api_recipient_schema));
 	});
+
+	test('api_outbox schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_outbox as unknown as ModelStatic<Model>)).toEqual(schemaKeys(api_outbox_schema));
+	});
+
+	test('api_message schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_message as unknown as ModelStatic<Model>)).toEqual(schemaKeys(api_message_schema));
+	});
+
+	test('api_idempotency schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_idempotency as unknown as ModelStatic<Model>)).toEqual(schemaKeys(api_idempotency_schema));
+	});
+
+	test('api_suppression schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_suppression as unknown as ModelStatic<Model>)).toEqual(schemaKeys(api_suppression_schema));
+	});
+
+	test('api_event schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_event as unknown as ModelStatic<Model>)).toEqual(schemaKeys(api_event_schema));
+	});
+
+	test('api_webhook schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_webhook as unknown as ModelStatic<Model>)).toEqual(schemaKeys(api_webhook_schema));
+	});
+
+	test('api_webhook_delivery schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_webhook_delivery as unknown as ModelStatic<Model>)).toEqual(
+			schemaKeys(api_webhook_delivery_schema)
+		);
+	});
+
+	test('api_template_version schema keys match Sequelize attributes', () => {
+		expect(modelKeys(api_template_version as unknown as ModelStatic<Model>)).toEqual(
+			schemaKeys(api_template_version_schema)
+		);
+	});
 });
@@ -0,0 +1,192 @@
+import request from 'supertest';
+
+import { api_outbox } from '../src/models/outbox.js';
+import { parseSuppressionCsv } from '../src/util/suppression.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('suppression CSV parsing', () => {
+	test('reads headerless rows as email,reason,note', () => {
+		const { rows, errors } = parseSuppressionCsv(
+			'A@Example.test,bounce,550 no such user\r\nb@example.test\n',
+			'manual'
+		);
+		expect(errors).toEqual([]);
+		expect(rows).toEqual([
+			{ line: 1, email: 'a@example.test', reason: 'bounce', note: '550 no such user', category: '' },
+			{ line: 2, email: 'b@example.test', reason: 'manual', note: '', category: '' }
+		]);
+	});
+
+	test('maps header columns and reports bad rows by line', () => {
+		const csv = [
+			'created,Email,Reason,Note,Category',
+			'2020-01-01,c@example.test,complaint,"said ""stop"", twice",News Letter',
+			'2020-01-02,not-an-email,bounce,',
+			'2020-01-03,d@example.test,spam,'
+		].join('\n');
+		const { rows, errors } = parseSuppressionCsv(csv, 'manual');
+		expect(rows).toEqual([
+			{
+				line: 2,
+				email: 'c@example.test',
+				reason: 'complaint',
+				note: 'said "stop", twice',
+				category: 'news-letter'
+			}
+		]);
+		expect(errors.map((error) => error.line)).toEqual([3, 4]);
+		expect(errors[1].error).toContain('Invalid reason "spam"');
+	});
+
+	test('rejects a header without an email column', () => {
+		expect(parseSuppressionCsv('name,reason\nfoo,bounce\n', 'manual').errors).toEqual([
+			{ line: 1, error: 'CSV header has no "email" column' }
+		]);
+	});
+});
+
+describe('suppression list', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	function auth(token = ctx!.userToken) {
+		return `Bearer apikey-${token}`;
+	}
+
+	function suppress(email: string, reason?: string) {
+		return api
+			.post('/api/v1/suppressions')
+			.set('Authorization', auth())
+			.send({ domain: ctx!.domainName, email, ...(reason ? { reason } : {}) });
+	}
+
+	test('adds, lists and removes entries per domain', async () => {
+		const created = await suppress('Crud@Example.test', 'complaint');
+		expect(created.status).toBe(201);
+		expect(created.body.data.suppression).toMatchObject({ email: 'crud@example.test', reason: 'complaint' });
+
+		const updated = await suppress('crud@example.test');
+		expect(updated.status).toBe(200);
+		expect(updated.body.data.suppression.reason).toBe('manual');
+
+		const list = await api
+			.get('/api/v1/suppressions')
+			.set('Authorization', auth())
+			.query({ domain: ctx!.domainName, email: 'crud@example.test' });
+		expect(list.status).toBe(200);
+		expect(list.body.data.suppressions).toHaveLength(1);
+
+		const other = await api
+			.get('/api/v1/suppressions')
+			.set('Authorization', auth(ctx!.otherUserToken))
+			.query({ domain: ctx!.otherDomainName });
+		expect(other.status).toBe(200);
+		expect(other.body.data.suppressions).toEqual([]);
+
+		const bad = await suppress('crud@example.test', 'unknown');
+		expect(bad.status).toBe(400);
+
+		const removed = await api
+			.delete('/api/v1/suppressions/crud%40example.test')
+			.set('Authorization', auth())
+			.send({ domain: ctx!.domainName });
+		expect(removed.status).toBe(200);
+
+		const missing = await api
+			.delete('/api/v1/suppressions/crud%40example.test')
+			.set('Authorization', auth())
+			.send({ domain: ctx!.domainName });
+		expect(missing.status).toBe(404);
+	});
+
+	test('skips suppressed recipients in tx sends and reports them', async () => {
+		await suppress('bounced@example.test', 'bounce');
+
+		const res = await api
+			.post('/api/v1/tx/message')
+			.set('Authorization', auth())
+			.send({
+				domain: ctx!.domainName,
+				name: 'welcome',
+				rcpt: 'BOUNCED@example.test, fine@example.test',
+				vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' }
+			});
+		expect(res.status).toBe(207);
+		expect(res.body.data.skipped).toBe(1);
+		expect(res.body.data.results[0]).toMatchObject({
+			rcpt: 'BOUNCED@example.test',
+			status: 'skipped',
+			error: 'Suppressed (bounce)'
+		});
+		expect(res.body.data.results[1].status).toBe('sent');
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.to && 'text' in message.to ? message.to.text : '').toBe('fine@example.test');
+
+		const all = await api
+			.post('/api/v1/tx/message')
+			.set('Authorization', auth())
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt: 'bounced@example.test' });
+		expect(all.status).toBe(207);
+		expect(all.body.data.Status).toBe('FAILED');
+		expect(await api_outbox.count({ where: { rcpt: 'bounced@example.test' } })).toBe(0);
+	});
+
+	test('skips suppressed entries in batch sends', async () => {
+		await suppress('batch-suppressed@example.test', 'unsubscribe');
+
+		const res = await api
+			.post('/api/v1/tx/batch')
+			.set('Authorization', auth())
+			.send({
+				domain: ctx!.domainName,
+				name: 'welcome',
+				entries: [{ rcpt: 'batch-suppressed@example.test' }, { rcpt: 'batch-ok@example.test' }]
+			});
+		expect(res.status).toBe(207);
+		expect(res.body.data).toMatchObject({ queued: 1, failed: 0, skipped: 1 });
+		expect(res.body.data.results[0]).toMatchObject({ status: 'skipped', error: 'Suppressed (unsubscribe)' });
+		await ctx!.smtp.waitForMessage();
+	});
+
+	test('imports and exports CSV', async () => {
+		const imported = await api.post('/api/v1/suppressions/import').set('Authorization', auth()).send({
+			domain: ctx!.domainName,
+			reason: 'bounce',
+			csv: 'email,note\nimport-a@example.test,hard bounce\nimport-b@example.test,\nbroken,\n'
+		});
+		expect(imported.status).toBe(207);
+		expect(imported.body.data).toMatchObject({ created: 2, updated: 0, rejected: 1 });
+		expect(imported.body.data.errors[0].line).toBe(4);
+
+		const exported = await api
+			.get('/api/v1/suppressions/export')
+			.set('Authorization', auth())
+			.query({ domain: ctx!.domainName, reason: 'bounce' });
+		expect(exported.status).toBe(200);
+		const lines = exported.body.data.csv.trim().split('\r\n');
+		expect(lines[0]).toBe('email,reason,note,category,created_at');
+		expect(lines.some((line: string) => line.startsWith('import-a@example.test,bounce,hard bounce,,'))).toBe(true);
+
+		const roundTrip = parseSuppressionCsv(exported.body.data.csv, 'manual');
+		expect(roundTrip.errors).toEqual([]);
+		expect(roundTrip.rows.map((row) => row.email)).toContain('import-b@example.test');
+	});
+});
@@ -0,0 +1,120 @@
+import request from 'supertest';
+
+import { TemplateCache } from '../src/store/template-cache.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+import type { api_txmail } from '../src/models/txmail.js';
+
+function txRecord(template_id: number, template: string, updatedAt = new Date(1000)): api_txmail {
+	return { template_id, template, text_template: '', updatedAt } as api_txmail;
+}
+
+describe('TemplateCache', () => {
+	test('reuses compiled templates until the revision changes', () => {
+		const cache = new TemplateCache(10);
+		const first = cache.tx(txRecord(1, 'v1'), true);
+		expect(cache.tx(txRecord(1, 'v1'), true)).toBe(first);
+		expect(cache.tx(txRecord(1, 'v1'), false)).not.toBe(first);
+		expect(cache.tx(txRecord(1, 'v2', new Date(2000)), true).html.render({})).toBe('v2');
+		expect(cache.stats()).toEqual({ size: 3, max: 10, hits: 1, misses: 3 });
+
+		cache.invalidate('tx', 1);
+		expect(cache.stats().size).toBe(0);
+	});
+
+	test('evicts the least recently used entry', () => {
+		const cache = new TemplateCache(2);
+		const one = cache.tx(txRecord(1, 'one'), true);
+		cache.tx(txRecord(2, 'two'), true);
+		cache.tx(txRecord(1, 'one'), true);
+		cache.tx(txRecord(3, 'three'), true);
+		expect(cache.tx(txRecord(1, 'one'), true)).toBe(one);
+		expect(cache.stats()).toMatchObject({ size: 2, hits: 2, misses: 3 });
+		cache.tx(txRecord(2, 'two'), true);
+		expect(cache.stats().misses).toBe(4);
+	});
+
+	test('keeps drafts apart from the published template', () => {
+		const cache = new TemplateCache(10);
+		const published = cache.tx(txRecord(1, 'live'), true);
+		const draft = cache.tx(txRecord(1, 'draft'), true, true);
+		expect(draft.html.render({})).toBe('draft');
+		expect(cache.tx(txRecord(1, 'live'), true)).toBe(published);
+	});
+
+	test('reuses compiled vars schemas until the revision changes', () => {
+		const cache = new TemplateCache(10);
+		const record = (updatedAt: Date) =>
+			({ template_id: 1, name: 'welcome', vars_schema: { type: 'object' }, updatedAt }) as api_txmail;
+		const validator = cache.varsValidator(record(new Date(1000)));
+		expect(validator).not.toBeNull();
+		expect(cache.varsValidator(record(new Date(1000)))).toBe(validator);
+		expect(cache.varsValidator(record(new Date(2000)))).not.toBe(validator);
+		expect(
+			cache.varsValidator({ ...record(new Date(1000)), template_id: 2, vars_schema: null } as api_txmail)
+		).toBeNull();
+
+		cache.invalidate('tx', 1);
+		expect(cache.varsValidator(record(new Date(1000)))).not.toBe(validator);
+	});
+
+	test('compiles every time when disabled', () => {
+		const cache = new TemplateCache(0);
+		expect(cache.tx(txRecord(1, 'x'), true)).not.toBe(cache.tx(txRecord(1, 'x'), true));
+		expect(cache.stats()).toEqual({ size: 0, max: 0, hits: 0, misses: 2 });
+	});
+});
+
+describe('compiled template cache', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	function authed(method: 'get' | 'post', path: string) {
+		return api[method](path).set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+	}
+
+	async function preview(): Promise<string> {
+		const res = await authed('post', '/api/v1/tx/preview').send({ domain: ctx!.domainName, name: 'cached' });
+		expect(res.status).toBe(200);
+		return res.body.data.html;
+	}
+
+	test('serves repeat renders from the cache and picks up template updates', async () => {
+		const store = (template: string) =>
+			authed('post', '/api/v1/tx/template').send({
+				domain: ctx!.domainName,
+				name: 'cached',
+				sender: 'sender@example.test',
+				template
+			});
+		expect((await store('<p>first</p>')).status).toBe(200);
+		const before = ctx!.store.templateCache.stats();
+
+		expect(await preview()).toBe('<p>first</p>');
+		expect(await preview()).toBe('<p>first</p>');
+		expect(ctx!.store.templateCache.stats()).toMatchObject({
+			hits: before.hits + 1,
+			misses: before.misses + 1
+		});
+
+		expect((await store('<p>second</p>')).status).toBe(200);
+		expect(await preview()).toBe('<p>second</p>');
+
+		const res = await authed('get', '/api/v1/debug/template-cache').query({ domain: ctx!.domainName });
+		expect(res.status).toBe(200);
+		expect(res.body.data.cache).toMatchObject({ max: 500, hits: before.hits + 1, misses: before.misses + 2 });
+	});
+});
@@ -0,0 +1,202 @@
+import request from 'supertest';
+
+import { api_txmail } from '../src/models/txmail.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('template drafts', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+
+		const stored = await storeTemplate({ template: '<p>Live {{ name }}</p>', subject: 'Live' });
+		expect(stored.status).toBe(200);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	function authed(method: 'get' | 'post', path: string) {
+		return api[method](path).set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+	}
+
+	function storeTemplate(fields: Record<string, unknown>) {
+		return authed('post', '/api/v1/tx/template').send({
+			domain: ctx!.domainName,
+			name: 'promo',
+			sender: 'sender@example.test',
+			...fields
+		});
+	}
+
+	test('keeps sends on the published template while a draft exists', async () => {
+		const draft = await storeTemplate({ template: '<p>Draft {{ name }}</p>', subject: 'Draft', draft: true });
+		expect(draft.status).toBe(200);
+
+		const send = await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'promo',
+			rcpt: 'customer@example.test',
+			vars: { name: 'Ada' }
+		});
+		expect(send.status).toBe(200);
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.subject).toBe('Live');
+		expect(String(message.html)).toContain('Live Ada');
+
+		const published = await authed('post', '/api/v1/tx/preview').send({
+			domain: ctx!.domainName,
+			name: 'promo',
+			vars: { name: 'Ada' }
+		});
+		expect(published.body.data.html).toBe('<p>Live Ada</p>');
+
+		const preview = await authed('post', '/api/v1/tx/preview').send({
+			domain: ctx!.domainName,
+			name: 'promo',
+			vars: { name: 'Ada' },
+			draft: true
+		});
+		expect(preview.status).toBe(200);
+		expect(preview.body.data).toMatchObject({ subject: 'Draft', html: '<p>Draft Ada</p>' });
+	});
+
+	test('sends a test copy of the draft to the caller', async () => {
+		const res = await authed('post', '/api/v1/tx/template/test').send({
+			domain: ctx!.domainName,
+			name: 'promo',
+			vars: { name: 'Ada' },
+			draft: true
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.rcpt).toBe('testuser@example.test');
+
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.to?.value[0].address).toBe('testuser@example.test');
+		expect(message.subject).toBe('Draft');
+	});
+
+	test('publishes the draft as a new version', async () => {
+		const versions = await authed('get', '/api/v1/tx/template/versions').query({
+			domain: ctx!.domainName,
+			name: 'promo'
+		});
+		expect(versions.body.data.draft).toMatchObject({ user_id: 1 });
+
+		const res = await authed('post', '/api/v1/tx/template/publish').send({
+			domain: ctx!.domainName,
+			name: 'promo'
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.version).toMatchObject({ version: 2, source: 'publish', subject: 'Draft' });
+
+		const preview = await authed('post', '/api/v1/tx/preview').send({
+			domain: ctx!.domainName,
+			name: 'promo',
+			vars: { name: 'Ada' }
+		});
+		expect(preview.body.data.html).toBe('<p>Draft Ada</p>');
+
+		const again = await authed('post', '/api/v1/tx/template/publish').send({
+			domain: ctx!.domainName,
+			name: 'promo'
+		});
+		expect(again.status).toBe(404);
+		const noDraft = await authed('post', '/api/v1/tx/preview').send({
+			domain: ctx!.domainName,
+			name: 'promo',
+			draft: true
+		});
+		expect(noDraft.status).toBe(404);
+	});
+
+	test('keeps the imported assets of a template when its draft is published', async () => {
+		const before = await api_txmail.findOne({ where: { name: 'welcome' } });
+		expect(before!.files.length).toBeGreaterThan(0);
+
+		const draft = await storeTemplate({
+			name: 'welcome',
+			template: '<p>New welcome {{ name }}</p>',
+			subject: 'Welcome again',
+			draft: true
+		});
+		expect(draft.status).toBe(200);
+		const res = await authed('post', '/api/v1/tx/template/publish').send({
+			domain: ctx!.domainName,
+			name: 'welcome'
+		});
+		expect(res.status).toBe(200);
+
+		const after = await api_txmail.findOne({ where: { name: 'welcome' } });
+		expect(after!.template).toBe('<p>New welcome {{ name }}</p>');
+		expect(after!.files).toEqual(before!.files);
+	});
+
+	test('rejects drafts for templates that do not exist yet', async () => {
+		const res = await authed('post', '/api/v1/tx/template').send({
+			domain: ctx!.domainName,
+			name: 'brand-new',
+			template: '<p>x</p>',
+			draft: true
+		});
+		expect(res.status).toBe(404);
+	});
+
+	test('keeps form submissions on the published form while a draft exists', async () => {
+		const draft = await authed('post', '/api/v1/form/template').send({
+			domain: ctx!.domainName,
+			idname: 'contact',
+			sender: 'forms@example.test',
+			recipient: 'owner@example.test',
+			subject: 'Contact draft',
+			template: '<p>Draft from {{ _fields_.name }}</p>',
+			draft: true
+		});
+		expect(draft.status).toBe(200);
+		expect(draft.body.data.form_key).toBe(ctx!.contactFormKey);
+
+		const submit = await api
+			.post('/api/v1/form/message')
+			.send({ _mm_form_key: ctx!.contactFormKey, name: 'Grace' });
+		expect(submit.status).toBe(200);
+		const live = await ctx!.smtp.waitForMessage();
+		expect(live.subject).toBe('Contact');
+
+		ctx!.smtp.reset();
+		const test = await authed('post', '/api/v1/form/template/test').send({
+			domain: ctx!.domainName,
+			idname: 'contact',
+			fields: { name: 'Grace' },
+			draft: true
+		});
+		expect(test.status).toBe(200);
+		const copy = await ctx!.smtp.waitForMessage();
+		expect(copy.to?.value[0].address).toBe('testuser@example.test');
+		expect(copy.subject).toBe('Contact draft');
+		expect(String(copy.html)).toContain('Draft from Grace');
+
+		const publish = await authed('post', '/api/v1/form/template/publish').send({
+			domain: ctx!.domainName,
+			idname: 'contact'
+		});
+		expect(publish.status).toBe(200);
+		const preview = await authed('post', '/api/v1/form/preview').send({
+			domain: ctx!.domainName,
+			idname: 'contact',
+			fields: { name: 'Grace' }
+		});
+		expect(preview.body.data.subject).toBe('Contact draft');
+	});
+});
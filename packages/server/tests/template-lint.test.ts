@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+
+import request from 'supertest';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('template lint', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	function lint(body: Record<string, unknown>) {
+		return api
+			.post('/api/v1/tx/template/lint')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, ...body });
+	}
+
+	test('checks a posted source against the domain config tree', async () => {
+		const res = await lint({
+			template: [
+				'{% extends "base.njk" %}',
+				'{% block body %}{% include "partials/header.njk" %}',
+				'<img src="asset(\'images/logo.png\', true)">',
+				'<img src="asset(\'images/missing.png\')">',
+				'{% include "partials/nope.njk" %}{{ intro | safe }} {{ name }}',
+				'{% endblock %}'
+			].join('\n'),
+			text_template: 'Hello {{ name }}'
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.failed).toBe(true);
+		expect(res.body.data.template).toMatchObject({
+			variables: ['heading', 'intro', 'name', 'title'],
+			missingAssets: [{ file: '', line: 4, path: 'images/missing.png' }],
+			unresolvedIncludes: [{ file: '', line: 5, name: 'partials/nope.njk' }],
+			safe: [{ file: '', line: 5 }],
+			errors: []
+		});
+		expect(res.body.data.text_template.variables).toEqual(['name']);
+	});
+
+	test('lints the source of a stored template by name', async () => {
+		const res = await lint({ name: 'welcome' });
+		expect(res.status).toBe(200);
+		expect(res.body.data).toMatchObject({ failed: false, text_template: null });
+		expect(res.body.data.template.variables).toEqual(['heading', 'name', 'title']);
+
+		const source = path.join(ctx!.configPath, ctx!.domainName, 'tx-template', 'welcome.njk');
+		const original = fs.readFileSync(source, 'utf8');
+		fs.writeFileSync(
+			source,
+			original + '<img src="asset(\'images/gone.png\')">{% include "partials/nope.njk" %}\n'
+		);
+		try {
+			const changed = await lint({ name: 'welcome' });
+			expect(changed.body.data.failed).toBe(true);
+			expect(changed.body.data.template).toMatchObject({
+				missingAssets: [{ file: 'welcome.njk', line: 8, path: 'images/gone.png' }],
+				unresolvedIncludes: [{ file: 'welcome.njk', line: 8, name: 'partials/nope.njk' }]
+			});
+		} finally {
+			fs.writeFileSync(source, original);
+		}
+	});
+
+	test('requires a template or a name', async () => {
+		expect((await lint({})).status).toBe(400);
+		expect((await lint({ name: 'nope' })).status).toBe(404);
+		const broken = await lint({ template: '{% if x %}' });
+		expect(broken.body.data.failed).toBe(true);
+		expect(broken.body.data.template.errors).toHaveLength(1);
+	});
+});
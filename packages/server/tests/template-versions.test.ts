@@ -0,0 +1,140 @@
+import request from 'supertest';
+
+import { diffLines } from '../src/util/template-versions.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('diffLines', () => {
+	test('marks removed and added lines around unchanged context', () => {
+		expect(diffLines('a\nb\nc\nd', 'a\nc\nx\nd')).toEqual([' a', '-b', ' c', '+x', ' d']);
+		expect(diffLines('same', 'same')).toEqual([]);
+		expect(diffLines('', 'one')).toEqual(['-', '+one']);
+	});
+});
+
+describe('template versions', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	function authed(method: 'get' | 'post', path: string) {
+		return api[method](path).set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+	}
+
+	function storeTemplate(template: string, subject = 'Hello') {
+		return authed('post', '/api/v1/tx/template').send({
+			domain: ctx!.domainName,
+			name: 'versioned',
+			sender: 'sender@example.test',
+			subject,
+			template
+		});
+	}
+
+	test('records a version for each changed upload', async () => {
+		expect((await storeTemplate('<p>one</p>\n<p>footer</p>')).status).toBe(200);
+		expect((await storeTemplate('<p>one</p>\n<p>footer</p>')).status).toBe(200);
+		expect((await storeTemplate('<p>two</p>\n<p>footer</p>', 'Hello again')).status).toBe(200);
+
+		const res = await authed('get', '/api/v1/tx/template/versions').query({
+			domain: ctx!.domainName,
+			name: 'versioned'
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.current).toBe(2);
+		expect(res.body.data.versions).toHaveLength(2);
+		expect(res.body.data.versions[0]).toMatchObject({ version: 2, source: 'api', subject: 'Hello again' });
+	});
+
+	test('diffs two versions', async () => {
+		const res = await authed('get', '/api/v1/tx/template/diff').query({
+			domain: ctx!.domainName,
+			name: 'versioned',
+			from: 1,
+			to: 2
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.diff).toMatchObject({
+			from: 1,
+			to: 2,
+			changes: { subject: { from: 'Hello', to: 'Hello again' } },
+			template: ['-<p>one</p>', '+<p>two</p>', ' <p>footer</p>']
+		});
+
+		const missing = await authed('get', '/api/v1/tx/template/diff').query({
+			domain: ctx!.domainName,
+			name: 'versioned',
+			from: 7
+		});
+		expect(missing.status).toBe(404);
+	});
+
+	test('rolls back to an earlier version', async () => {
+		const res = await authed('post', '/api/v1/tx/template/rollback').send({
+			domain: ctx!.domainName,
+			name: 'versioned',
+			version: 1
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data.version).toMatchObject({ version: 3, source: 'rollback', subject: 'Hello' });
+
+		const preview = await authed('post', '/api/v1/tx/preview').send({ domain: ctx!.domainName, name: 'versioned' });
+		expect(preview.status).toBe(200);
+		expect(preview.body.data.html).toContain('<p>one</p>');
+		expect(preview.body.data.subject).toBe('Hello');
+	});
+
+	test('keeps form versions including imported ones', async () => {
+		const before = await authed('get', '/api/v1/form/template/versions').query({
+			domain: ctx!.domainName,
+			idname: 'contact'
+		});
+		expect(before.status).toBe(200);
+		expect(before.body.data.versions).toEqual([expect.objectContaining({ version: 1, source: 'import' })]);
+
+		const stored = await authed('post', '/api/v1/form/template').send({
+			domain: ctx!.domainName,
+			idname: 'contact',
+			sender: 'sender@example.test',
+			recipient: 'owner@example.test',
+			subject: 'Contact v2',
+			template: '<p>v2</p>'
+		});
+		expect(stored.status).toBe(200);
+
+		const rollback = await authed('post', '/api/v1/form/template/rollback').send({
+			domain: ctx!.domainName,
+			idname: 'contact',
+			version: 1
+		});
+		expect(rollback.status).toBe(200);
+		expect(rollback.body.data).toMatchObject({ restored: 1, version: { version: 3, subject: 'Contact' } });
+	});
+
+	test('rejects unknown templates and bad version numbers', async () => {
+		const unknown = await authed('get', '/api/v1/tx/template/versions').query({
+			domain: ctx!.domainName,
+			name: 'nope'
+		});
+		expect(unknown.status).toBe(404);
+
+		const bad = await authed('post', '/api/v1/tx/template/rollback').send({
+			domain: ctx!.domainName,
+			name: 'versioned',
+			version: 'latest'
+		});
+		expect(bad.status).toBe(400);
+	});
+});
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+
+import request from 'supertest';
+
+import { importData } from '../src/models/init.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('plain-text template companions', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+
+		const domainRoot = path.join(ctx.configPath, ctx.domainName);
+		fs.writeFileSync(path.join(domainRoot, 'tx-template', 'partials', 'footer.txt.njk'), '-- The <Team>');
+		fs.writeFileSync(
+			path.join(domainRoot, 'tx-template', 'welcome.txt.njk'),
+			'Hello {{ name }},\n\n{% include "partials/footer.txt.njk" %}\n'
+		);
+		fs.writeFileSync(
+			path.join(domainRoot, 'form-template', 'contact.txt.njk'),
+			'From {{ _fields_.name }} <{{ _fields_.email }}>\n'
+		);
+		await importData(ctx.store, { force: true });
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	test('uses the tx companion for the text part', async () => {
+		const res = await api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt: 'ada@example.test', vars: { name: 'Ada & co' } });
+		expect(res.status).toBe(200);
+
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.text).toContain('Hello Ada & co,');
+		expect(message.text).toContain('-- The <Team>');
+		expect(String(message.html)).toContain('Hello Ada &amp; co');
+	});
+
+	test('uses the form companion for the text part', async () => {
+		const res = await api.post('/api/v1/form/message').send({
+			_mm_form_key: ctx!.contactFormKey,
+			name: 'Grace',
+			email: 'grace@example.test'
+		});
+		expect(res.status).toBe(200);
+
+		const message = await ctx!.smtp.waitForMessage();
+		expect(message.text?.trim()).toBe('From Grace <grace@example.test>');
+	});
+
+	test('converts the HTML when a template has no text variant', async () => {
+		const stored = await api
+			.post('/api/v1/tx/template')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'html-only',
+				sender: 'sender@example.test',
+				template: '<p>Only HTML</p>'
+			});
+		expect(stored.status).toBe(200);
+
+		const preview = await api
+			.post('/api/v1/tx/preview')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'html-only' });
+		expect(preview.status).toBe(200);
+		expect(preview.body.data.text).toBe('Only HTML');
+	});
+});
@@ -0,0 +1,178 @@
+import request from 'supertest';
+
+import { api_domain } from '../src/models/domain.js';
+import { api_event } from '../src/models/event.js';
+import {
+	addTracking,
+	isTrackingEnabled,
+	trackingSecret,
+	verifyClickToken,
+	verifyOpenToken
+} from '../src/util/tracking.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('tracking rewrite', () => {
+	const vars = { API_URL: 'https://mail.example.test/', API_TOKEN_PEPPER: 'tracking-test-pepper' };
+	const secret = trackingSecret(vars);
+
+	function clickTarget(html: string, index = 0): string | null {
+		const hrefs = [...html.matchAll(/href=(["'])(.*?)\1/g)].map((match) => match[2]);
+		const token = hrefs[index]?.split('/v1/track/click/')[1];
+		return token ? (verifyClickToken(secret, token)?.url ?? null) : null;
+	}
+
+	test('rewrites http(s) links and leaves the rest alone', () => {
+		const html = addTracking(
+			vars,
+			'<html><body>' +
+				'<a href="https://shop.example.test/?a=1&amp;b=2">Shop</a>' +
+				"<a class='x' href='http://example.test/docs'>Docs</a>" +
+				'<a href="mailto:help@example.test">Mail</a>' +
+				'<a href="#top">Top</a>' +
+				'<a href="https://mail.example.test/api/v1/unsubscribe/abc">Unsubscribe</a>' +
+				'</body></html>',
+			'msg-1'
+		);
+		expect(clickTarget(html, 0)).toBe('https://shop.example.test/?a=1&b=2');
+		expect(clickTarget(html, 1)).toBe('http://example.test/docs');
+		expect(html).toContain('href="mailto:help@example.test"');
+		expect(html).toContain('href="#top"');
+		expect(html).toContain('href="https://mail.example.test/api/v1/unsubscribe/abc"');
+
+		const pixel = html.match(/<img src="https:\/\/mail\.example\.test\/api\/v1\/track\/open\/([^"]+)"/);
+		expect(pixel).not.toBeNull();
+		expect(verifyOpenToken(secret, pixel![1])).toBe('msg-1');
+		expect(html.endsWith('</body></html>')).toBe(true);
+	});
+
+	test('appends the pixel to fragments and rejects foreign tokens', () => {
+		const html = addTracking(vars, '<p>Hi</p>', 'msg-2');
+		expect(html.startsWith('<p>Hi</p><img ')).toBe(true);
+		const token = html.match(/\/v1\/track\/open\/([^"]+)"/)![1];
+		expect(verifyOpenToken(trackingSecret({ API_TOKEN_PEPPER: 'other' }), token)).toBeNull();
+		expect(verifyClickToken(secret, token)).toBeNull();
+	});
+
+	test('templates override the domain setting', () => {
+		expect(isTrackingEnabled({ track: null }, { track: false })).toBe(false);
+		expect(isTrackingEnabled({ track: null }, { track: true })).toBe(true);
+		expect(isTrackingEnabled({ track: false }, { track: true })).toBe(false);
+		expect(isTrackingEnabled({ track: true }, { track: false })).toBe(true);
+	});
+});
+
+describe('open and click tracking', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	afterEach(async () => {
+		await api_domain.update({ track: false }, { where: { domain_id: 1 } });
+	});
+
+	function storeTemplate(name: string, track?: boolean) {
+		return api
+			.post('/api/v1/tx/template')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name,
+				sender: 'sender@example.test',
+				subject: 'Links',
+				template:
+					'<p><a href="https://shop.example.test/sale">Sale</a> <a href="mailto:a@example.test">Mail</a></p>',
+				...(track === undefined ? {} : { track })
+			});
+	}
+
+	function send(name: string, rcpt: string) {
+		return api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name, rcpt });
+	}
+
+	test('is off by default', async () => {
+		expect((await storeTemplate('untracked')).status).toBe(200);
+		expect((await send('untracked', 'plain@example.test')).status).toBe(200);
+		const message = await ctx!.smtp.waitForMessage();
+		expect(String(message.html)).toContain('href="https://shop.example.test/sale"');
+		expect(String(message.html)).not.toContain('/v1/track/');
+	});
+
+	test('follows the domain setting for templates without their own', async () => {
+		await api_domain.update({ track: true }, { where: { domain_id: 1 } });
+		expect((await send('untracked', 'domain@example.test')).status).toBe(200);
+		const message = await ctx!.smtp.waitForMessage();
+		expect(String(message.html)).toContain('/api/v1/track/click/');
+	});
+
+	test('records opens and clicks and reports per-template stats', async () => {
+		expect((await storeTemplate('promo', true)).status).toBe(200);
+		const sent = await send('promo', 'reader@example.test');
+		expect(sent.status).toBe(200);
+		const message_id = sent.body.data.results[0].message_id as string;
+		const message = await ctx!.smtp.waitForMessage();
+		const html = String(message.html);
+		expect(html).toContain('href="mailto:a@example.test"');
+
+		const clickPath = new URL(html.match(/href="([^"]*\/v1\/track\/click\/[^"]+)"/)![1]).pathname;
+		const openPath = new URL(html.match(/src="([^"]*\/v1\/track\/open\/[^"]+)"/)![1]).pathname;
+
+		const click = await api.get(clickPath).set('User-Agent', 'test-agent');
+		expect(click.status).toBe(302);
+		expect(click.headers['location']).toBe('https://shop.example.test/sale');
+
+		for (let i = 0; i < 2; i++) {
+			const open = await api.get(openPath);
+			expect(open.status).toBe(200);
+			expect(open.headers['content-type']).toContain('image/gif');
+		}
+
+		const events = await api
+			.get(`/api/v1/messages/${message_id}/events`)
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.query({ domain: ctx!.domainName });
+		expect(events.status).toBe(200);
+		expect(events.body.data.events.map((event: { type: string }) => event.type)).toEqual(['click', 'open', 'open']);
+		expect(events.body.data.events[0]).toMatchObject({
+			url: 'https://shop.example.test/sale',
+			user_agent: 'test-agent'
+		});
+
+		const stats = await api
+			.get('/api/v1/tx/stats')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.query({ domain: ctx!.domainName, template: 'promo' });
+		expect(stats.status).toBe(200);
+		expect(stats.body.data.templates).toEqual([
+			{ template: 'promo', sent: 1, opens: 2, unique_opens: 1, clicks: 1, unique_clicks: 1 }
+		]);
+	});
+
+	test('rejects bad tokens without recording anything', async () => {
+		const before = await api_event.count();
+		expect((await api.get('/api/v1/track/click/not-a-token')).status).toBe(404);
+		const open = await api.get('/api/v1/track/open/not-a-token');
+		expect(open.status).toBe(200);
+		expect(open.headers['content-type']).toContain('image/gif');
+		expect(await api_event.count()).toBe(before);
+	});
+});
@@ -0,0 +1,269 @@
+import net from 'node:net';
+
+import request from 'supertest';
+
+import { api_domain, domain_transport_list_schema, domain_transport_schema } from '../src/models/domain.js';
+import { api_message } from '../src/models/message.js';
+import { CircuitBreaker, domainTransportOptions, sendWithFailover } from '../src/store/transport.js';
+
+import { createTestContext, startSmtpServer } from './helpers/test-setup.js';
+
+import type { SmtpCapture, TestContext } from './helpers/test-setup.js';
+import type { MailTransport, NamedTransport } from '../src/store/transport.js';
+
+const defaults = { SMTP_TLS_REJECT: true, SMTP_REQUIRE_TLS: true, DEBUG: false };
+
+describe('domainTransportOptions', () => {
+	test('applies defaults and inherits global TLS settings', () => {
+		const options = domainTransportOptions(domain_transport_schema.parse({ host: 'smtp.brand.test' }), {
+			...defaults,
+			SMTP_TLS_REJECT: false
+		});
+		expect(options).toMatchObject({
+			host: 'smtp.brand.test',
+			port: 587,
+			secure: false,
+			requireTLS: true,
+			tls: { rejectUnauthorized: false }
+		});
+		expect(options.auth).toBeUndefined();
+		expect(domainTransportOptions(domain_transport_schema.parse({ host: 'h', secure: true }), defaults).port).toBe(
+			465
+		);
+	});
+
+	test('resolves credentials from env var references', () => {
+		const config = domain_transport_schema.parse({
+			host: 'smtp.brand.test',
+			auth: { user: 'brand', pass_env: 'BRAND_SMTP_PASS' },
+			pool: true,
+			max_connections: 2
+		});
+		const options = domainTransportOptions(config, defaults, { BRAND_SMTP_PASS: 's3cret' });
+		expect(options.auth).toEqual({ user: 'brand', pass: 's3cret' });
+		expect(options).toMatchObject({ pool: true, maxConnections: 2 });
+
+		expect(() => domainTransportOptions(config, defaults, {})).toThrow('"BRAND_SMTP_PASS" is not set');
+	});
+
+	test('rejects invalid env var names', () => {
+		expect(() => domain_transport_schema.parse({ host: 'h', auth: { pass_env: 'not a name' } })).toThrow();
+	});
+});
+
+describe('CircuitBreaker', () => {
+	test('opens after consecutive failures and lets one trial through after the cooldown', () => {
+		let now = 1000;
+		const breaker = new CircuitBreaker(2, 500, () => now);
+
+		breaker.failure('relay');
+		expect(breaker.allow('relay')).toBe(true);
+		breaker.failure('relay');
+		expect(breaker.isOpen('relay')).toBe(true);
+		expect(breaker.allow('relay')).toBe(false);
+
+		now += 500;
+		expect(breaker.allow('relay')).toBe(true);
+		expect(breaker.allow('relay')).toBe(false);
+		breaker.failure('relay');
+		expect(breaker.allow('relay')).toBe(false);
+
+		now += 500;
+		expect(breaker.allow('relay')).toBe(true);
+		breaker.success('relay');
+		expect(breaker.isOpen('relay')).toBe(false);
+		expect(breaker.allow('relay')).toBe(true);
+	});
+
+	test('never opens with a zero threshold', () => {
+		const breaker = new CircuitBreaker(0, 500);
+		for (let i = 0; i < 5; i += 1) {
+			breaker.failure('relay');
+		}
+		expect(breaker.allow('relay')).toBe(true);
+	});
+});
+
+describe('sendWithFailover', () => {
+	const mail = { from: 'a@example.test', to: 'b@example.test', subject: 's', html: '', text: '' };
+
+	function fake(name: string, result: Error | string): NamedTransport & { calls: number } {
+		const entry = {
+			name,
+			calls: 0,
+			transport: {
+				sendMail: async () => {
+					entry.calls += 1;
+					if (result instanceof Error) {
+						throw result;
+					}
+					return { messageId: `<${name}@test>`, response: result };
+				}
+			} as unknown as MailTransport
+		};
+		return entry;
+	}
+
+	const refused = () => Object.assign(new Error('connect ECONNREFUSED'), { code: 'ESOCKET' });
+
+	test('moves to the next transport on connection errors and 4xx replies', async () => {
+		const primary = fake('primary', refused());
+		const deferring = fake('deferring', Object.assign(new Error('busy'), { responseCode: 421 }));
+		const backup = fake('backup', '250 OK');
+
+		const info = await sendWithFailover([primary, deferring, backup], mail, new CircuitBreaker(3, 1000), 't');
+		expect(info).toMatchObject({ transport: 'backup', response: '250 OK' });
+		expect(primary.calls + deferring.calls + backup.calls).toBe(3);
+	});
+
+	test('does not fail over on a permanent rejection', async () => {
+		const primary = fake('primary', Object.assign(new Error('no such user'), { responseCode: 550 }));
+		const backup = fake('backup', '250 OK');
+
+		await expect(sendWithFailover([primary, backup], mail, new CircuitBreaker(3, 1000), 't')).rejects.toThrow(
+			'no such user'
+		);
+		expect(backup.calls).toBe(0);
+	});
+
+	test('skips transports whose breaker is open', async () => {
+		const breaker = new CircuitBreaker(1, 60_000);
+		const primary = fake('primary', refused());
+		const backup = fake('backup', '250 OK');
+
+		await sendWithFailover([primary, backup], mail, breaker, 't');
+		await sendWithFailover([primary, backup], mail, breaker, 't');
+		expect(primary.calls).toBe(1);
+		expect(backup.calls).toBe(2);
+
+		await expect(sendWithFailover([primary], mail, breaker, 't')).rejects.toThrow('No mail transport available');
+	});
+});
+
+describe('per-domain SMTP transport', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+	let relay: SmtpCapture;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+		relay = await startSmtpServer({ secure: false, auth: { user: 'brand', pass: 'relay-secret' } });
+	});
+
+	afterAll(async () => {
+		delete process.env.MM_TEST_RELAY_PASS;
+		await new Promise<void>((resolve) => relay.server.close(() => resolve()));
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+		relay.reset();
+	});
+
+	async function setDomainTransport(transport: Record<string, unknown> | Record<string, unknown>[] | null) {
+		await api_domain.update(
+			{ transport: transport ? domain_transport_list_schema.parse(transport) : null },
+			{ where: { name: ctx!.domainName } }
+		);
+	}
+
+	function send(rcpt: string) {
+		return api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'welcome',
+				rcpt,
+				vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' }
+			});
+	}
+
+	test('relays through the domain transport with env-referenced credentials', async () => {
+		process.env.MM_TEST_RELAY_PASS = 'relay-secret';
+		await setDomainTransport({
+			host: '127.0.0.1',
+			port: relay.port,
+			secure: false,
+			require_tls: false,
+			auth: { user: 'brand', pass_env: 'MM_TEST_RELAY_PASS' }
+		});
+		try {
+			const res = await send('brand-rcpt@example.test');
+			expect(res.status).toBe(200);
+			expect(res.body.data.results[0].status).toBe('sent');
+
+			const message = await relay.waitForMessage();
+			expect(message.subject).toBe('Welcome!');
+			expect(ctx!.smtp.messages).toHaveLength(0);
+		} finally {
+			await setDomainTransport(null);
+		}
+	});
+
+	test('falls back to the global transport when the domain has none', async () => {
+		const res = await send('global-rcpt@example.test');
+		expect(res.body.data.results[0].status).toBe('sent');
+
+		await ctx!.smtp.waitForMessage();
+		expect(relay.messages).toHaveLength(0);
+	});
+
+	test('keeps the message queued when a referenced secret is missing', async () => {
+		await setDomainTransport({
+			host: '127.0.0.1',
+			port: relay.port,
+			auth: { user: 'brand', pass_env: 'MM_TEST_MISSING_PASS' }
+		});
+		try {
+			const res = await send('missing-secret@example.test');
+			expect(res.body.data.results[0]).toMatchObject({ status: 'queued' });
+			expect(res.body.data.results[0].error).toContain('"MM_TEST_MISSING_PASS" is not set');
+		} finally {
+			await setDomainTransport(null);
+		}
+	});
+
+	test('fails over from a relay refusing connections and records the delivering transport', async () => {
+		const closedPort = await new Promise<number>((resolve) => {
+			const probe = net.createServer();
+			probe.listen(0, '127.0.0.1', () => {
+				const { port } = probe.address() as net.AddressInfo;
+				probe.close(() => resolve(port));
+			});
+		});
+		process.env.MM_TEST_RELAY_PASS = 'relay-secret';
+		await setDomainTransport([
+			{ name: 'refusing', host: '127.0.0.1', port: closedPort, secure: false, require_tls: false },
+			{
+				name: 'backup-relay',
+				host: '127.0.0.1',
+				port: relay.port,
+				secure: false,
+				require_tls: false,
+				auth: { user: 'brand', pass_env: 'MM_TEST_RELAY_PASS' }
+			}
+		]);
+		try {
+			const threshold = ctx!.store.vars.SMTP_BREAKER_THRESHOLD;
+			for (let i = 0; i < threshold; i += 1) {
+				const res = await send(`failover-${i}@example.test`);
+				const [result] = res.body.data.results;
+				expect(result).toMatchObject({ status: 'sent', transport: 'backup-relay' });
+
+				const logged = await api_message.findOne({ where: { message_id: result.message_id } });
+				expect(logged?.transport).toBe('backup-relay');
+				await relay.waitForMessage();
+			}
+			const domain = await api_domain.findOne({ where: { name: ctx!.domainName } });
+			expect(ctx!.store.breaker.isOpen(`domain/${domain!.domain_id}/refusing`)).toBe(true);
+			expect(ctx!.smtp.messages).toHaveLength(0);
+		} finally {
+			await setDomainTransport(null);
+		}
+	});
+});
@@ -0,0 +1,118 @@
+import request from 'supertest';
+
+import { api_message } from '../src/models/message.js';
+import { api_outbox } from '../src/models/outbox.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+describe('tx per-recipient results', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	function send(rcpt: string) {
+		return api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({
+				domain: ctx!.domainName,
+				name: 'welcome',
+				rcpt,
+				vars: { title: 'Hello', heading: 'Mail Magic', name: 'Jane' }
+			});
+	}
+
+	async function withFailingTransport<T>(error: Error, fn: () => Promise<T>): Promise<T> {
+		const transport = ctx!.store.transport!;
+		const originalSendMail = transport.sendMail.bind(transport);
+		transport.sendMail = (async () => {
+			throw error;
+		}) as typeof transport.sendMail;
+		try {
+			return await fn();
+		} finally {
+			transport.sendMail = originalSendMail;
+		}
+	}
+
+	test('reports sent recipients with the SMTP response', async () => {
+		const res = await send('results-ok@example.test');
+
+		expect(res.status).toBe(200);
+		expect(res.body.data.Status).toBe('OK');
+		expect(res.body.data.sent).toBe(1);
+		expect(res.body.data.results).toHaveLength(1);
+		expect(res.body.data.results[0]).toMatchObject({ rcpt: 'results-ok@example.test', status: 'sent' });
+		expect(res.body.data.results[0].smtp_response).toMatch(/^250/);
+		await ctx!.smtp.waitForMessage();
+	});
+
+	test('skips invalid and duplicate addresses and returns 207 for the rest', async () => {
+		const res = await send('results-a@example.test, not-an-email, results-a@example.test');
+
+		expect(res.status).toBe(207);
+		expect(res.body.data.Status).toBe('PARTIAL');
+		expect(res.body.data.results.map((r: { status: string }) => r.status)).toEqual(['sent', 'skipped', 'skipped']);
+		expect(res.body.data.results[1]).toMatchObject({ rcpt: 'not-an-email', error: 'Invalid email address' });
+		expect(res.body.data.results[2].error).toBe('Duplicate recipient');
+		await ctx!.smtp.waitForMessage();
+	});
+
+	test('still rejects a request where no address is valid', async () => {
+		const res = await send('nope, also-nope');
+		expect(res.status).toBe(400);
+	});
+
+	test('reports permanent SMTP rejections as failed', async () => {
+		const rejection = Object.assign(new Error('Mailbox unavailable'), {
+			responseCode: 550,
+			response: '550 5.1.1 <results-rejected@example.test>: mailbox unavailable'
+		});
+		const res = await withFailingTransport(rejection, () => send('results-rejected@example.test'));
+
+		expect(res.status).toBe(207);
+		expect(res.body.data.Status).toBe('FAILED');
+		const [result] = res.body.data.results;
+		expect(result).toMatchObject({
+			rcpt: 'results-rejected@example.test',
+			status: 'failed',
+			smtp_response: '550 5.1.1 <results-rejected@example.test>: mailbox unavailable'
+		});
+
+		const logged = await api_message.findOne({ where: { message_id: result.message_id } });
+		expect(logged?.status).toBe('failed');
+		expect(logged?.smtp_response).toContain('550 5.1.1');
+	});
+
+	test('keeps transient failures queued for retry', async () => {
+		const deferral = Object.assign(new Error('Try again later'), {
+			responseCode: 451,
+			response: '451 4.7.1 greylisted'
+		});
+		const res = await withFailingTransport(deferral, () => send('results-deferred@example.test'));
+
+		expect(res.status).toBe(200);
+		const [result] = res.body.data.results;
+		expect(result).toMatchObject({ status: 'queued', smtp_response: '451 4.7.1 greylisted' });
+
+		const row = await api_outbox.findOne({ where: { message_id: result.message_id } });
+		expect(row?.status).toBe('queued');
+		expect(row?.attempts).toBe(1);
+	});
+});
@@ -0,0 +1,145 @@
+import request from 'supertest';
+
+import { api_suppression } from '../src/models/suppression.js';
+import { api_txmail } from '../src/models/txmail.js';
+import { createUnsubscribeToken, mergeHeaders, verifyUnsubscribeToken } from '../src/util/unsubscribe.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+import type { ParsedMail } from 'mailparser';
+
+describe('unsubscribe tokens', () => {
+	const secret = 'unsubscribe-test-secret';
+
+	test('round-trips the payload and rejects tampering', () => {
+		const token = createUnsubscribeToken(secret, { domain_id: 3, email: 'Ada@Example.test', category: 'news' });
+		expect(verifyUnsubscribeToken(secret, token)).toEqual({
+			domain_id: 3,
+			email: 'ada@example.test',
+			category: 'news'
+		});
+
+		const [body, signature] = token.split('.');
+		const forged = Buffer.from(JSON.stringify([4, 'ada@example.test', 'news'])).toString('base64url');
+		expect(verifyUnsubscribeToken(secret, `${forged}.${signature}`)).toBeNull();
+		expect(verifyUnsubscribeToken('another-secret', token)).toBeNull();
+		expect(verifyUnsubscribeToken(secret, body)).toBeNull();
+		expect(verifyUnsubscribeToken(secret, 'garbage')).toBeNull();
+	});
+
+	test('keeps caller-supplied headers over generated ones', () => {
+		expect(
+			mergeHeaders(
+				{ 'List-Unsubscribe': '<https://generated>', 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+				{ 'list-unsubscribe': '<mailto:leave@example.test>' }
+			)
+		).toEqual({
+			'list-unsubscribe': '<mailto:leave@example.test>',
+			'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+		});
+		expect(mergeHeaders({}, undefined)).toBeUndefined();
+	});
+});
+
+describe('unsubscribe links', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	afterEach(async () => {
+		await api_txmail.update({ category: '' }, { where: { name: 'welcome' } });
+	});
+
+	function headerLine(message: ParsedMail, key: string): string {
+		const line = message.headerLines.find((header) => header.key === key)?.line ?? '';
+		return line.replace(/\r?\n\s+/g, ' ');
+	}
+
+	function send(rcpt: string) {
+		return api
+			.post('/api/v1/tx/message')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt });
+	}
+
+	test('adds no unsubscribe headers to templates without a category', async () => {
+		expect((await send('plain@example.test')).status).toBe(200);
+		const message = await ctx!.smtp.waitForMessage();
+		expect(headerLine(message, 'list-unsubscribe')).toBe('');
+	});
+
+	test('generates headers, confirms on GET and records the opt-out on POST', async () => {
+		await api_txmail.update({ category: 'news' }, { where: { name: 'welcome' } });
+
+		expect((await send('reader@example.test')).status).toBe(200);
+		const message = await ctx!.smtp.waitForMessage();
+		expect(headerLine(message, 'list-unsubscribe-post')).toBe('List-Unsubscribe-Post: List-Unsubscribe=One-Click');
+		const url = headerLine(message, 'list-unsubscribe').match(/<([^>]+)>/)?.[1] ?? '';
+		const path = new URL(url).pathname;
+		expect(path).toMatch(/^\/api\/v1\/unsubscribe\//);
+
+		const page = await api.get(path);
+		expect(page.status).toBe(200);
+		expect(page.headers['content-type']).toContain('text/html');
+		expect(page.text).toContain('reader@example.test');
+		expect(page.text).toContain('<form method="post">');
+		expect(await api_suppression.count({ where: { email: 'reader@example.test' } })).toBe(0);
+
+		const confirmed = await api.post(path).type('form').send('List-Unsubscribe=One-Click');
+		expect(confirmed.status).toBe(200);
+		expect(confirmed.text).toContain('will no longer receive');
+		const entry = await api_suppression.findOne({ where: { email: 'reader@example.test' } });
+		expect(entry).toMatchObject({ reason: 'unsubscribe', category: 'news' });
+
+		// Repeating the click is harmless.
+		expect((await api.post(path).type('form').send('List-Unsubscribe=One-Click')).status).toBe(200);
+		expect(await api_suppression.count({ where: { email: 'reader@example.test' } })).toBe(1);
+
+		const skipped = await send('reader@example.test');
+		expect(skipped.status).toBe(207);
+		expect(skipped.body.data.results[0]).toMatchObject({ status: 'skipped', error: 'Suppressed (unsubscribe)' });
+	});
+
+	test('an opt-out only covers its own category', async () => {
+		await api_suppression.create({
+			domain_id: 1,
+			email: 'partial@example.test',
+			reason: 'unsubscribe',
+			category: 'news',
+			note: ''
+		});
+		expect((await send('partial@example.test')).status).toBe(200);
+		await ctx!.smtp.waitForMessage();
+	});
+
+	test('rejects invalid tokens', async () => {
+		const res = await api.get('/api/v1/unsubscribe/not-a-token');
+		expect(res.status).toBe(404);
+		expect(res.text).toContain('not valid');
+	});
+
+	test('adds the headers to previews', async () => {
+		await api_txmail.update({ category: 'news' }, { where: { name: 'welcome' } });
+		const res = await api
+			.post('/api/v1/tx/preview')
+			.set('Authorization', `Bearer apikey-${ctx!.userToken}`)
+			.send({ domain: ctx!.domainName, name: 'welcome', rcpt: 'preview@example.test' });
+		expect(res.status).toBe(200);
+		expect(res.body.data.headers['List-Unsubscribe']).toMatch(/^<http.*\/api\/v1\/unsubscribe\/.+>$/);
+	});
+});
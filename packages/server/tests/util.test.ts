@@ -1,6 +1,7 @@
 import { STARTUP_ERROR_MESSAGE } from '../src/index.js';
 import { usesSqlitePragmas } from '../src/models/db.js';
 import { envOptions } from '../src/store/envloader.js';
+import { isPermanentSendError, outboxRetryDelay } from '../src/store/outbox.js';
 import {
 	MAIL_MAGIC_API_BASE_PATH,
 	MAIL_MAGIC_ASSET_ROUTE,
@@ -64,4 +65,17 @@ describe('util', () => {
 		expect(normalizeRoute('/api///', '/x')).toBe('/api');
 		expect(normalizeRoute('/', '/x')).toBe('/');
 	});
+
+	test('outboxRetryDelay doubles per attempt and is capped', () => {
+		expect(outboxRetryDelay(1, 1000, 60000)).toBe(1000);
+		expect(outboxRetryDelay(2, 1000, 60000)).toBe(2000);
+		expect(outboxRetryDelay(4, 1000, 60000)).toBe(8000);
+		expect(outboxRetryDelay(20, 1000, 60000)).toBe(60000);
+	});
+
+	test('isPermanentSendError only treats SMTP 5xx replies as permanent', () => {
+		expect(isPermanentSendError(Object.assign(new Error('rejected'), { responseCode: 550 }))).toBe(true);
+		expect(isPermanentSendError(Object.assign(new Error('busy'), { responseCode: 421 }))).toBe(false);
+		expect(isPermanentSendError(new Error('ECONNREFUSED'))).toBe(false);
+	});
 });
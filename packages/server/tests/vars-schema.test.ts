@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+
+import request from 'supertest';
+
+import { importData } from '../src/models/init.js';
+import { api_txmail } from '../src/models/txmail.js';
+import { assertTemplateVars, compileVarsSchema } from '../src/util/vars-schema.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+
+const welcomeSchema = {
+	type: 'object',
+	required: ['name', 'order'],
+	properties: {
+		name: { type: 'string', minLength: 1 },
+		order: {
+			type: 'object',
+			required: ['id'],
+			properties: { id: { type: 'integer' } }
+		}
+	}
+};
+
+describe('assertTemplateVars', () => {
+	const validator = compileVarsSchema(welcomeSchema);
+
+	test('accepts vars matching the schema', () => {
+		expect(() => assertTemplateVars(validator, { name: 'Ada', order: { id: 7 } }, 'welcome')).not.toThrow();
+		expect(() => assertTemplateVars(null, {}, 'welcome')).not.toThrow();
+	});
+
+	test('names missing and invalid fields', () => {
+		expect(() => assertTemplateVars(validator, { order: { id: 'x' } }, 'welcome')).toThrow(
+			'Invalid vars for template "welcome": missing name; invalid order.id'
+		);
+	});
+
+	test('rejects unsupported schemas', () => {
+		expect(() => compileVarsSchema({ type: 'strng' })).toThrow('Invalid vars schema');
+	});
+});
+
+describe('template vars schema', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+
+	beforeAll(async () => {
+		ctx = await createTestContext();
+		api = request((ctx.server as unknown as { app: unknown }).app);
+
+		fs.writeFileSync(
+			path.join(ctx.configPath, ctx.domainName, 'tx-template', 'welcome.vars.json'),
+			JSON.stringify(welcomeSchema)
+		);
+		await importData(ctx.store, { force: true });
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+	});
+
+	beforeEach(() => {
+		ctx?.smtp.reset();
+	});
+
+	function authed(method: 'get' | 'post', path: string) {
+		return api[method](path).set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+	}
+
+	test('rejects sends with missing or invalid vars', async () => {
+		const res = await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'welcome',
+			rcpt: 'ada@example.test',
+			vars: { order: { id: 'abc' } }
+		});
+		expect(res.status).toBe(422);
+		expect(res.body.message).toContain('missing name; invalid order.id');
+		expect(res.body.errors).toMatchObject({ 'vars.name': 'Required' });
+		expect(res.body.errors['vars.order.id']).toBeTruthy();
+		expect(ctx!.smtp.messages).toHaveLength(0);
+	});
+
+	test('sends when the vars match', async () => {
+		const res = await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'welcome',
+			rcpt: 'ada@example.test',
+			vars: { name: 'Ada', order: { id: 42 } }
+		});
+		expect(res.status).toBe(200);
+		const message = await ctx!.smtp.waitForMessage();
+		expect(String(message.html)).toContain('Hello Ada');
+	});
+
+	test('fails only the batch entries with invalid vars', async () => {
+		const res = await authed('post', '/api/v1/tx/batch').send({
+			domain: ctx!.domainName,
+			name: 'welcome',
+			entries: [
+				{ rcpt: 'one@example.test', vars: { name: 'One', order: { id: 1 } } },
+				{ rcpt: 'two@example.test', vars: { name: 'Two' } }
+			]
+		});
+		expect(res.body.data.results).toEqual([
+			expect.objectContaining({ index: 0, status: 'queued' }),
+			expect.objectContaining({ index: 1, status: 'failed', error: expect.stringContaining('missing order') })
+		]);
+	});
+
+	test('exposes the schema', async () => {
+		const res = await authed('get', '/api/v1/tx/template/schema').query({
+			domain: ctx!.domainName,
+			name: 'welcome'
+		});
+		expect(res.status).toBe(200);
+		expect(res.body.data).toMatchObject({ name: 'welcome', schema: welcomeSchema });
+	});
+
+	test('rejects an invalid sidecar schema on import without storing it', async () => {
+		const schemaFile = path.join(ctx!.configPath, ctx!.domainName, 'tx-template', 'welcome.vars.json');
+		fs.writeFileSync(schemaFile, JSON.stringify({ type: 'strng' }));
+		try {
+			await expect(importData(ctx!.store, { force: true })).rejects.toThrow('Template "welcome"');
+			const stored = await api_txmail.findOne({ where: { name: 'welcome' } });
+			expect(stored?.vars_schema).toEqual(welcomeSchema);
+		} finally {
+			fs.writeFileSync(schemaFile, JSON.stringify(welcomeSchema));
+			await importData(ctx!.store, { force: true });
+		}
+	});
+});
@@ -0,0 +1,258 @@
+import { createHmac } from 'crypto';
+import http from 'http';
+
+import request from 'supertest';
+
+import { api_webhook_delivery } from '../src/models/webhook-delivery.js';
+import { isPermanentWebhookStatus } from '../src/store/webhooks.js';
+import { verpAddress } from '../src/util/bounce.js';
+import { webhookSignature } from '../src/util/webhooks.js';
+
+import { createTestContext } from './helpers/test-setup.js';
+
+import type { TestContext } from './helpers/test-setup.js';
+import type { AddressInfo } from 'net';
+
+type Received = { headers: http.IncomingHttpHeaders; body: string };
+
+// Local HTTP stand-in for a webhook receiver. `replies` holds the status codes for the next requests
+// (200 once it runs out); `next(type)` waits for a request carrying that event type.
+async function startReceiver() {
+	const received: Received[] = [];
+	const replies: number[] = [];
+	const waiters: Array<() => void> = [];
+	const server = http.createServer((req, res) => {
+		let body = '';
+		req.on('data', (chunk) => (body += chunk));
+		req.on('end', () => {
+			received.push({ headers: req.headers, body });
+			res.statusCode = replies.shift() ?? 200;
+			res.end('ok');
+			waiters.splice(0).forEach((wake) => wake());
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+
+	async function next(type: string, timeoutMs = 5000): Promise<Received> {
+		const deadline = Date.now() + timeoutMs;
+		for (;;) {
+			const index = received.findIndex((entry) => entry.headers['x-mail-magic-event'] === type);
+			if (index >= 0) {
+				return received.splice(index, 1)[0];
+			}
+			if (Date.now() > deadline) {
+				throw new Error(`No ${type} webhook received`);
+			}
+			await new Promise<void>((resolve) => {
+				waiters.push(resolve);
+				setTimeout(resolve, 100);
+			});
+		}
+	}
+
+	return {
+		url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+		replies,
+		received,
+		next,
+		close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+	};
+}
+
+describe('webhook signing', () => {
+	test('signs the timestamp and body', () => {
+		const signature = webhookSignature('whsec_test', 1700000000, '{"a":1}');
+		const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+		expect(signature).toBe(`t=1700000000,v1=${expected}`);
+	});
+
+	test('retries everything but plain 4xx rejections', () => {
+		expect(isPermanentWebhookStatus(400)).toBe(true);
+		expect(isPermanentWebhookStatus(410)).toBe(true);
+		expect(isPermanentWebhookStatus(408)).toBe(false);
+		expect(isPermanentWebhookStatus(429)).toBe(false);
+		expect(isPermanentWebhookStatus(500)).toBe(false);
+		expect(isPermanentWebhookStatus(0)).toBe(false);
+	});
+});
+
+describe('webhooks', () => {
+	let ctx: TestContext | null = null;
+	let api: ReturnType<typeof request>;
+	let receiver: Awaited<ReturnType<typeof startReceiver>>;
+	let webhook: { webhook_id: number; secret: string };
+
+	beforeAll(async () => {
+		ctx = await createTestContext({
+			env: {
+				BOUNCE_VERP_ADDRESS: 'bounces@example.test',
+				OUTBOX_POLL_MS: 50,
+				WEBHOOK_RETRY_BASE_MS: 20,
+				WEBHOOK_RETRY_MAX_MS: 100
+			}
+		});
+		api = request((ctx.server as unknown as { app: unknown }).app);
+		receiver = await startReceiver();
+	});
+
+	afterAll(async () => {
+		if (ctx) {
+			await ctx.cleanup();
+		}
+		await receiver?.close();
+	});
+
+	function authed(method: 'get' | 'post' | 'put' | 'delete', path: string) {
+		return api[method](path).set('Authorization', `Bearer apikey-${ctx!.userToken}`);
+	}
+
+	function verify(entry: Received): Record<string, unknown> {
+		const match = String(entry.headers['x-mail-magic-signature']).match(/^t=(\d+),v1=([0-9a-f]+)$/);
+		expect(match).not.toBeNull();
+		expect(webhookSignature(webhook.secret, Number(match![1]), entry.body)).toBe(
+			entry.headers['x-mail-magic-signature']
+		);
+		return JSON.parse(entry.body) as Record<string, unknown>;
+	}
+
+	test('validates and stores subscriptions', async () => {
+		const badUrl = await authed('post', '/api/v1/webhooks').send({
+			domain: ctx!.domainName,
+			url: 'ftp://example.test',
+			events: ['message.sent']
+		});
+		expect(badUrl.status).toBe(400);
+		const badEvent = await authed('post', '/api/v1/webhooks').send({
+			domain: ctx!.domainName,
+			url: receiver.url,
+			events: ['message.opened']
+		});
+		expect(badEvent.status).toBe(400);
+
+		const created = await authed('post', '/api/v1/webhooks').send({
+			domain: ctx!.domainName,
+			url: receiver.url,
+			events: '*',
+			description: 'CRM'
+		});
+		expect(created.status).toBe(201);
+		webhook = created.body.data.webhook;
+		expect(webhook.secret).toMatch(/^whsec_/);
+
+		const list = await authed('get', '/api/v1/webhooks').query({ domain: ctx!.domainName });
+		expect(list.status).toBe(200);
+		expect(list.body.data.webhooks).toHaveLength(1);
+		expect(list.body.data.webhooks[0].events).toContain('form.submitted');
+		expect(list.body.data.webhooks[0].secret).toBeUndefined();
+
+		// Other domains' webhooks are not reachable.
+		const other = await api
+			.get(`/api/v1/webhooks/${webhook.webhook_id}/deliveries`)
+			.set('Authorization', `Bearer apikey-${ctx!.otherUserToken}`)
+			.query({ domain: ctx!.otherDomainName });
+		expect(other.status).toBe(404);
+	});
+
+	test('posts signed message.sent events and retries failed deliveries', async () => {
+		receiver.replies.push(503);
+		const sent = await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'welcome',
+			rcpt: 'crm@example.test'
+		});
+		expect(sent.status).toBe(200);
+		const message_id = sent.body.data.results[0].message_id;
+
+		const first = await receiver.next('message.sent');
+		const retried = await receiver.next('message.sent');
+		expect(retried.body).toBe(first.body);
+		const payload = verify(retried);
+		expect(payload).toMatchObject({ type: 'message.sent', domain: ctx!.domainName });
+		expect(payload.data).toMatchObject({ message_id, rcpt: 'crm@example.test', status: 'sent' });
+		expect(retried.headers['x-mail-magic-event-id']).toBe(payload.id);
+
+		await vi.waitFor(async () => {
+			const log = await authed('get', `/api/v1/webhooks/${webhook.webhook_id}/deliveries`).query({
+				domain: ctx!.domainName,
+				type: 'message.sent'
+			});
+			expect(log.body.data.deliveries[0]).toMatchObject({
+				event_id: payload.id,
+				status: 'delivered',
+				attempts: 2,
+				response_code: 200
+			});
+		});
+	});
+
+	test('reports form submissions and bounces', async () => {
+		const submitted = await api.post('/api/v1/form/message').send({
+			_mm_form_key: ctx!.contactFormKey,
+			email: 'ada@example.test',
+			name: 'Ada'
+		});
+		expect(submitted.status).toBe(200);
+		const form = verify(await receiver.next('form.submitted'));
+		expect(form.data).toMatchObject({
+			message_id: submitted.body.data.message_id,
+			idname: 'contact',
+			fields: { email: 'ada@example.test', name: 'Ada' }
+		});
+
+		const sent = await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'welcome',
+			rcpt: 'gone@example.test'
+		});
+		const message_id = sent.body.data.results[0].message_id;
+		const report = [
+			'From: MAILER-DAEMON@mx.example.test',
+			`To: ${verpAddress('bounces@example.test', message_id)}`,
+			'Content-Type: multipart/report; report-type=delivery-status; boundary="b"',
+			'',
+			'--b',
+			'Content-Type: message/delivery-status',
+			'',
+			'Reporting-MTA: dns; mx.example.test',
+			'',
+			'Final-Recipient: rfc822; gone@example.test',
+			'Action: failed',
+			'Status: 5.1.1',
+			'',
+			'--b--',
+			''
+		].join('\r\n');
+		expect(
+			(await authed('post', '/api/v1/bounces').send({ domain: ctx!.domainName, message: report })).status
+		).toBe(200);
+		const bounced = verify(await receiver.next('message.bounced'));
+		expect(bounced.data).toMatchObject({
+			message_id,
+			status: 'bounced',
+			recipients: [{ email: 'gone@example.test', action: 'failed', status: '5.1.1' }]
+		});
+	});
+
+	test('stops delivering to disabled or deleted webhooks', async () => {
+		const disabled = await authed('put', `/api/v1/webhooks/${webhook.webhook_id}`).send({
+			domain: ctx!.domainName,
+			enabled: false
+		});
+		expect(disabled.status).toBe(200);
+		expect(disabled.body.data.webhook.enabled).toBe(false);
+
+		await authed('post', '/api/v1/tx/message').send({
+			domain: ctx!.domainName,
+			name: 'welcome',
+			rcpt: 'quiet@example.test'
+		});
+		const deliveries = await api_webhook_delivery.findAll();
+		expect(deliveries.filter((entry) => entry.payload.data.rcpt === 'quiet@example.test')).toHaveLength(0);
+
+		const removed = await authed('delete', `/api/v1/webhooks/${webhook.webhook_id}`).query({
+			domain: ctx!.domainName
+		});
+		expect(removed.status).toBe(200);
+		expect(await api_webhook_delivery.count({ where: { webhook_id: webhook.webhook_id } })).toBe(0);
+	});
+});
@@ -14,6 +14,14 @@ const mappings = [
 	{
 		source: path.join(root, 'packages', 'common', 'template-flatten.ts'),
 		target: path.join(root, 'packages', 'server', 'src', 'util', 'shared-template-flatten.ts')
+	},
+	{
+		source: path.join(root, 'packages', 'common', 'template-lint.ts'),
+		target: path.join(root, 'packages', 'cli', 'src', 'shared-template-lint.ts')
+	},
+	{
+		source: path.join(root, 'packages', 'common', 'template-lint.ts'),
+		target: path.join(root, 'packages', 'server', 'src', 'util', 'shared-template-lint.ts')
 	}
 ];
 
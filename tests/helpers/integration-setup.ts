@@ -198,6 +198,7 @@ export async function createIntegrationContext(): Promise<IntegrationContext> {
 	const baseUrl = `http://127.0.0.1:${port}`;
 
 	const cleanup = async () => {
+		await bootstrap.store.outboxWorker?.stop();
 		await new Promise<void>((resolve) => listener.close(() => resolve()));
 		await smtp.close();
 		if (bootstrap.store.api_db) {